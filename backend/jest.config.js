@@ -4,5 +4,9 @@ module.exports = {
   testMatch: ['**/*.test.ts'],
   transform: {
     '^.+\\.tsx?$': 'ts-jest'
+  },
+  // Lambdas require lambda/shared as ./shared, where lambdaCodeWithShared copies it when bundling
+  moduleNameMapper: {
+    '^\\./shared/(.*)$': '<rootDir>/lambda/shared/$1'
   }
 };
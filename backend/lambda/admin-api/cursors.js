@@ -0,0 +1,45 @@
+// Opaque pagination cursors: positions signed with HMAC-SHA256 and bound to one listing (scope),
+// so clients cannot forge or reuse them elsewhere. The key is the cursor signing secret.
+const crypto = require('crypto');
+
+// Thrown for cursors that fail signature or scope checks (mapped to 400)
+class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Encode pagination positions as `${payload}.${signature}`
+function signCursor(key, scope, positions) {
+  const payload = Buffer.from(JSON.stringify({ scope, positions })).toString('base64url');
+  const signature = crypto.createHmac('sha256', key).update(payload).digest('base64url');
+  return `${payload}.${signature}`;
+}
+
+// Verify and decode a cursor produced by signCursor with the same key and scope
+function verifyCursor(key, scope, cursor) {
+  const [payload, signature] = (typeof cursor === 'string' ? cursor : '').split('.');
+  if (!payload || !signature) throw new InvalidCursorError();
+
+  const expected = crypto.createHmac('sha256', key).update(payload).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new InvalidCursorError();
+  }
+
+  let decoded;
+  try {
+    decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch (e) {
+    throw new InvalidCursorError();
+  }
+  if (decoded.scope !== scope) throw new InvalidCursorError();
+  return decoded.positions;
+}
+
+module.exports = {
+  InvalidCursorError,
+  signCursor,
+  verifyCursor,
+};
@@ -0,0 +1,27 @@
+// Proof-of-work check for the public escalation route. The client must find a solution where
+// sha256(`${challenge}:${solution}`) starts with `difficulty` zero bits.
+const crypto = require('crypto');
+
+// Count the leading zero bits of a hash
+function leadingZeroBits(buffer) {
+  let bits = 0;
+  for (const byte of buffer) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+// Whether the solution does the work the challenge asks for
+function solvesChallenge(challenge, solution, difficulty) {
+  const hash = crypto.createHash('sha256').update(`${challenge}:${solution}`).digest();
+  return leadingZeroBits(hash) >= difficulty;
+}
+
+module.exports = {
+  leadingZeroBits,
+  solvesChallenge,
+};
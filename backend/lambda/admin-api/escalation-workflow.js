@@ -0,0 +1,47 @@
+// Escalation status workflow: which statuses exist, which moves are allowed, and the status an
+// update (PATCH /escalations/{id}) leads to.
+
+// Allowed status transitions. Any status can also be archived (DELETE).
+const ESCALATION_TRANSITIONS = {
+  pending: ['assigned', 'closed'],
+  assigned: ['pending', 'in_progress', 'closed'],
+  in_progress: ['assigned', 'resolved', 'closed'],
+  resolved: ['in_progress', 'closed'],
+  closed: [],
+};
+
+// Escalation statuses - each is one partition of the status index. Listings show the
+// active statuses unless asked for one explicitly (including 'archived').
+const ACTIVE_ESCALATION_STATUSES = Object.keys(ESCALATION_TRANSITIONS);
+const ESCALATION_STATUSES = [...ACTIVE_ESCALATION_STATUSES, 'archived'];
+
+// Statuses that need someone working on the escalation
+const ASSIGNED_STATUSES = ['assigned', 'in_progress'];
+
+// Work out the status after an update. status is the requested one (undefined = unchanged);
+// assignee is the assignee after the update. Assigning someone to a pending escalation without a
+// status moves it to assigned. Returns { nextStatus } or { error, allowedStatuses? }.
+function resolveNextStatus({ currentStatus, status, assigneeChanged, assignee }) {
+  let nextStatus = status ?? currentStatus;
+  if (status === undefined && assigneeChanged && assignee && currentStatus === 'pending') {
+    nextStatus = 'assigned';
+  }
+
+  if (nextStatus !== currentStatus && !ESCALATION_TRANSITIONS[currentStatus]?.includes(nextStatus)) {
+    return {
+      error: `Cannot change status from ${currentStatus} to ${nextStatus}`,
+      allowedStatuses: ESCALATION_TRANSITIONS[currentStatus] || [],
+    };
+  }
+  if (ASSIGNED_STATUSES.includes(nextStatus) && !assignee) {
+    return { error: `An assignee is required for status ${nextStatus}` };
+  }
+  return { nextStatus };
+}
+
+module.exports = {
+  ESCALATION_TRANSITIONS,
+  ACTIVE_ESCALATION_STATUSES,
+  ESCALATION_STATUSES,
+  resolveNextStatus,
+};
@@ -1,384 +1,2198 @@
 const { DynamoDBClient } = require('@aws-sdk/client-dynamodb');
-const { DynamoDBDocumentClient, QueryCommand, ScanCommand, DeleteCommand, PutCommand } = require('@aws-sdk/lib-dynamodb');
+const { DynamoDBDocumentClient, QueryCommand, PutCommand, GetCommand, UpdateCommand, DeleteCommand, BatchGetCommand } = require('@aws-sdk/lib-dynamodb');
+const { SecretsManagerClient, GetSecretValueCommand } = require('@aws-sdk/client-secrets-manager');
+const {
+  CognitoIdentityProviderClient,
+  AdminGetUserCommand,
+  ListUsersCommand,
+  ListUsersInGroupCommand,
+  AdminListGroupsForUserCommand,
+  AdminCreateUserCommand,
+  AdminAddUserToGroupCommand,
+  AdminRemoveUserFromGroupCommand,
+  AdminDisableUserCommand,
+  AdminEnableUserCommand,
+  AdminSetUserPasswordCommand,
+  AdminUserGlobalSignOutCommand,
+  AdminSetUserMFAPreferenceCommand,
+} = require('@aws-sdk/client-cognito-identity-provider');
+const { S3Client, GetObjectCommand } = require('@aws-sdk/client-s3');
+const { getSignedUrl } = require('@aws-sdk/s3-request-presigner');
+const { LambdaClient, InvokeCommand } = require('@aws-sdk/client-lambda');
 const { v4: uuidv4 } = require('uuid');
+const crypto = require('crypto');
+const { guardEscalation, releaseDuplicateKey, resolveTranscriptSession } = require('./shared/escalation-guard');
+const { FEEDBACK_REASONS, FEEDBACK_REASON_VALUES, validateFeedbackDetails, ownsConversation, buildFeedbackUpdate } = require('./shared/feedback');
+const { getSearchClient, ensureConversationIndex, toDomain, toSearchDocument } = require('./shared/conversation-search');
+const { ROLES, getRoles, hasPermission, getRolesWith, describeDenial } = require('./shared/roles');
+const { MFA_REQUIRED_MESSAGE, hasTotpEnabled, forgetTotpUser } = require('./shared/mfa');
+const { EXPORT_DATASETS, EXPORT_FORMATS, iterateExportItems, formatExportHeader, formatExportRow, getExportFileName } = require('./shared/exports');
+const { InvalidCursorError, signCursor, verifyCursor } = require('./cursors');
+const { ACTIVE_ESCALATION_STATUSES, ESCALATION_STATUSES, resolveNextStatus } = require('./escalation-workflow');
+const { solvesChallenge } = require('./escalation-challenge');
+const { parseMetricsRange, toLocalDate, startOfLocalDay, addDays, listDates, buildPeriods } = require('./metrics-range');
 
 // Initialize clients
 const dynamoClient = new DynamoDBClient({});
 const docClient = DynamoDBDocumentClient.from(dynamoClient);
+const secretsClient = new SecretsManagerClient({});
+const cognitoClient = new CognitoIdentityProviderClient({});
+const s3Client = new S3Client({});
+const lambdaClient = new LambdaClient({});
 
 // Environment variables
 const CONVERSATION_TABLE = process.env.CONVERSATION_TABLE;
 const ESCALATION_TABLE = process.env.ESCALATION_TABLE;
 const DATE_INDEX = process.env.DATE_INDEX || 'date-timestamp-index';
 const FEEDBACK_INDEX = process.env.FEEDBACK_INDEX || 'feedback-timestamp-index';
+const SESSION_INDEX = process.env.SESSION_INDEX || 'sessionId-timestamp-index';
+const ESCALATION_STATUS_INDEX = process.env.ESCALATION_STATUS_INDEX || 'status-timestamp-index';
+const CURSOR_SECRET_ARN = process.env.CURSOR_SECRET_ARN;
+const USER_POOL_ID = process.env.USER_POOL_ID;
+const CONFIG_TABLE = process.env.CONFIG_TABLE;
+const GUARDRAIL_EVENTS_TABLE = process.env.GUARDRAIL_EVENTS_TABLE;
+const SESSION_TABLE = process.env.SESSION_TABLE;
+const METRICS_TABLE = process.env.METRICS_TABLE;
+const RATE_LIMIT_TABLE = process.env.RATE_LIMIT_TABLE;
+const CONVERSATION_SEARCH_ENDPOINT = process.env.CONVERSATION_SEARCH_ENDPOINT;
+const CONVERSATION_SEARCH_INDEX = process.env.CONVERSATION_SEARCH_INDEX || 'askusda-conversations';
+const ESCALATION_DATE_INDEX = process.env.ESCALATION_DATE_INDEX || 'DateTimestampIndex';
+const EXPORT_JOBS_TABLE = process.env.EXPORT_JOBS_TABLE;
+const EXPORT_BUCKET = process.env.EXPORT_BUCKET;
+const EXPORT_WORKER_FUNCTION = process.env.EXPORT_WORKER_FUNCTION;
+const AUDIT_TABLE = process.env.AUDIT_TABLE;
+const ESCALATION_CHALLENGE_DIFFICULTY = parseInt(process.env.ESCALATION_CHALLENGE_DIFFICULTY || '0', 10) || 0;
+
+// Response time histogram buckets maintained by the metrics aggregator
+const RESPONSE_TIME_BUCKETS = [
+  { name: 'rt_lt1s', label: '<1s' },
+  { name: 'rt_1to2s', label: '1-2s' },
+  { name: 'rt_2to5s', label: '2-5s' },
+  { name: 'rt_5to10s', label: '5-10s' },
+  { name: 'rt_gte10s', label: '10s+' },
+];
+const OUTCOMES = ['answered', 'low_confidence', 'blocked', 'error'];
+
+const MAX_NOTE_LENGTH = 2000;
+const MAX_TRANSCRIPT_TURNS = 100;
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// Conversations deleted per POST /conversations/bulk-delete call (repeat while hasMore)
+const BULK_DELETE_MAX = 500;
+const REDACTED_TEXT = '[redacted]';
+
+// Audit log: one entry per administrative action (see recordAudit). GET /audit lists them.
+const AUDIT_ACTIONS = [
+  'escalation.update', 'escalation.archive',
+  'conversation.delete', 'conversation.redact', 'conversation.bulk_delete',
+  'config.update', 'export.download', 'export.create',
+  'user.invite', 'user.disable', 'user.enable', 'user.reset_password', 'user.reset_mfa', 'user.role_change',
+  'access.denied',
+];
+const AUDIT_TARGET_TYPES = ['escalation', 'conversation', 'bulk_delete', 'config', 'export', 'user', 'route'];
+const AUDIT_DEFAULT_DAYS = 30;
+// Index queries per GET /audit call; a sparse filter may return a short page with a cursor
+const AUDIT_MAX_QUERIES = 20;
+
+// Admin users are invited by email; Cognito emails them a temporary password
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Direct export downloads stay well inside the 6 MB Lambda response limit; larger exports run as jobs
+const SYNC_EXPORT_MAX_ROWS = 5000;
+const SYNC_EXPORT_MAX_BYTES = 5 * 1024 * 1024;
+const EXPORT_JOB_TTL_SECONDS = 7 * 24 * 60 * 60; // Matches the export bucket lifecycle
+const EXPORT_URL_EXPIRY_SECONDS = 15 * 60;
+const EXPORT_WORKER_TIMEOUT_MS = 16 * 60 * 1000; // Worker timeout plus a margin
+
+// Thrown when an audit entry cannot be written (mapped to 500, so the change is not reported as done)
+class AuditWriteError extends Error {
+  constructor() {
+    super('The change was made but could not be recorded in the audit log; contact an administrator');
+    this.name = 'AuditWriteError';
+  }
+}
+
+// Retrieval / confidence gating defaults (must match the websocket handler)
+const DEFAULT_RETRIEVAL_CONFIG = {
+  version: 0,
+  confidenceThreshold: 0.5,
+  scoringStrategy: 'max',
+  topK: 3,
+  numberOfResults: 5,
+  fallbackMessage: "I'm not very confident about the answer to your question. For accurate information, I'd recommend visiting [usda.gov](https://www.usda.gov) or clicking the **Customer Support** button (headphone icon) in the top right corner to speak with a representative who can better assist you.",
+};
+const SCORING_STRATEGIES = ['max', 'mean', 'weighted'];
 
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type,Authorization',
-  'Access-Control-Allow-Methods': 'GET,POST,DELETE,OPTIONS',
+  'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
   'Content-Type': 'application/json',
 };
 
-// Helper to create response
-function response(statusCode, body) {
+// Helper to create response
+function response(statusCode, body) {
+  return {
+    statusCode,
+    headers: corsHeaders,
+    body: JSON.stringify(body),
+  };
+}
+
+// Identify the signed-in admin from the JWT claims (used for audit fields)
+function getActor(claims) {
+  return claims?.email || claims?.['cognito:username'] || 'unknown';
+}
+
+// Routes open to anyone (the chatbot and escalation form); every other route is denied unless
+// ROUTE_PERMISSIONS lists it
+const PUBLIC_ROUTES = [
+  { method: 'POST', path: /^\/feedback$/ },
+  { method: 'POST', path: /^\/escalations$/ },
+  { method: 'GET', path: /^\/escalations\/challenge$/ },
+];
+
+// Permission each protected route needs (see shared/roles.js). Every route behind the JWT
+// authorizer must be listed: unlisted routes are refused.
+const ROUTE_PERMISSIONS = [
+  { method: 'GET', path: /^\/metrics$/, permission: 'dashboard:read' },
+  { method: 'GET', path: /^\/guardrail-events$/, permission: 'dashboard:read' },
+  { method: 'GET', path: /^\/feedback$/, permission: 'dashboard:read' },
+  { method: 'GET', path: /^\/conversations\/search$/, permission: 'dashboard:read' },
+  { method: 'POST', path: /^\/conversations\/bulk-delete$/, permission: 'conversations:manage' },
+  { method: 'POST', path: /^\/conversations\/[^/]+\/redact$/, permission: 'conversations:manage' },
+  { method: 'DELETE', path: /^\/conversations\/[^/]+$/, permission: 'conversations:manage' },
+  { method: 'GET', path: /^\/escalations$/, permission: 'dashboard:read' },
+  { method: 'GET', path: /^\/escalations\/(?!challenge$)[^/]+$/, permission: 'dashboard:read' },
+  { method: 'PATCH', path: /^\/escalations\/[^/]+$/, permission: 'escalations:update' },
+  { method: 'DELETE', path: /^\/escalations\/[^/]+$/, permission: 'escalations:archive' },
+  { method: 'GET', path: /^\/config$/, permission: 'dashboard:read' },
+  { method: 'PUT', path: /^\/config$/, permission: 'config:update' },
+  { method: 'GET', path: /^\/exports\/[^/]+$/, permission: 'data:export' },
+  { method: 'POST', path: /^\/export-jobs$/, permission: 'data:export' },
+  { method: 'GET', path: /^\/export-jobs\/[^/]+$/, permission: 'data:export' },
+  { method: 'GET', path: /^\/users$/, permission: 'users:manage' },
+  { method: 'POST', path: /^\/users$/, permission: 'users:manage' },
+  { method: 'POST', path: /^\/users\/[^/]+\/(disable|enable|reset-password|reset-mfa)$/, permission: 'users:manage' },
+  { method: 'PUT', path: /^\/users\/[^/]+\/role$/, permission: 'users:manage' },
+  { method: 'GET', path: /^\/audit$/, permission: 'audit:read' },
+];
+
+// Check the caller's roles (Cognito groups) against the route, then that they have set up an
+// authenticator app; returns a 403 response or null. Routes in neither PUBLIC_ROUTES nor
+// ROUTE_PERMISSIONS are refused. Refused attempts at mutating routes are recorded in the audit log.
+async function authorizeRoute(httpMethod, path, claims, requestInfo) {
+  const matches = r => r.method === httpMethod && r.path.test(path || '');
+  if (PUBLIC_ROUTES.some(matches)) return null;
+
+  const route = ROUTE_PERMISSIONS.find(matches);
+  if (!route) {
+    console.warn(`Denied unmapped route ${httpMethod} ${path} to ${getActor(claims)}`);
+    return response(403, { error: 'This route is not available', code: 'FORBIDDEN' });
+  }
+
+  const roles = getRoles(claims);
+  if (hasPermission(roles, route.permission)) {
+    return checkMfa(claims);
+  }
+
+  console.warn(`Denied ${httpMethod} ${path} to ${getActor(claims)} (roles: ${roles.join(', ') || 'none'})`);
+  if (httpMethod !== 'GET') {
+    try {
+      await recordAudit(claims, requestInfo, {
+        action: 'access.denied',
+        targetType: 'route',
+        targetId: `${httpMethod} ${path}`,
+        details: { permission: route.permission },
+      });
+    } catch (error) {
+      // Already logged in full; the request is refused either way
+      if (!(error instanceof AuditWriteError)) throw error;
+    }
+  }
+  return response(403, {
+    error: describeDenial(roles, route.permission),
+    code: 'FORBIDDEN',
+    permission: route.permission,
+    requiredRoles: getRolesWith(route.permission),
+  });
+}
+
+// Refuse callers without TOTP: MFA is optional on the pool, so a token alone does not prove it
+async function checkMfa(claims) {
+  try {
+    if (await hasTotpEnabled(cognitoClient, USER_POOL_ID, claims?.['cognito:username'])) return null;
+  } catch (error) {
+    console.error('Error checking MFA:', error);
+    return response(500, { error: 'Failed to check two-factor authentication' });
+  }
+  console.warn(`Denied ${getActor(claims)}: no authenticator app set up`);
+  return response(403, { error: MFA_REQUIRED_MESSAGE, code: 'MFA_REQUIRED' });
+}
+
+// Request details stored with each audit entry
+function getRequestInfo(event) {
+  return {
+    method: event.requestContext?.http?.method || event.httpMethod || null,
+    path: event.rawPath || event.path || null,
+    sourceIp: event.requestContext?.http?.sourceIp || null,
+    userAgent: event.requestContext?.http?.userAgent || null,
+    requestId: event.requestContext?.requestId || null,
+  };
+}
+
+// Copy of a value for an audit entry (drops undefined fields, which DynamoDB rejects)
+function toAuditValue(value) {
+  return value === undefined || value === null ? null : JSON.parse(JSON.stringify(value));
+}
+
+// Append an entry to the audit log (AUDIT_TABLE, put-only for this Lambda). Called once the
+// action has happened; if the write fails, the entry is logged in full so it can be recovered
+// from CloudWatch and AuditWriteError fails the request.
+async function recordAudit(claims, requestInfo, { action, targetType, targetId, before = null, after = null, details = null }) {
+  const now = new Date().toISOString();
+  const entry = {
+    auditId: uuidv4(),
+    timestamp: now,
+    date: now.substring(0, 10),
+    actor: getActor(claims),
+    actorSub: claims?.sub || null,
+    actorRoles: getRoles(claims),
+    action,
+    targetType,
+    targetId: String(targetId),
+    target: `${targetType}#${targetId}`,
+    before: toAuditValue(before),
+    after: toAuditValue(after),
+    details: toAuditValue(details),
+    request: requestInfo || null,
+  };
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: AUDIT_TABLE,
+      Item: entry,
+      ConditionExpression: 'attribute_not_exists(auditId)',
+    }));
+  } catch (error) {
+    console.error('Audit write failed:', JSON.stringify(entry), error);
+    throw new AuditWriteError();
+  }
+}
+
+// Escalation fields kept in audit snapshots (the contact details stay in the escalation)
+function auditEscalation(item) {
+  return {
+    status: item.status || 'pending',
+    assignee: item.assignee || null,
+    noteCount: (item.notes || []).length,
+    archivedAt: item.archivedAt || null,
+  };
+}
+
+// Conversation fields kept in audit snapshots - never the text, so a redaction is not undone
+function auditConversation(item) {
+  return {
+    sessionId: item.sessionId || null,
+    timestamp: item.timestamp,
+    outcome: item.outcome || 'answered',
+    feedback: item.feedback || null,
+    deletedAt: item.deletedAt || null,
+    redactedAt: item.redactedAt || null,
+  };
+}
+
+// Export request fields kept in audit entries
+function auditExportRequest(request) {
+  const { dataset, format, from, to, timezone, filters } = request;
+  return { dataset, format, from, to, timezone, filters };
+}
+
+// Admin user fields kept in audit snapshots
+function auditUser(user) {
+  return { email: user.email, status: user.status, enabled: user.enabled, roles: user.roles };
+}
+
+// Load the cursor signing key once per container
+let cursorKey = null;
+async function getCursorKey() {
+  if (!cursorKey) {
+    const result = await secretsClient.send(new GetSecretValueCommand({ SecretId: CURSOR_SECRET_ARN }));
+    cursorKey = result.SecretString;
+  }
+  return cursorKey;
+}
+
+// Encode pagination positions as an opaque, HMAC-signed cursor bound to one listing (scope)
+async function encodeCursor(scope, positions) {
+  return signCursor(await getCursorKey(), scope, positions);
+}
+
+// Verify and decode a cursor produced by encodeCursor for the same scope
+async function decodeCursor(scope, cursor) {
+  return verifyCursor(await getCursorKey(), scope, cursor);
+}
+
+// Read one newest-first page across several partitions of a timestamp-sorted index
+// (e.g. pos + neg feedback). positions maps each partition value to the index key of the
+// last item already returned (null = start, 'done' = exhausted); the updated map is returned.
+// An optional filter ({ expression, names, values }) narrows each partition's items; a page
+// may then come back short, but the cursor still advances past everything that was read.
+async function queryMergedPage({ tableName, indexName, partitionAttribute, partitions, limit, positions, keyOf, filter }) {
+  const fetched = await Promise.all(partitions.map(async (partition) => {
+    const position = positions[partition] ?? null;
+    if (position === 'done') return { partition, items: [], exhausted: true };
+
+    const result = await docClient.send(new QueryCommand({
+      TableName: tableName,
+      IndexName: indexName,
+      KeyConditionExpression: '#pk = :pk',
+      FilterExpression: filter?.expression,
+      ExpressionAttributeNames: { '#pk': partitionAttribute, ...filter?.names },
+      ExpressionAttributeValues: { ':pk': partition, ...filter?.values },
+      ScanIndexForward: false,
+      Limit: limit,
+      ExclusiveStartKey: position || undefined,
+    }));
+    return {
+      partition,
+      items: result.Items || [],
+      exhausted: !result.LastEvaluatedKey,
+      lastEvaluatedKey: result.LastEvaluatedKey,
+    };
+  }));
+
+  // Merge newest-first and keep the first page
+  const merged = fetched
+    .flatMap(({ partition, items }) => items.map(item => ({ partition, item })))
+    .sort((a, b) => b.item.timestamp.localeCompare(a.item.timestamp))
+    .slice(0, limit);
+
+  const nextPositions = { ...positions };
+  for (const { partition, items, exhausted, lastEvaluatedKey } of fetched) {
+    const consumed = merged.filter(m => m.partition === partition);
+    if (consumed.length === items.length) {
+      // Everything read was returned (or filtered out) - continue after the last key read
+      if (exhausted) {
+        nextPositions[partition] = 'done';
+      } else if (lastEvaluatedKey) {
+        nextPositions[partition] = lastEvaluatedKey;
+      }
+    } else if (consumed.length > 0) {
+      nextPositions[partition] = keyOf(consumed[consumed.length - 1].item);
+    }
+  }
+
+  const hasMore = partitions.some(p => nextPositions[p] !== 'done');
+  return { items: merged.map(m => m.item), nextPositions, hasMore };
+}
+
+// Read one of the all-time rollup items maintained by the metrics aggregator
+async function getTotalRollup(bucket) {
+  try {
+    const result = await docClient.send(new GetCommand({
+      TableName: METRICS_TABLE,
+      Key: { granularity: 'TOTAL', bucket },
+    }));
+    return result.Item || {};
+  } catch (error) {
+    console.error(`Error reading ${bucket} rollup:`, error);
+    return {};
+  }
+}
+
+// Read the rollup items of one granularity between two buckets (inclusive)
+async function queryRollups(granularity, startBucket, endBucket) {
+  const items = [];
+  let lastKey = undefined;
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: METRICS_TABLE,
+      KeyConditionExpression: 'granularity = :granularity AND #bucket BETWEEN :start AND :end',
+      ExpressionAttributeNames: { '#bucket': 'bucket' },
+      ExpressionAttributeValues: { ':granularity': granularity, ':start': startBucket, ':end': endBucket },
+      ExclusiveStartKey: lastKey,
+    }));
+    items.push(...(result.Items || []));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+  return items;
+}
+
+// Add the counters of a rollup item to a running sum
+function addCounters(sum, item) {
+  for (const [name, value] of Object.entries(item)) {
+    if (typeof value === 'number') sum[name] = (sum[name] || 0) + value;
+  }
+  return sum;
+}
+
+// Rollup counters per calendar day in a timezone. UTC days are the daily rollups; other
+// timezones add up the hourly rollups that start in each local day.
+async function getDailyCounters(from, to, timezone) {
+  const byDate = {};
+  if (timezone === 'UTC') {
+    for (const item of await queryRollups('DAY', from, to)) {
+      byDate[item.bucket] = addCounters({}, item);
+    }
+    return byDate;
+  }
+
+  const startHour = startOfLocalDay(from, timezone).toISOString().substring(0, 13);
+  const endHour = new Date(startOfLocalDay(addDays(to, 1), timezone).getTime() - 1).toISOString().substring(0, 13);
+  for (const item of await queryRollups('HOUR', startHour, endHour)) {
+    const date = toLocalDate(new Date(`${item.bucket}:00:00Z`), timezone);
+    // Hours that start before local midnight (half-hour offsets) belong to the neighbouring day
+    if (date < from || date > to) continue;
+    byDate[date] = addCounters(byDate[date] || {}, item);
+  }
+  return byDate;
+}
+
+// Dashboard figures from summed rollup counters
+function summarizeCounters(counters) {
+  const totalConversations = counters.conversations || 0;
+  const positiveFeedback = counters.feedbackPos || 0;
+  const negativeFeedback = counters.feedbackNeg || 0;
+  const totalFeedback = positiveFeedback + negativeFeedback;
+  const responseTimeCount = counters.responseTimeCount || 0;
+
+  return {
+    totalConversations,
+    totalFeedback,
+    positiveFeedback,
+    negativeFeedback,
+    noFeedback: totalConversations - totalFeedback,
+    satisfactionRate: totalFeedback > 0 ? Math.round((positiveFeedback / totalFeedback) * 100) : 0,
+    avgResponseTimeMs: responseTimeCount > 0 ? Math.round((counters.responseTimeSum || 0) / responseTimeCount) : 0,
+    responseTimeHistogram: RESPONSE_TIME_BUCKETS.map(b => ({ label: b.label, count: counters[b.name] || 0 })),
+    outcomes: Object.fromEntries(OUTCOMES.map(o => [o, counters[`outcome_${o}`] || 0])),
+  };
+}
+
+// Get metrics for dashboard over a date range (read from the rollups kept by the metrics
+// aggregator - no table scans). Range figures are summed from daily counters in the requested
+// timezone; the previous period uses the same days and granularity for comparison.
+async function getMetrics(range) {
+  const { from, to, timezone, granularity, today, previous } = range;
+
+  // One read covers the range and the previous period right before it
+  let dailyCounters = {};
+  try {
+    dailyCounters = await getDailyCounters(previous ? previous.from : from, to, timezone);
+  } catch (error) {
+    console.error('Error querying metrics rollups:', error);
+  }
+
+  // Figures and chart series for one range
+  const summarizeRange = (rangeFrom, rangeTo) => {
+    const counters = {};
+    const conversationsByPeriod = buildPeriods(rangeFrom, rangeTo, granularity).map(({ dates, ...period }) => {
+      const periodCounters = dates.reduce((sum, date) => addCounters(sum, dailyCounters[date] || {}), {});
+      addCounters(counters, periodCounters);
+      return { ...period, count: periodCounters.conversations || 0 };
+    });
+    return {
+      ...summarizeCounters(counters),
+      negativeFeedbackReasons: FEEDBACK_REASONS.map(r => ({
+        reason: r.value,
+        label: r.label,
+        count: counters[`feedbackReason_${r.value}`] || 0,
+      })),
+      conversationsByPeriod,
+    };
+  };
+
+  // All-time totals
+  const totals = await getTotalRollup('ALL');
+  const current = summarizeRange(from, to);
+
+  return {
+    range: { from, to, timezone, granularity },
+    ...current,
+    conversationsToday: today >= from && today <= to ? dailyCounters[today]?.conversations || 0 : null,
+    // Reasons given with negative feedback: within the range, plus the all-time total
+    negativeFeedbackReasons: current.negativeFeedbackReasons.map(r => ({
+      ...r,
+      total: totals[`feedbackReason_${r.reason}`] || 0,
+    })),
+    allTime: summarizeCounters(totals),
+    previous: previous ? { range: previous, ...summarizeRange(previous.from, previous.to) } : null,
+  };
+}
+
+// Get guardrail interventions over a date range, by period and filter category, plus the most
+// recent redacted samples. Events are stored per UTC date, so every UTC date the local range
+// touches is read and each event is placed by its local date.
+async function getGuardrailEvents(range, sampleLimit = 50) {
+  const { from, to, timezone, granularity } = range;
+  const utcFrom = startOfLocalDay(from, timezone).toISOString().substring(0, 10);
+  const utcTo = new Date(startOfLocalDay(addDays(to, 1), timezone).getTime() - 1).toISOString().substring(0, 10);
+
+  const byDate = {};
+  const byCategory = {};
+  const bySource = { INPUT: 0, OUTPUT: 0 };
+  const samples = [];
+  let totalEvents = 0;
+
+  // Read all events stored for one UTC date
+  const readDate = async (dateStr) => {
+    const items = [];
+    try {
+      let lastKey = undefined;
+      do {
+        const result = await docClient.send(new QueryCommand({
+          TableName: GUARDRAIL_EVENTS_TABLE,
+          KeyConditionExpression: '#date = :date',
+          ExpressionAttributeNames: { '#date': 'date' },
+          ExpressionAttributeValues: { ':date': dateStr },
+          ScanIndexForward: false, // Newest first
+          ExclusiveStartKey: lastKey,
+        }));
+        items.push(...(result.Items || []));
+        lastKey = result.LastEvaluatedKey;
+      } while (lastKey);
+    } catch (error) {
+      console.error(`Error querying guardrail events for ${dateStr}:`, error);
+    }
+    return items;
+  };
+
+  // A few dates at a time keeps long ranges fast without a burst of reads
+  const utcDates = listDates(utcFrom, utcTo);
+  for (let i = 0; i < utcDates.length; i += 10) {
+    const batches = await Promise.all(utcDates.slice(i, i + 10).map(readDate));
+    for (const item of batches.flat()) {
+      const date = toLocalDate(new Date(item.timestamp), timezone);
+      if (date < from || date > to) continue;
+
+      totalEvents++;
+      bySource[item.source] = (bySource[item.source] || 0) + 1;
+      const day = byDate[date] || (byDate[date] = { count: 0, categories: {} });
+      day.count++;
+      for (const category of item.categories || []) {
+        day.categories[category] = (day.categories[category] || 0) + 1;
+        byCategory[category] = (byCategory[category] || 0) + 1;
+      }
+      samples.push({
+        timestamp: item.timestamp,
+        source: item.source,
+        categories: item.categories || [],
+        sample: item.sample,
+        conversationId: item.conversationId,
+      });
+    }
+  }
+
+  const eventsByPeriod = buildPeriods(from, to, granularity).map(({ dates, ...period }) => {
+    const categories = {};
+    let count = 0;
+    for (const date of dates) {
+      count += byDate[date]?.count || 0;
+      for (const [category, n] of Object.entries(byDate[date]?.categories || {})) {
+        categories[category] = (categories[category] || 0) + n;
+      }
+    }
+    return { ...period, count, categories };
+  });
+
+  samples.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  return {
+    range: { from, to, timezone, granularity },
+    totalEvents,
+    bySource,
+    byCategory,
+    eventsByPeriod,
+    samples: samples.slice(0, sampleLimit),
+  };
+}
+
+// Shape a Conversation History item for the dashboard (feedback list and search results)
+function formatConversation(conv) {
+  // Parse citations from JSON string
+  let citations = [];
+  try {
+    citations = conv.citations ? JSON.parse(conv.citations) : [];
+  } catch (e) {
+    citations = [];
+  }
+  
+  // Calculate confidence score based on citation scores (industry standard approach)
+  // Average the top citation scores, normalized to 0-100
+  let confidenceScore = 0;
+  if (citations.length > 0) {
+    const avgScore = citations.reduce((sum, c) => sum + (c.score || 0), 0) / citations.length;
+    confidenceScore = Math.round(avgScore * 100);
+  }
+  
+  return {
+    conversationId: conv.conversationId,
+    sessionId: conv.sessionId,
+    question: conv.question,
+    retrievalQuery: conv.retrievalQuery || conv.question,
+    answerPreview: conv.answerPreview || conv.answer?.substring(0, 500),
+    feedback: conv.feedback || null,
+    feedbackReasons: conv.feedbackReasons || [],
+    feedbackComment: conv.feedbackComment || null,
+    timestamp: conv.timestamp,
+    date: conv.date,
+    responseTimeMs: conv.responseTimeMs,
+    citations: citations,
+    confidenceScore: confidenceScore,
+    confidence: conv.confidence ?? null, // Score from the configured strategy (0-1), used by search filters
+    configVersion: conv.configVersion ?? null,
+    outcome: conv.outcome || 'answered',
+    guardrailSource: conv.guardrailSource || null,
+    guardrailReasons: conv.guardrailReasons || [],
+    redacted: Boolean(conv.redactedAt),
+  };
+}
+
+// Get feedback conversations (only returns conversations with feedback - pos or neg), one page per cursor.
+// A reason narrows the listing to negative feedback that gave that reason.
+async function getFeedbackConversations(limit = 50, cursor = null, feedbackFilter = null, reason = null) {
+  const reasonFilter = FEEDBACK_REASON_VALUES.includes(reason) ? reason : null;
+  const partitions = reasonFilter ? ['neg']
+    : feedbackFilter === 'pos' || feedbackFilter === 'neg' ? [feedbackFilter] : ['pos', 'neg'];
+  const scope = `feedback:${partitions.join('+')}${reasonFilter ? `:${reasonFilter}` : ''}`;
+  const positions = cursor ? await decodeCursor(scope, cursor) : {};
+
+  const [page, totals] = await Promise.all([
+    queryMergedPage({
+      tableName: CONVERSATION_TABLE,
+      indexName: FEEDBACK_INDEX,
+      partitionAttribute: 'feedback',
+      partitions,
+      limit,
+      positions,
+      keyOf: item => ({ conversationId: item.conversationId, timestamp: item.timestamp, feedback: item.feedback }),
+      // Soft-deleted conversations stay in the index until they expire
+      filter: reasonFilter ? {
+        expression: 'attribute_not_exists(deletedAt) AND contains(feedbackReasons, :reason)',
+        values: { ':reason': reasonFilter },
+      } : {
+        expression: 'attribute_not_exists(deletedAt)',
+      },
+    }),
+    getTotalRollup('ALL'),
+  ]);
+
+  const total = reasonFilter ? totals[`feedbackReason_${reasonFilter}`] || 0
+    : (partitions.includes('pos') ? totals.feedbackPos || 0 : 0)
+      + (partitions.includes('neg') ? totals.feedbackNeg || 0 : 0);
+
+  return {
+    total,
+    nextCursor: page.hasMore ? await encodeCursor(scope, page.nextPositions) : null,
+    conversations: page.items.map(formatConversation),
+  };
+}
+
+// Validate GET /conversations/search query parameters.
+// Returns { error } or { params } with only the filters that were given.
+function parseSearchParams(query = {}) {
+  const params = {};
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+  if (query.q) {
+    params.q = query.q.trim().substring(0, MAX_SEARCH_QUERY_LENGTH);
+  }
+
+  for (const name of ['from', 'to']) {
+    if (query[name]) {
+      if (!datePattern.test(query[name])) return { error: `${name} must be a date (YYYY-MM-DD)` };
+      params[name] = query[name];
+    }
+  }
+
+  const numbers = {
+    minConfidence: [0, 1],
+    maxConfidence: [0, 1],
+    minResponseMs: [0, Infinity],
+    maxResponseMs: [0, Infinity],
+  };
+  for (const [name, [min, max]] of Object.entries(numbers)) {
+    if (query[name] !== undefined && query[name] !== '') {
+      const value = Number(query[name]);
+      if (!Number.isFinite(value) || value < min || value > max) {
+        return { error: `${name} must be a number${max === 1 ? ' between 0 and 1' : ' >= 0'}` };
+      }
+      params[name] = value;
+    }
+  }
+
+  if (query.domain) {
+    const domain = toDomain(query.domain.trim());
+    if (!domain) return { error: 'domain must be a host name such as www.usda.gov' };
+    params.domain = domain;
+  }
+
+  if (query.outcome) {
+    const outcomes = query.outcome.split(',');
+    if (outcomes.some(o => !OUTCOMES.includes(o))) {
+      return { error: `outcome must be one or more of: ${OUTCOMES.join(', ')}` };
+    }
+    params.outcomes = outcomes;
+  }
+
+  if (query.feedback) {
+    if (!['pos', 'neg', 'none'].includes(query.feedback)) return { error: "feedback must be 'pos', 'neg' or 'none'" };
+    params.feedback = query.feedback;
+  }
+
+  if (query.reason) {
+    if (!FEEDBACK_REASON_VALUES.includes(query.reason)) return { error: `reason must be one of: ${FEEDBACK_REASON_VALUES.join(', ')}` };
+    params.reason = query.reason;
+  }
+
+  return { params };
+}
+
+// Search all conversations (not just rated ones) through the OpenSearch conversation index -
+// full text over question/answer plus filters - then load the matching items from DynamoDB.
+// Newest first, or best match first when there is a text query.
+async function searchConversations(params, limit = 50, cursor = null) {
+  const filter = [];
+  const mustNot = [];
+  if (params.from || params.to) {
+    filter.push({ range: { date: { ...(params.from && { gte: params.from }), ...(params.to && { lte: params.to }) } } });
+  }
+  if (params.minConfidence !== undefined || params.maxConfidence !== undefined) {
+    filter.push({ range: { confidence: { gte: params.minConfidence ?? 0, lte: params.maxConfidence ?? 1 } } });
+  }
+  if (params.minResponseMs !== undefined || params.maxResponseMs !== undefined) {
+    filter.push({ range: { responseTimeMs: { ...(params.minResponseMs !== undefined && { gte: params.minResponseMs }), ...(params.maxResponseMs !== undefined && { lte: params.maxResponseMs }) } } });
+  }
+  if (params.domain) filter.push({ term: { sourceDomains: params.domain } });
+  if (params.outcomes) filter.push({ terms: { outcome: params.outcomes } });
+  if (params.feedback === 'none') {
+    mustNot.push({ exists: { field: 'feedback' } });
+  } else if (params.feedback) {
+    filter.push({ term: { feedback: params.feedback } });
+  }
+  if (params.reason) filter.push({ term: { feedbackReasons: params.reason } });
+
+  const must = params.q
+    ? [{ multi_match: { query: params.q, fields: ['question^2', 'retrievalQuery', 'answer'] } }]
+    : [{ match_all: {} }];
+  const sort = [
+    ...(params.q ? [{ _score: 'desc' }] : []),
+    { timestamp: 'desc' },
+    { conversationId: 'asc' },
+  ];
+
+  // Cursors are bound to the exact search they came from
+  const scope = `conversation-search:${crypto.createHash('sha256').update(JSON.stringify(params)).digest('hex')}`;
+  const searchAfter = cursor ? await decodeCursor(scope, cursor) : null;
+
+  const searchClient = getSearchClient(CONVERSATION_SEARCH_ENDPOINT);
+  await ensureConversationIndex(searchClient, CONVERSATION_SEARCH_INDEX);
+  const result = await searchClient.search({
+    index: CONVERSATION_SEARCH_INDEX,
+    body: {
+      size: limit,
+      query: { bool: { must, filter, must_not: mustNot } },
+      sort,
+      track_total_hits: true,
+      _source: ['conversationId', 'timestamp'],
+      ...(searchAfter && { search_after: searchAfter }),
+    },
+  });
+
+  const hits = result.body.hits.hits;
+  const keys = hits.map(hit => ({ conversationId: hit._source.conversationId, timestamp: hit._source.timestamp }));
+
+  // Load the matching items (the table stays the source of truth); items removed or
+  // deleted since they were indexed are skipped
+  const items = new Map();
+  let requestKeys = keys;
+  while (requestKeys.length > 0) {
+    const batch = await docClient.send(new BatchGetCommand({
+      RequestItems: { [CONVERSATION_TABLE]: { Keys: requestKeys } },
+    }));
+    for (const item of batch.Responses?.[CONVERSATION_TABLE] || []) {
+      if (!item.deletedAt) items.set(item.conversationId, item);
+    }
+    requestKeys = batch.UnprocessedKeys?.[CONVERSATION_TABLE]?.Keys || [];
+  }
+
+  return {
+    total: result.body.hits.total?.value ?? hits.length,
+    nextCursor: hits.length === limit ? await encodeCursor(scope, hits[hits.length - 1].sort) : null,
+    conversations: keys.filter(k => items.has(k.conversationId)).map(k => formatConversation(items.get(k.conversationId))),
+  };
+}
+
+// Get escalation requests, newest first, one page per cursor (active statuses unless one is requested)
+async function getEscalations(limit = 50, cursor = null, statusFilter = null) {
+  const partitions = ESCALATION_STATUSES.includes(statusFilter) ? [statusFilter] : ACTIVE_ESCALATION_STATUSES;
+  const scope = `escalations:${partitions.join('+')}`;
+  const positions = cursor ? await decodeCursor(scope, cursor) : {};
+
+  const [page, totals] = await Promise.all([
+    queryMergedPage({
+      tableName: ESCALATION_TABLE,
+      indexName: ESCALATION_STATUS_INDEX,
+      partitionAttribute: 'status',
+      partitions,
+      limit,
+      positions,
+      keyOf: item => ({ escalationId: item.escalationId, timestamp: item.timestamp, status: item.status }),
+    }),
+    getTotalRollup('ESCALATIONS'),
+  ]);
+
+  const escalations = page.items.map(formatEscalation);
+
+  return {
+    escalations,
+    total: partitions.reduce((sum, status) => sum + (totals[`status_${status}`] || 0), 0),
+    nextCursor: page.hasMore ? await encodeCursor(scope, page.nextPositions) : null,
+  };
+}
+
+// Shape an escalation item for the dashboard
+function formatEscalation(item) {
+  return {
+    id: item.escalationId,
+    name: item.name,
+    email: item.email,
+    phone: item.phone || '',
+    question: item.question,
+    requestDate: item.timestamp,
+    status: item.status || 'pending',
+    assignee: item.assignee || null,
+    notes: item.notes || [],
+    history: item.history || [],
+    updatedAt: item.updatedAt || item.timestamp,
+    transcriptAttached: Boolean(item.sessionId),
+  };
+}
+
+// Chat transcript for an escalation: the session's exchanges up to when the request was submitted.
+// Exchanges follow the conversation table's retention, so older transcripts may be partial.
+async function getSessionTranscript(sessionId, until) {
+  if (!sessionId) return [];
+
+  const turns = [];
+  let lastKey = undefined;
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: CONVERSATION_TABLE,
+      IndexName: SESSION_INDEX,
+      KeyConditionExpression: 'sessionId = :sessionId AND #ts <= :until',
+      ExpressionAttributeNames: { '#ts': 'timestamp' },
+      ExpressionAttributeValues: { ':sessionId': sessionId, ':until': until },
+      ExclusiveStartKey: lastKey,
+    }));
+    turns.push(...(result.Items || []));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey && turns.length < MAX_TRANSCRIPT_TURNS);
+
+  return turns.filter(conv => !conv.deletedAt).slice(0, MAX_TRANSCRIPT_TURNS).map(conv => {
+    let citations = [];
+    try {
+      citations = conv.citations ? JSON.parse(conv.citations) : [];
+    } catch (e) {
+      citations = [];
+    }
+
+    return {
+      conversationId: conv.conversationId,
+      timestamp: conv.timestamp,
+      question: conv.question,
+      answer: conv.answer || conv.answerPreview || '',
+      citations,
+      confidence: conv.confidence ?? null,
+      responseTimeMs: conv.responseTimeMs,
+      outcome: conv.outcome || 'answered',
+      guardrailSource: conv.guardrailSource || null,
+      feedback: conv.feedback || null,
+    };
+  });
+}
+
+// Look up an escalation by id (partition key query - the sort key is its creation timestamp)
+async function getEscalationItem(escalationId) {
+  const result = await docClient.send(new QueryCommand({
+    TableName: ESCALATION_TABLE,
+    KeyConditionExpression: 'escalationId = :id',
+    ExpressionAttributeValues: { ':id': escalationId },
+    Limit: 1,
+  }));
+  return result.Items?.[0] || null;
+}
+
+// Resolve an assignee to an enabled admin pool user; returns their email or null
+async function resolveAssignee(assignee) {
+  try {
+    const result = await cognitoClient.send(new AdminGetUserCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: assignee,
+    }));
+    if (!result.Enabled) return null;
+    return result.UserAttributes?.find(a => a.Name === 'email')?.Value || result.Username;
+  } catch (error) {
+    if (error.name === 'UserNotFoundException') return null;
+    throw error;
+  }
+}
+
+// Update an escalation: status transition, assignee, and/or a new internal note
+async function updateEscalation(escalationId, body, claims, requestInfo) {
+  const { status, note } = body;
+  const hasAssignee = Object.prototype.hasOwnProperty.call(body, 'assignee');
+
+  if (status === undefined && !hasAssignee && note === undefined) {
+    return response(400, { error: 'Provide status, assignee, or note' });
+  }
+
+  const item = await getEscalationItem(escalationId);
+  if (!item) {
+    return response(404, { error: 'Escalation not found' });
+  }
+
+  const currentStatus = item.status || 'pending';
+  if (currentStatus === 'archived') {
+    return response(409, { error: 'Archived escalations cannot be changed' });
+  }
+
+  // Resolve the assignee first - it decides whether an implicit pending -> assigned move happens
+  let assignee = item.assignee || null;
+  if (hasAssignee) {
+    if (body.assignee === null || body.assignee === '') {
+      assignee = null;
+    } else {
+      assignee = await resolveAssignee(String(body.assignee));
+      if (!assignee) {
+        return response(400, { error: 'Assignee must be an active admin user' });
+      }
+    }
+  }
+
+  const { error: statusError, allowedStatuses, nextStatus } = resolveNextStatus({
+    currentStatus,
+    status,
+    assigneeChanged: hasAssignee,
+    assignee,
+  });
+  if (statusError) {
+    return response(400, { error: statusError, ...(allowedStatuses && { allowedStatuses }) });
+  }
+
+  if (note !== undefined && (typeof note !== 'string' || !note.trim() || note.length > MAX_NOTE_LENGTH)) {
+    return response(400, { error: `Note must be 1-${MAX_NOTE_LENGTH} characters` });
+  }
+
+  const actor = getActor(claims);
+  const now = new Date().toISOString();
+  const history = [];
+  if (nextStatus !== currentStatus) {
+    history.push({ timestamp: now, actor, action: 'status', from: currentStatus, to: nextStatus });
+  }
+  if (assignee !== (item.assignee || null)) {
+    history.push({ timestamp: now, actor, action: 'assignee', from: item.assignee || null, to: assignee });
+  }
+  const notes = note !== undefined
+    ? [{ noteId: uuidv4(), text: note.trim(), author: actor, timestamp: now }]
+    : [];
+
+  try {
+    const result = await docClient.send(new UpdateCommand({
+      TableName: ESCALATION_TABLE,
+      Key: { escalationId: item.escalationId, timestamp: item.timestamp },
+      UpdateExpression: 'SET #status = :next, assignee = :assignee, updatedAt = :now, updatedBy = :actor, '
+        + '#history = list_append(if_not_exists(#history, :empty), :history), '
+        + 'notes = list_append(if_not_exists(notes, :empty), :notes)',
+      // Reject the update if someone else changed the status since we read it
+      ConditionExpression: '#status = :current',
+      ExpressionAttributeNames: { '#status': 'status', '#history': 'history' },
+      ExpressionAttributeValues: {
+        ':next': nextStatus,
+        ':current': currentStatus,
+        ':assignee': assignee,
+        ':now': now,
+        ':actor': actor,
+        ':history': history,
+        ':notes': notes,
+        ':empty': [],
+      },
+      ReturnValues: 'ALL_NEW',
+    }));
+
+    await recordAudit(claims, requestInfo, {
+      action: 'escalation.update',
+      targetType: 'escalation',
+      targetId: item.escalationId,
+      before: auditEscalation(item),
+      after: auditEscalation(result.Attributes),
+      details: notes.length > 0 ? { note: notes[0].text } : null,
+    });
+    return response(200, { escalation: formatEscalation(result.Attributes) });
+  } catch (error) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return response(409, { error: 'Escalation was updated by someone else. Reload and try again.' });
+    }
+    throw error;
+  }
+}
+
+// Archive escalation (DELETE keeps the record; it leaves the active listing)
+async function archiveEscalation(escalationId, claims, requestInfo) {
+  const item = await getEscalationItem(escalationId);
+
+  if (!item) {
+    return response(404, { error: 'Escalation not found' });
+  }
+  if (item.status === 'archived') {
+    return response(200, { success: true });
+  }
+
+  const actor = getActor(claims);
+  const now = new Date().toISOString();
+
+  await docClient.send(new UpdateCommand({
+    TableName: ESCALATION_TABLE,
+    Key: {
+      escalationId: item.escalationId,
+      timestamp: item.timestamp,
+    },
+    UpdateExpression: 'SET #status = :archived, archivedAt = :now, archivedBy = :actor, updatedAt = :now, updatedBy = :actor, '
+      + '#history = list_append(if_not_exists(#history, :empty), :history)',
+    ExpressionAttributeNames: { '#status': 'status', '#history': 'history' },
+    ExpressionAttributeValues: {
+      ':archived': 'archived',
+      ':now': now,
+      ':actor': actor,
+      ':history': [{ timestamp: now, actor, action: 'status', from: item.status || 'pending', to: 'archived' }],
+      ':empty': [],
+    },
+  }));
+
+  await recordAudit(claims, requestInfo, {
+    action: 'escalation.archive',
+    targetType: 'escalation',
+    targetId: item.escalationId,
+    before: auditEscalation(item),
+    after: auditEscalation({ ...item, status: 'archived', archivedAt: now }),
+  });
+  return response(200, { success: true });
+}
+
+// Issue a proof-of-work challenge for the public escalation route (see ./escalation-challenge)
+async function createEscalationChallenge() {
+  if (ESCALATION_CHALLENGE_DIFFICULTY <= 0) {
+    return response(200, { required: false });
+  }
+
+  const expiresAt = Math.floor(Date.now() / 1000) + CHALLENGE_TTL_SECONDS;
+  const challenge = await encodeCursor('escalation-challenge', {
+    nonce: crypto.randomBytes(16).toString('hex'),
+    difficulty: ESCALATION_CHALLENGE_DIFFICULTY,
+    expiresAt,
+  });
+
+  return response(200, {
+    required: true,
+    challenge,
+    difficulty: ESCALATION_CHALLENGE_DIFFICULTY,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  });
+}
+
+// Check a solved challenge: signature, expiry, work and single use.
+// Returns null when accepted, otherwise an error message.
+async function verifyEscalationChallenge(challenge, solution) {
+  if (typeof challenge !== 'string' || typeof solution !== 'string' || solution.length > 64) {
+    return 'A solved challenge is required';
+  }
+
+  let claims;
+  try {
+    claims = await decodeCursor('escalation-challenge', challenge);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) return 'Invalid challenge';
+    throw error;
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (claims.expiresAt < nowSeconds) {
+    return 'Challenge expired';
+  }
+
+  if (claims.difficulty < ESCALATION_CHALLENGE_DIFFICULTY || !solvesChallenge(challenge, solution, claims.difficulty)) {
+    return 'Challenge solution is incorrect';
+  }
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: RATE_LIMIT_TABLE,
+      Item: { key: `challenge#escalation#${claims.nonce}`, ttl: claims.expiresAt },
+      ConditionExpression: 'attribute_not_exists(#key)',
+      ExpressionAttributeNames: { '#key': 'key' },
+    }));
+  } catch (error) {
+    if (error.name === 'ConditionalCheckFailedException') return 'Challenge already used';
+    throw error;
+  }
+
+  return null;
+}
+
+// Create escalation (public endpoint)
+async function createEscalation(body, sourceIp) {
+  if (ESCALATION_CHALLENGE_DIFFICULTY > 0) {
+    const challengeError = await verifyEscalationChallenge(body.challenge, body.challengeSolution);
+    if (challengeError) {
+      return response(403, { error: challengeError, code: 'CHALLENGE_FAILED' });
+    }
+  }
+
+  const escalationId = uuidv4();
+  const guard = await guardEscalation({
+    docClient,
+    tableName: RATE_LIMIT_TABLE,
+    body,
+    escalationId,
+    sourceIp,
+  });
+  if (!guard.ok) {
+    return response(guard.status, {
+      error: guard.message,
+      code: guard.code,
+      fieldErrors: guard.fieldErrors,
+      retryAfterSeconds: guard.retryAfterSeconds,
+      escalationId: guard.escalationId,
+    });
+  }
+
+  const { name, email, phone, question } = guard.values;
+  const now = new Date();
+  const timestamp = now.toISOString();
+  const date = timestamp.split('T')[0]; // For GSI
+  const ttl = Math.floor(now.getTime() / 1000) + (365 * 24 * 60 * 60);
+
+  try {
+    const sessionId = await resolveTranscriptSession({ docClient, conversationTable: CONVERSATION_TABLE, body });
+    await docClient.send(new PutCommand({
+      TableName: ESCALATION_TABLE,
+      Item: {
+        escalationId,
+        timestamp,
+        date,
+        name,
+        email,
+        phone,
+        question,
+        sessionId, // Links the chat transcript (see resolveTranscriptSession)
+        status: 'pending',
+        ttl,
+      },
+    }));
+
+    return response(200, { success: true, escalationId });
+  } catch (error) {
+    console.error('Error creating escalation:', error);
+    // Let the requester retry the same question
+    if (RATE_LIMIT_TABLE) {
+      await releaseDuplicateKey(docClient, RATE_LIMIT_TABLE, guard.values).catch(releaseError => {
+        console.error('Error releasing duplicate key:', releaseError);
+      });
+    }
+    return response(500, { error: 'Failed to create escalation' });
+  }
+}
+
+// Create feedback (public endpoint) - only references a conversation stored at generation time,
+// and requires the sessionId it was answered in
+async function createFeedback(body) {
+  const { conversationId, feedback, sessionId } = body;
+
+  if (!conversationId || !feedback || !sessionId) {
+    return response(400, { error: 'conversationId, sessionId and feedback are required' });
+  }
+
+  const feedbackValue = { positive: 'pos', pos: 'pos', negative: 'neg', neg: 'neg' }[feedback];
+  if (!feedbackValue) {
+    return response(400, { error: "feedback must be 'positive' or 'negative'" });
+  }
+
+  const { error: detailsError, details } = validateFeedbackDetails(feedbackValue, body);
+  if (detailsError) {
+    return response(400, { error: detailsError });
+  }
+
+  try {
+    // Find the conversation
+    const queryResult = await docClient.send(new QueryCommand({
+      TableName: CONVERSATION_TABLE,
+      KeyConditionExpression: 'conversationId = :cid',
+      ExpressionAttributeValues: { ':cid': conversationId },
+      Limit: 1,
+    }));
+
+    // Unknown, deleted and foreign conversations get the same response so IDs can't be probed
+    const item = queryResult.Items?.[0];
+    if (!ownsConversation(item, { sessionId })) {
+      return response(404, { error: 'Conversation not found' });
+    }
+
+    await docClient.send(new UpdateCommand({
+      TableName: CONVERSATION_TABLE,
+      Key: {
+        conversationId: item.conversationId,
+        timestamp: item.timestamp,
+      },
+      ...buildFeedbackUpdate(feedbackValue, details),
+      ConditionExpression: 'attribute_exists(conversationId) AND attribute_not_exists(deletedAt)',
+    }));
+
+    return response(200, { success: true });
+  } catch (error) {
+    console.error('Error creating feedback:', error);
+    return response(500, { error: 'Failed to save feedback' });
+  }
+}
+
+// Look up a conversation by id (partition key query - the sort key is its timestamp)
+async function getConversationItem(conversationId) {
+  const result = await docClient.send(new QueryCommand({
+    TableName: CONVERSATION_TABLE,
+    KeyConditionExpression: 'conversationId = :cid',
+    ExpressionAttributeValues: { ':cid': conversationId },
+    Limit: 1,
+  }));
+  return result.Items?.[0] || null;
+}
+
+// Mark a conversation deleted and record who did it. The item stays in the table (until its
+// TTL) but leaves the feedback list, search, exports, transcripts and metrics.
+// Throws ConditionalCheckFailedException if it is already deleted.
+async function markConversationDeleted(item, actor, now, bulkDeleteId = null) {
+  await docClient.send(new UpdateCommand({
+    TableName: CONVERSATION_TABLE,
+    Key: {
+      conversationId: item.conversationId,
+      timestamp: item.timestamp,
+    },
+    UpdateExpression: 'SET deletedAt = :now, deletedBy = :actor, #history = list_append(if_not_exists(#history, :empty), :history)',
+    ConditionExpression: 'attribute_exists(conversationId) AND attribute_not_exists(deletedAt)',
+    ExpressionAttributeNames: { '#history': 'history' },
+    ExpressionAttributeValues: {
+      ':now': now,
+      ':actor': actor,
+      ':history': [{ timestamp: now, actor, action: 'deleted', ...(bulkDeleteId && { bulkDeleteId }) }],
+      ':empty': [],
+    },
+  }));
+}
+
+// Soft delete one conversation (DELETE /conversations/{id})
+async function deleteConversation(conversationId, claims, requestInfo) {
+  const item = await getConversationItem(conversationId);
+  if (!item) {
+    return response(404, { error: 'Conversation not found' });
+  }
+  if (item.deletedAt) {
+    return response(200, { success: true });
+  }
+
+  const actor = getActor(claims);
+  const now = new Date().toISOString();
+  try {
+    await markConversationDeleted(item, actor, now);
+  } catch (error) {
+    // Deleted concurrently
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+    return response(200, { success: true });
+  }
+
+  await recordAudit(claims, requestInfo, {
+    action: 'conversation.delete',
+    targetType: 'conversation',
+    targetId: conversationId,
+    before: auditConversation(item),
+    after: auditConversation({ ...item, deletedAt: now }),
+  });
+  console.log(`Conversation ${conversationId} deleted by ${actor}`);
+  return response(200, { success: true });
+}
+
+// Soft delete the conversations matching a date range and filters (POST /conversations/bulk-delete).
+// Takes the same range and filters as a conversation export; deletes at most BULK_DELETE_MAX per
+// call, oldest first, and reports hasMore so the caller repeats. dryRun only counts the matches.
+async function bulkDeleteConversations(body, claims, requestInfo) {
+  if (!body.from || !body.to) {
+    return response(400, { error: 'from and to are required' });
+  }
+  const { error, request } = parseExportRequest('conversations', { ...body, format: undefined });
+  if (error) {
+    return response(400, { error });
+  }
+
+  const matched = [];
+  let hasMore = false;
+  for await (const item of iterateExportItems(docClient, EXPORT_TABLES, request)) {
+    if (matched.length === BULK_DELETE_MAX) {
+      hasMore = true;
+      break;
+    }
+    matched.push(item);
+  }
+
+  if (body.dryRun === true) {
+    return response(200, { matched: matched.length, hasMore, deleted: 0 });
+  }
+
+  const actor = getActor(claims);
+  const now = new Date().toISOString();
+  const bulkDeleteId = uuidv4();
+  const deletedIds = [];
+  const failedIds = [];
+
+  // Every delete is attempted and the ones that went through are audited, even if others fail
+  for (let i = 0; i < matched.length; i += 25) {
+    const batch = matched.slice(i, i + 25);
+    const results = await Promise.allSettled(batch.map(item => markConversationDeleted(item, actor, now, bulkDeleteId)));
+    results.forEach((result, index) => {
+      const { conversationId } = batch[index];
+      if (result.status === 'fulfilled') {
+        deletedIds.push(conversationId);
+      } else if (result.reason?.name !== 'ConditionalCheckFailedException') {
+        // Already deleted is fine; anything else is reported
+        console.error(`Bulk delete ${bulkDeleteId}: failed to delete conversation ${conversationId}:`, result.reason);
+        failedIds.push(conversationId);
+      }
+    });
+  }
+  const deleted = deletedIds.length;
+  const failed = failedIds.length;
+
+  await recordAudit(claims, requestInfo, {
+    action: 'conversation.bulk_delete',
+    targetType: 'bulk_delete',
+    targetId: bulkDeleteId,
+    after: { matched: matched.length, deleted, failed, hasMore },
+    details: {
+      from: request.from,
+      to: request.to,
+      timezone: request.timezone,
+      filters: request.filters,
+      conversationIds: deletedIds,
+      ...(failed && { failedConversationIds: failedIds }),
+    },
+  });
+
+  console.log(`Bulk delete ${bulkDeleteId} by ${actor}: ${deleted} conversations from ${request.from} to ${request.to} (${request.timezone})`,
+    JSON.stringify(request.filters));
+  if (failed) {
+    return response(500, {
+      error: `${failed} of the matching conversations could not be deleted; run the bulk delete again`,
+      bulkDeleteId,
+      matched: matched.length,
+      deleted,
+      failed,
+      hasMore,
+    });
+  }
+  return response(200, { bulkDeleteId, matched: matched.length, deleted, hasMore });
+}
+
+// Guardrail events caused by a conversation. Events are keyed by UTC date and written just before
+// the conversation, so its date and the day before are searched.
+async function getConversationGuardrailEvents(item) {
+  const date = item.timestamp.substring(0, 10);
+  const events = [];
+  for (const dateStr of [addDays(date, -1), date]) {
+    let lastKey = undefined;
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: GUARDRAIL_EVENTS_TABLE,
+        KeyConditionExpression: '#date = :date',
+        FilterExpression: 'conversationId = :cid',
+        ExpressionAttributeNames: { '#date': 'date' },
+        ExpressionAttributeValues: { ':date': dateStr, ':cid': item.conversationId },
+        ExclusiveStartKey: lastKey,
+      }));
+      events.push(...(result.Items || []));
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+  }
+  return events;
+}
+
+// Redact the copies of a conversation's text kept outside Conversation History: the session memory
+// of its chat (recent turns and a summary that mixes them, so the session item is deleted), the
+// samples of guardrail events it caused, and its search document (which the indexer also rewrites
+// from the table stream). Returns the names of the stores that could not be updated.
+async function redactDerivedCopies(item, redactedItem) {
+  const copies = {
+    sessionMemory: async () => {
+      if (!SESSION_TABLE || !item.sessionId) return;
+      await docClient.send(new DeleteCommand({ TableName: SESSION_TABLE, Key: { sessionId: item.sessionId } }));
+    },
+    guardrailEvents: async () => {
+      if (!GUARDRAIL_EVENTS_TABLE) return;
+      for (const event of await getConversationGuardrailEvents(item)) {
+        await docClient.send(new UpdateCommand({
+          TableName: GUARDRAIL_EVENTS_TABLE,
+          Key: { date: event.date, eventId: event.eventId },
+          UpdateExpression: 'SET sample = :redacted',
+          ConditionExpression: 'attribute_exists(eventId)',
+          ExpressionAttributeValues: { ':redacted': REDACTED_TEXT },
+        })).catch((error) => {
+          // Expired in the meantime
+          if (error.name !== 'ConditionalCheckFailedException') throw error;
+        });
+      }
+    },
+    searchIndex: async () => {
+      if (!CONVERSATION_SEARCH_ENDPOINT || item.deletedAt) return;
+      const searchClient = getSearchClient(CONVERSATION_SEARCH_ENDPOINT);
+      await ensureConversationIndex(searchClient, CONVERSATION_SEARCH_INDEX);
+      await searchClient.index({
+        index: CONVERSATION_SEARCH_INDEX,
+        id: item.conversationId,
+        body: toSearchDocument(redactedItem),
+      });
+    },
+  };
+
+  const names = Object.keys(copies);
+  const results = await Promise.allSettled(names.map(name => copies[name]()));
+  const failed = [];
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.error(`Error redacting ${names[i]} copy of conversation ${item.conversationId}:`, result.reason);
+      failed.push(names[i]);
+    }
+  });
+  return failed;
+}
+
+// Redact a conversation (POST /conversations/{id}/redact): replace the question and answer text
+// and drop the rewritten query and feedback comment. Outcome, timings, confidence, citations and
+// feedback stay, so metrics are unchanged. Session memory, guardrail samples and the search
+// document are redacted too (redactDerivedCopies).
+async function redactConversation(conversationId, claims, requestInfo) {
+  const item = await getConversationItem(conversationId);
+  if (!item) {
+    return response(404, { error: 'Conversation not found' });
+  }
+  if (item.redactedAt) {
+    return response(200, { success: true });
+  }
+
+  const actor = getActor(claims);
+  const now = new Date().toISOString();
+
+  // Copies first: if one fails the conversation is left as it was, so repeating the call redoes them all
+  const redactedItem = { ...item, question: REDACTED_TEXT, answer: REDACTED_TEXT, retrievalQuery: '', redactedAt: now };
+  const failed = await redactDerivedCopies(item, redactedItem);
+  if (failed.length > 0) {
+    return response(500, { error: `Failed to redact the conversation's copies in: ${failed.join(', ')}. Try again.` });
+  }
+
+  await docClient.send(new UpdateCommand({
+    TableName: CONVERSATION_TABLE,
+    Key: {
+      conversationId: item.conversationId,
+      timestamp: item.timestamp,
+    },
+    UpdateExpression: 'SET question = :redacted, answer = :redacted, redactedAt = :now, redactedBy = :actor, '
+      + '#history = list_append(if_not_exists(#history, :empty), :history) '
+      + 'REMOVE retrievalQuery, answerPreview, feedbackComment',
+    ConditionExpression: 'attribute_exists(conversationId)',
+    ExpressionAttributeNames: { '#history': 'history' },
+    ExpressionAttributeValues: {
+      ':redacted': REDACTED_TEXT,
+      ':now': now,
+      ':actor': actor,
+      ':history': [{ timestamp: now, actor, action: 'redacted' }],
+      ':empty': [],
+    },
+  }));
+
+  await recordAudit(claims, requestInfo, {
+    action: 'conversation.redact',
+    targetType: 'conversation',
+    targetId: conversationId,
+    before: auditConversation(item),
+    after: auditConversation({ ...item, redactedAt: now }),
+  });
+  console.log(`Conversation ${conversationId} redacted by ${actor}`);
+  return response(200, { success: true });
+}
+
+// Get the latest retrieval config (defaults if none has been saved)
+async function getRetrievalConfig() {
+  const result = await docClient.send(new QueryCommand({
+    TableName: CONFIG_TABLE,
+    KeyConditionExpression: 'configKey = :key',
+    ExpressionAttributeValues: { ':key': 'retrieval' },
+    ScanIndexForward: false,
+    Limit: 1,
+  }));
+
+  const { configKey, ...config } = result.Items?.[0] || {};
+  return { ...DEFAULT_RETRIEVAL_CONFIG, ...config };
+}
+
+// Save a new retrieval config version (previous versions are kept for traceability)
+async function updateRetrievalConfig(body, claims, requestInfo) {
+  const current = await getRetrievalConfig();
+  const config = {
+    confidenceThreshold: body.confidenceThreshold ?? current.confidenceThreshold,
+    scoringStrategy: body.scoringStrategy ?? current.scoringStrategy,
+    topK: body.topK ?? current.topK,
+    numberOfResults: body.numberOfResults ?? current.numberOfResults,
+    fallbackMessage: body.fallbackMessage ?? current.fallbackMessage,
+  };
+
+  if (typeof config.confidenceThreshold !== 'number' || config.confidenceThreshold < 0 || config.confidenceThreshold > 1) {
+    return response(400, { error: 'confidenceThreshold must be a number between 0 and 1' });
+  }
+  if (!SCORING_STRATEGIES.includes(config.scoringStrategy)) {
+    return response(400, { error: `scoringStrategy must be one of: ${SCORING_STRATEGIES.join(', ')}` });
+  }
+  if (!Number.isInteger(config.numberOfResults) || config.numberOfResults < 1 || config.numberOfResults > 100) {
+    return response(400, { error: 'numberOfResults must be an integer between 1 and 100' });
+  }
+  if (!Number.isInteger(config.topK) || config.topK < 1 || config.topK > config.numberOfResults) {
+    return response(400, { error: 'topK must be an integer between 1 and numberOfResults' });
+  }
+  if (typeof config.fallbackMessage !== 'string' || !config.fallbackMessage.trim() || config.fallbackMessage.length > 2000) {
+    return response(400, { error: 'fallbackMessage must be a non-empty string of at most 2000 characters' });
+  }
+
+  const item = {
+    configKey: 'retrieval',
+    version: current.version + 1,
+    ...config,
+    updatedAt: new Date().toISOString(),
+    updatedBy: getActor(claims),
+  };
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: CONFIG_TABLE,
+      Item: item,
+      // Fails if another admin saved the same version concurrently
+      ConditionExpression: 'attribute_not_exists(version)',
+    }));
+  } catch (error) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return response(409, { error: 'Config was updated by someone else, reload and try again' });
+    }
+    throw error;
+  }
+
+  const { configKey, ...saved } = item;
+  await recordAudit(claims, requestInfo, {
+    action: 'config.update',
+    targetType: 'config',
+    targetId: 'retrieval',
+    before: current,
+    after: saved,
+  });
+  return response(200, saved);
+}
+
+// Tables and indexes the export queries read
+const EXPORT_TABLES = {
+  conversationTable: CONVERSATION_TABLE,
+  escalationTable: ESCALATION_TABLE,
+  dateIndex: DATE_INDEX,
+  feedbackIndex: FEEDBACK_INDEX,
+  escalationDateIndex: ESCALATION_DATE_INDEX,
+};
+
+// Validate an export request (query string for downloads, JSON body for jobs).
+// Returns { error } or { request: { dataset, format, from, to, timezone, start, end, filters } }
+// where start/end are the UTC instants of the local date range (end exclusive).
+function parseExportRequest(dataset, params = {}) {
+  if (!EXPORT_DATASETS.includes(dataset)) {
+    return { error: `dataset must be one of: ${EXPORT_DATASETS.join(', ')}` };
+  }
+
+  const format = params.format || 'csv';
+  if (!EXPORT_FORMATS[format]) {
+    return { error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` };
+  }
+
+  const { error, range } = parseMetricsRange({ from: params.from, to: params.to, days: params.days, tz: params.tz });
+  if (error) {
+    return { error };
+  }
+
+  const filters = {};
+  if (dataset === 'conversations') {
+    if (params.outcome) {
+      const outcomes = params.outcome.split(',');
+      if (outcomes.some(o => !OUTCOMES.includes(o))) {
+        return { error: `outcome must be one or more of: ${OUTCOMES.join(', ')}` };
+      }
+      filters.outcomes = outcomes;
+    }
+    if (params.feedback) {
+      if (!['pos', 'neg', 'none'].includes(params.feedback)) return { error: "feedback must be 'pos', 'neg' or 'none'" };
+      filters.feedback = params.feedback;
+    }
+  } else if (dataset === 'feedback') {
+    if (params.feedback) {
+      if (!['pos', 'neg'].includes(params.feedback)) return { error: "feedback must be 'pos' or 'neg'" };
+      filters.feedback = params.feedback;
+    }
+    if (params.reason) {
+      if (!FEEDBACK_REASON_VALUES.includes(params.reason)) return { error: `reason must be one of: ${FEEDBACK_REASON_VALUES.join(', ')}` };
+      // Reasons are only given with negative feedback
+      filters.feedback = 'neg';
+      filters.reason = params.reason;
+    }
+  } else {
+    // Like the escalation list: active statuses unless asked for specific ones (including 'archived')
+    const statuses = params.status ? params.status.split(',') : ACTIVE_ESCALATION_STATUSES;
+    if (statuses.some(st => !ESCALATION_STATUSES.includes(st))) {
+      return { error: `status must be one or more of: ${ESCALATION_STATUSES.join(', ')}` };
+    }
+    filters.statuses = statuses;
+  }
+
   return {
-    statusCode,
-    headers: corsHeaders,
-    body: JSON.stringify(body),
+    request: {
+      dataset,
+      format,
+      from: range.from,
+      to: range.to,
+      timezone: range.timezone,
+      start: startOfLocalDay(range.from, range.timezone).toISOString(),
+      end: startOfLocalDay(addDays(range.to, 1), range.timezone).toISOString(),
+      filters,
+    },
   };
 }
 
-// Get metrics for dashboard
-async function getMetrics(days = 7) {
-  const now = new Date();
-  const startDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
-  
-  // Get conversations by day
-  const conversationsByDay = [];
-  const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-  
-  for (let i = days - 1; i >= 0; i--) {
-    const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000);
-    const dateStr = date.toISOString().split('T')[0];
-    
-    try {
-      const result = await docClient.send(new QueryCommand({
-        TableName: CONVERSATION_TABLE,
-        IndexName: DATE_INDEX,
-        KeyConditionExpression: '#date = :date',
-        ExpressionAttributeNames: { '#date': 'date' },
-        ExpressionAttributeValues: { ':date': dateStr },
-        Select: 'COUNT',
-      }));
-      
-      conversationsByDay.push({
-        date: dateStr,
-        count: result.Count || 0,
-        dayName: dayNames[date.getDay()],
-        label: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-      });
-    } catch (error) {
-      console.error(`Error querying date ${dateStr}:`, error);
-      conversationsByDay.push({
-        date: dateStr,
-        count: 0,
-        dayName: dayNames[date.getDay()],
-        label: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+// Build a small export in memory and return it as the response body (GET /exports/{dataset}).
+// Returns 413 EXPORT_TOO_LARGE once the row or size limit is passed, so the caller can start a job.
+async function downloadExport(request, claims, requestInfo) {
+  const chunks = [formatExportHeader(request.dataset, request.format)];
+  let rowCount = 0;
+  let size = Buffer.byteLength(chunks[0]);
+
+  for await (const item of iterateExportItems(docClient, EXPORT_TABLES, request)) {
+    const chunk = formatExportRow(request.dataset, request.format, item);
+    rowCount++;
+    size += Buffer.byteLength(chunk);
+    if (rowCount > SYNC_EXPORT_MAX_ROWS || size > SYNC_EXPORT_MAX_BYTES) {
+      return response(413, {
+        error: 'This export is too large to download directly. Create an export job instead.',
+        code: 'EXPORT_TOO_LARGE',
+        maxRows: SYNC_EXPORT_MAX_ROWS,
       });
     }
+    chunks.push(chunk);
   }
 
-  // Get total conversations
-  let totalConversations = 0;
-  let totalFeedback = 0;
-  let positiveFeedback = 0;
-  let negativeFeedback = 0;
-  let totalResponseTime = 0;
-  let responseTimeCount = 0;
+  await recordAudit(claims, requestInfo, {
+    action: 'export.download',
+    targetType: 'export',
+    targetId: getExportFileName(request),
+    details: { ...auditExportRequest(request), rowCount },
+  });
+  return {
+    statusCode: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': EXPORT_FORMATS[request.format].contentType,
+      'Content-Disposition': `attachment; filename="${getExportFileName(request)}"`,
+    },
+    body: chunks.join(''),
+  };
+}
 
-  try {
-    // Scan for totals (consider using a separate metrics table for production)
-    let lastKey = undefined;
-    do {
-      const scanResult = await docClient.send(new ScanCommand({
-        TableName: CONVERSATION_TABLE,
-        ExclusiveStartKey: lastKey,
-        ProjectionExpression: 'feedback, responseTimeMs',
-      }));
+// Record an export job and hand it to the export worker (POST /export-jobs)
+async function createExportJob(request, claims, requestInfo) {
+  const now = new Date();
+  const job = {
+    exportId: uuidv4(),
+    status: 'pending',
+    request,
+    requestedBy: getActor(claims),
+    createdAt: now.toISOString(),
+    ttl: Math.floor(now.getTime() / 1000) + EXPORT_JOB_TTL_SECONDS,
+  };
 
-      totalConversations += scanResult.Items?.length || 0;
-      
-      for (const item of scanResult.Items || []) {
-        if (item.feedback) {
-          totalFeedback++;
-          if (item.feedback === 'pos') positiveFeedback++;
-          if (item.feedback === 'neg') negativeFeedback++;
-        }
-        if (item.responseTimeMs) {
-          totalResponseTime += item.responseTimeMs;
-          responseTimeCount++;
-        }
-      }
+  await docClient.send(new PutCommand({
+    TableName: EXPORT_JOBS_TABLE,
+    Item: job,
+  }));
+  await recordAudit(claims, requestInfo, {
+    action: 'export.create',
+    targetType: 'export',
+    targetId: job.exportId,
+    details: auditExportRequest(request),
+  });
 
-      lastKey = scanResult.LastEvaluatedKey;
-    } while (lastKey);
+  try {
+    await lambdaClient.send(new InvokeCommand({
+      FunctionName: EXPORT_WORKER_FUNCTION,
+      InvocationType: 'Event',
+      Payload: Buffer.from(JSON.stringify({ exportId: job.exportId })),
+    }));
   } catch (error) {
-    console.error('Error scanning conversations:', error);
+    console.error('Error starting export worker:', error);
+    await docClient.send(new UpdateCommand({
+      TableName: EXPORT_JOBS_TABLE,
+      Key: { exportId: job.exportId },
+      UpdateExpression: 'SET #status = :failed, #error = :error',
+      ExpressionAttributeNames: { '#status': 'status', '#error': 'error' },
+      ExpressionAttributeValues: { ':failed': 'failed', ':error': 'The export could not be started' },
+    }));
+    return response(500, { error: 'The export could not be started' });
   }
 
-  // Get today's conversations
-  const todayStr = now.toISOString().split('T')[0];
-  const conversationsToday = conversationsByDay.find(d => d.date === todayStr)?.count || 0;
+  return response(202, formatExportJob(job));
+}
 
+// Shape an export job for the dashboard
+function formatExportJob(job) {
   return {
-    totalConversations,
-    conversationsToday,
-    totalFeedback,
-    positiveFeedback,
-    negativeFeedback,
-    noFeedback: totalConversations - totalFeedback,
-    satisfactionRate: totalFeedback > 0 ? Math.round((positiveFeedback / totalFeedback) * 100) : 0,
-    avgResponseTimeMs: responseTimeCount > 0 ? Math.round(totalResponseTime / responseTimeCount) : 0,
-    conversationsByDay,
+    exportId: job.exportId,
+    status: job.status,
+    dataset: job.request.dataset,
+    format: job.request.format,
+    from: job.request.from,
+    to: job.request.to,
+    timezone: job.request.timezone,
+    fileName: getExportFileName(job.request),
+    requestedBy: job.requestedBy,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt || null,
+    rowCount: job.rowCount ?? null,
+    size: job.size ?? null,
+    error: job.error || null,
   };
 }
 
-// Get feedback conversations (only returns conversations with feedback - pos or neg)
-async function getFeedbackConversations(limit = 50, offset = 0, feedbackFilter = null) {
-  let allConversations = [];
-  
-  try {
-    if (feedbackFilter && (feedbackFilter === 'pos' || feedbackFilter === 'neg')) {
-      // Query by specific feedback type - get all items for counting
-      let lastKey = undefined;
-      do {
-        const result = await docClient.send(new QueryCommand({
-          TableName: CONVERSATION_TABLE,
-          IndexName: FEEDBACK_INDEX,
-          KeyConditionExpression: 'feedback = :feedback',
-          ExpressionAttributeValues: { ':feedback': feedbackFilter },
-          ScanIndexForward: false,
-          ExclusiveStartKey: lastKey,
-        }));
-        allConversations.push(...(result.Items || []));
-        lastKey = result.LastEvaluatedKey;
-      } while (lastKey);
-    } else {
-      // Get both positive and negative feedback (exclude conversations with no feedback)
-      const [posItems, negItems] = await Promise.all([
-        (async () => {
-          const items = [];
-          let lastKey = undefined;
-          do {
-            const result = await docClient.send(new QueryCommand({
-              TableName: CONVERSATION_TABLE,
-              IndexName: FEEDBACK_INDEX,
-              KeyConditionExpression: 'feedback = :feedback',
-              ExpressionAttributeValues: { ':feedback': 'pos' },
-              ScanIndexForward: false,
-              ExclusiveStartKey: lastKey,
-            }));
-            items.push(...(result.Items || []));
-            lastKey = result.LastEvaluatedKey;
-          } while (lastKey);
-          return items;
-        })(),
-        (async () => {
-          const items = [];
-          let lastKey = undefined;
-          do {
-            const result = await docClient.send(new QueryCommand({
-              TableName: CONVERSATION_TABLE,
-              IndexName: FEEDBACK_INDEX,
-              KeyConditionExpression: 'feedback = :feedback',
-              ExpressionAttributeValues: { ':feedback': 'neg' },
-              ScanIndexForward: false,
-              ExclusiveStartKey: lastKey,
-            }));
-            items.push(...(result.Items || []));
-            lastKey = result.LastEvaluatedKey;
-          } while (lastKey);
-          return items;
-        })(),
-      ]);
-      
-      // Combine and sort by timestamp descending
-      allConversations = [...posItems, ...negItems];
-      allConversations.sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp));
-    }
-  } catch (error) {
-    console.error('Error getting feedback conversations:', error);
+// Export job status, with a short-lived download link once the file is ready (GET /export-jobs/{id})
+async function getExportJob(exportId) {
+  const result = await docClient.send(new GetCommand({
+    TableName: EXPORT_JOBS_TABLE,
+    Key: { exportId },
+  }));
+  const job = result.Item;
+  if (!job) {
+    return response(404, { error: 'Export not found' });
+  }
+
+  // A worker that hit its timeout never records the failure
+  if (job.status === 'running' && Date.now() - Date.parse(job.startedAt) > EXPORT_WORKER_TIMEOUT_MS) {
+    job.status = 'failed';
+    job.error = 'The export timed out. Try a shorter date range.';
+  }
+
+  const output = formatExportJob(job);
+  if (job.status === 'completed') {
+    output.downloadUrl = await getSignedUrl(s3Client, new GetObjectCommand({
+      Bucket: EXPORT_BUCKET,
+      Key: job.s3Key,
+    }), { expiresIn: EXPORT_URL_EXPIRY_SECONDS });
   }
+  return response(200, output);
+}
 
-  // Apply pagination
-  const total = allConversations.length;
-  const paginatedConversations = allConversations.slice(offset, offset + limit);
+// Value of a Cognito user attribute (ListUsers returns Attributes, AdminGetUser UserAttributes)
+function getUserAttribute(user, name) {
+  return (user.Attributes || user.UserAttributes || []).find(a => a.Name === name)?.Value || null;
+}
 
+// Shape a Cognito user for the Users page
+function formatAdminUser(user, roles) {
   return {
-    total,
-    conversations: paginatedConversations.map(conv => {
-      // Parse citations from JSON string
-      let citations = [];
-      try {
-        citations = conv.citations ? JSON.parse(conv.citations) : [];
-      } catch (e) {
-        citations = [];
-      }
-      
-      // Calculate confidence score based on citation scores (industry standard approach)
-      // Average the top citation scores, normalized to 0-100
-      let confidenceScore = 0;
-      if (citations.length > 0) {
-        const avgScore = citations.reduce((sum, c) => sum + (c.score || 0), 0) / citations.length;
-        confidenceScore = Math.round(avgScore * 100);
-      }
-      
-      return {
-        conversationId: conv.conversationId,
-        sessionId: conv.sessionId,
-        question: conv.question,
-        answerPreview: conv.answerPreview || conv.answer?.substring(0, 500),
-        feedback: conv.feedback || null,
-        timestamp: conv.timestamp,
-        date: conv.date,
-        responseTimeMs: conv.responseTimeMs,
-        citations: citations,
-        confidenceScore: confidenceScore,
-      };
-    }),
+    username: user.Username,
+    email: getUserAttribute(user, 'email'),
+    status: user.UserStatus,
+    enabled: user.Enabled,
+    roles,
+    createdAt: user.UserCreateDate ? new Date(user.UserCreateDate).toISOString() : null,
+    updatedAt: user.UserLastModifiedDate ? new Date(user.UserLastModifiedDate).toISOString() : null,
   };
 }
 
-// Get escalation requests
-async function getEscalations(limit = 50, offset = 0) {
-  try {
-    // Get all items for proper pagination
-    let allItems = [];
-    let lastKey = undefined;
+// Roles of every admin user, by username (one listing per group rather than one call per user)
+async function getRolesByUsername() {
+  const rolesByUsername = new Map();
+  for (const role of ROLES) {
+    let nextToken = undefined;
     do {
-      const result = await docClient.send(new ScanCommand({
-        TableName: ESCALATION_TABLE,
-        ExclusiveStartKey: lastKey,
+      const result = await cognitoClient.send(new ListUsersInGroupCommand({
+        UserPoolId: USER_POOL_ID,
+        GroupName: role,
+        NextToken: nextToken,
       }));
-      allItems.push(...(result.Items || []));
-      lastKey = result.LastEvaluatedKey;
-    } while (lastKey);
+      for (const user of result.Users || []) {
+        rolesByUsername.set(user.Username, [...(rolesByUsername.get(user.Username) || []), role]);
+      }
+      nextToken = result.NextToken;
+    } while (nextToken);
+  }
+  return rolesByUsername;
+}
 
-    // Sort by timestamp descending
-    allItems.sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp));
-    
-    const total = allItems.length;
-    const paginatedItems = allItems.slice(offset, offset + limit);
-
-    const escalations = paginatedItems.map(item => ({
-      id: item.escalationId,
-      name: item.name,
-      email: item.email,
-      phone: item.phone || '',
-      question: item.question,
-      requestDate: item.timestamp,
-      status: item.status || 'pending',
+// Every admin user with their roles, by email (GET /users). The admin pool is small, so no paging.
+async function listAdminUsers() {
+  const users = [];
+  let paginationToken = undefined;
+  do {
+    const result = await cognitoClient.send(new ListUsersCommand({
+      UserPoolId: USER_POOL_ID,
+      PaginationToken: paginationToken,
     }));
+    users.push(...(result.Users || []));
+    paginationToken = result.PaginationToken;
+  } while (paginationToken);
+
+  const rolesByUsername = await getRolesByUsername();
+  const formatted = users
+    .map(user => formatAdminUser(user, rolesByUsername.get(user.Username) || []))
+    .sort((a, b) => (a.email || a.username).localeCompare(b.email || b.username));
+  return response(200, { users: formatted });
+}
 
-    return { escalations, total };
+// A Cognito user of the admin pool, or null
+async function getAdminUser(username) {
+  try {
+    return await cognitoClient.send(new AdminGetUserCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: username,
+    }));
   } catch (error) {
-    console.error('Error getting escalations:', error);
-    return { escalations: [], total: 0 };
+    if (error.name === 'UserNotFoundException') return null;
+    throw error;
   }
 }
 
-// Delete escalation
-async function deleteEscalation(escalationId) {
+// Whether a user is the caller (administrators cannot disable or demote themselves)
+function isCaller(user, claims) {
+  return user.Username === claims?.['cognito:username'];
+}
+
+// Invite an admin user (POST /users). Cognito emails a temporary password; the sign-in page
+// asks for a new one on first sign-in (NEW_PASSWORD_REQUIRED).
+async function inviteAdminUser(body, claims, requestInfo) {
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) {
+    return response(400, { error: 'email must be a valid email address' });
+  }
+  if (!ROLES.includes(body.role)) {
+    return response(400, { error: `role must be one of: ${ROLES.join(', ')}` });
+  }
+
+  let user;
   try {
-    // First find the item to get the timestamp (sort key)
-    const scanResult = await docClient.send(new ScanCommand({
-      TableName: ESCALATION_TABLE,
-      FilterExpression: 'escalationId = :id',
-      ExpressionAttributeValues: { ':id': escalationId },
+    const result = await cognitoClient.send(new AdminCreateUserCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: email,
+      UserAttributes: [
+        { Name: 'email', Value: email },
+        { Name: 'email_verified', Value: 'true' },
+      ],
+      DesiredDeliveryMediums: ['EMAIL'],
     }));
-
-    if (!scanResult.Items || scanResult.Items.length === 0) {
-      return { success: false, message: 'Escalation not found' };
+    user = result.User;
+  } catch (error) {
+    if (error.name === 'UsernameExistsException') {
+      return response(409, { error: 'A user with this email already exists' });
     }
+    throw error;
+  }
 
-    const item = scanResult.Items[0];
-    
-    await docClient.send(new DeleteCommand({
-      TableName: ESCALATION_TABLE,
-      Key: {
-        escalationId: item.escalationId,
-        timestamp: item.timestamp,
-      },
-    }));
+  await cognitoClient.send(new AdminAddUserToGroupCommand({
+    UserPoolId: USER_POOL_ID,
+    Username: user.Username,
+    GroupName: body.role,
+  }));
 
-    return { success: true };
-  } catch (error) {
-    console.error('Error deleting escalation:', error);
-    return { success: false, message: error.message };
+  const invited = formatAdminUser(user, [body.role]);
+  await recordAudit(claims, requestInfo, {
+    action: 'user.invite',
+    targetType: 'user',
+    targetId: user.Username,
+    after: auditUser(invited),
+  });
+  console.log(`Admin user ${email} invited as ${body.role} by ${getActor(claims)}`);
+  return response(201, invited);
+}
+
+// Disable or re-enable an admin user (POST /users/{username}/disable, /enable). Disabling also
+// signs them out everywhere; ID tokens already issued stay valid until they expire (1 hour).
+async function setAdminUserEnabled(username, enabled, claims, requestInfo) {
+  const user = await getAdminUser(username);
+  if (!user) {
+    return response(404, { error: 'User not found' });
+  }
+  if (!enabled && isCaller(user, claims)) {
+    return response(400, { error: 'You cannot disable your own account' });
+  }
+
+  if (enabled) {
+    await cognitoClient.send(new AdminEnableUserCommand({ UserPoolId: USER_POOL_ID, Username: username }));
+  } else {
+    await cognitoClient.send(new AdminDisableUserCommand({ UserPoolId: USER_POOL_ID, Username: username }));
+    await cognitoClient.send(new AdminUserGlobalSignOutCommand({ UserPoolId: USER_POOL_ID, Username: username }));
   }
+
+  console.log(`Admin user ${getUserAttribute(user, 'email') || username} ${enabled ? 'enabled' : 'disabled'} by ${getActor(claims)}`);
+  const roles = (await getRolesByUsername()).get(username) || [];
+  const updated = formatAdminUser({ ...user, Enabled: enabled }, roles);
+  await recordAudit(claims, requestInfo, {
+    action: enabled ? 'user.enable' : 'user.disable',
+    targetType: 'user',
+    targetId: username,
+    before: auditUser(formatAdminUser(user, roles)),
+    after: auditUser(updated),
+  });
+  return response(200, updated);
 }
 
-// Create escalation (public endpoint)
-async function createEscalation(body) {
-  const { name, email, phone, question, sessionId } = body;
+// Reset an admin user's password (POST /users/{username}/reset-password). The user is given a
+// new temporary password by email, exactly like an invite, and signed out everywhere.
+async function resetAdminUserPassword(username, claims, requestInfo) {
+  const user = await getAdminUser(username);
+  if (!user) {
+    return response(404, { error: 'User not found' });
+  }
+  if (!user.Enabled) {
+    return response(400, { error: 'Enable the user before resetting their password' });
+  }
 
-  if (!name || !email || !question) {
-    return response(400, { error: 'Name, email, and question are required' });
+  // Cognito only resends invites to users who must change their password; this placeholder is
+  // replaced by the emailed temporary password and never shown to anyone
+  if (user.UserStatus !== 'FORCE_CHANGE_PASSWORD') {
+    await cognitoClient.send(new AdminSetUserPasswordCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: username,
+      Password: `${crypto.randomBytes(24).toString('base64url')}aA1`,
+      Permanent: false,
+    }));
   }
+  await cognitoClient.send(new AdminCreateUserCommand({
+    UserPoolId: USER_POOL_ID,
+    Username: username,
+    MessageAction: 'RESEND',
+    DesiredDeliveryMediums: ['EMAIL'],
+  }));
+  await cognitoClient.send(new AdminUserGlobalSignOutCommand({ UserPoolId: USER_POOL_ID, Username: username }));
 
-  const escalationId = uuidv4();
-  const now = new Date();
-  const timestamp = now.toISOString();
-  const date = timestamp.split('T')[0]; // For GSI
-  const ttl = Math.floor(now.getTime() / 1000) + (365 * 24 * 60 * 60);
+  await recordAudit(claims, requestInfo, {
+    action: 'user.reset_password',
+    targetType: 'user',
+    targetId: username,
+    before: { email: getUserAttribute(user, 'email'), status: user.UserStatus },
+    after: { email: getUserAttribute(user, 'email'), status: 'FORCE_CHANGE_PASSWORD' },
+  });
+  console.log(`Password of admin user ${getUserAttribute(user, 'email') || username} reset by ${getActor(claims)}`);
+  return response(200, { success: true });
+}
 
-  try {
-    await docClient.send(new PutCommand({
-      TableName: ESCALATION_TABLE,
-      Item: {
-        escalationId,
-        timestamp,
-        date,
-        name,
-        email,
-        phone: phone || '',
-        question,
-        sessionId: sessionId || '',
-        status: 'pending',
-        ttl,
-      },
+// Reset an admin user's MFA (POST /users/{username}/reset-mfa), e.g. after a lost phone.
+// Turns their authenticator app off and signs them out everywhere. The user keeps their account,
+// password and roles; the dashboard and APIs require TOTP, so at their next sign-in they are asked
+// to set up a new app (which replaces the old one).
+async function resetAdminUserMfa(username, claims, requestInfo) {
+  const user = await getAdminUser(username);
+  if (!user) {
+    return response(404, { error: 'User not found' });
+  }
+  if (isCaller(user, claims)) {
+    return response(400, { error: 'You cannot reset your own MFA' });
+  }
+  if (!user.Enabled) {
+    return response(400, { error: 'Enable the user before resetting their MFA' });
+  }
+
+  await cognitoClient.send(new AdminSetUserMFAPreferenceCommand({
+    UserPoolId: USER_POOL_ID,
+    Username: username,
+    SoftwareTokenMfaSettings: { Enabled: false, PreferredMfa: false },
+  }));
+  forgetTotpUser(username);
+  await cognitoClient.send(new AdminUserGlobalSignOutCommand({ UserPoolId: USER_POOL_ID, Username: username }));
+
+  const email = getUserAttribute(user, 'email');
+  await recordAudit(claims, requestInfo, {
+    action: 'user.reset_mfa',
+    targetType: 'user',
+    targetId: username,
+    before: { email, mfa: user.UserMFASettingList || [] },
+    after: { email, mfa: [] },
+  });
+  console.log(`MFA of admin user ${email || username} reset by ${getActor(claims)}`);
+  return response(200, { success: true });
+}
+
+// Change an admin user's role (PUT /users/{username}/role): the user ends up in exactly that group.
+// Takes effect when their ID token is next issued (sign-in or token refresh).
+async function changeAdminUserRole(username, body, claims, requestInfo) {
+  if (!ROLES.includes(body.role)) {
+    return response(400, { error: `role must be one of: ${ROLES.join(', ')}` });
+  }
+  const user = await getAdminUser(username);
+  if (!user) {
+    return response(404, { error: 'User not found' });
+  }
+  if (isCaller(user, claims)) {
+    return response(400, { error: 'You cannot change your own role' });
+  }
+
+  const result = await cognitoClient.send(new AdminListGroupsForUserCommand({
+    UserPoolId: USER_POOL_ID,
+    Username: username,
+  }));
+  const current = (result.Groups || []).map(g => g.GroupName).filter(name => ROLES.includes(name));
+
+  if (!current.includes(body.role)) {
+    await cognitoClient.send(new AdminAddUserToGroupCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: username,
+      GroupName: body.role,
+    }));
+  }
+  for (const role of current.filter(r => r !== body.role)) {
+    await cognitoClient.send(new AdminRemoveUserFromGroupCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: username,
+      GroupName: role,
     }));
+  }
 
-    return response(200, { success: true, escalationId });
-  } catch (error) {
-    console.error('Error creating escalation:', error);
-    return response(500, { error: 'Failed to create escalation' });
+  const updated = formatAdminUser(user, [body.role]);
+  await recordAudit(claims, requestInfo, {
+    action: 'user.role_change',
+    targetType: 'user',
+    targetId: username,
+    before: auditUser(formatAdminUser(user, current)),
+    after: auditUser(updated),
+  });
+  console.log(`Admin user ${getUserAttribute(user, 'email') || username} changed to ${body.role} by ${getActor(claims)}`);
+  return response(200, updated);
+}
+
+// Validate the GET /audit query: a date range (from, to, tz, as for /metrics; default the last
+// 30 days) and optional actor, action, targetType and targetId filters.
+// Returns { error } or { params: { from, to, timezone, start, end, actor, action, targetType, targetId } }
+function parseAuditQuery(query = {}) {
+  const { error, range } = parseMetricsRange({
+    from: query.from,
+    to: query.to,
+    tz: query.tz,
+    days: query.from ? undefined : String(AUDIT_DEFAULT_DAYS),
+  });
+  if (error) {
+    return { error };
+  }
+  if (query.action && !AUDIT_ACTIONS.includes(query.action)) {
+    return { error: `action must be one of: ${AUDIT_ACTIONS.join(', ')}` };
+  }
+  if (query.targetType && !AUDIT_TARGET_TYPES.includes(query.targetType)) {
+    return { error: `targetType must be one of: ${AUDIT_TARGET_TYPES.join(', ')}` };
   }
+  if (query.targetId && !query.targetType) {
+    return { error: 'targetType is required with targetId' };
+  }
+
+  const start = startOfLocalDay(range.from, range.timezone).toISOString();
+  const end = new Date(startOfLocalDay(addDays(range.to, 1), range.timezone).getTime() - 1).toISOString();
+  return {
+    params: {
+      from: range.from,
+      to: range.to,
+      timezone: range.timezone,
+      start,
+      end,
+      actor: query.actor || null,
+      action: query.action || null,
+      targetType: query.targetType || null,
+      targetId: query.targetId || null,
+    },
+  };
 }
 
-// Create feedback (public endpoint)
-async function createFeedback(body) {
-  const { conversationId, feedback } = body;
+// Shape an audit entry for the dashboard (index attributes dropped)
+function formatAuditEntry(item) {
+  const { date, target, ...entry } = item;
+  return entry;
+}
 
-  if (!conversationId || !feedback) {
-    return response(400, { error: 'conversationId and feedback are required' });
+// One newest-first page of the audit log (GET /audit). Reads the target or actor index when
+// those are filtered on, otherwise the UTC day partitions of the range, newest day first;
+// the other filters are applied to the items read. The cursor is { partition, lastKey }.
+async function getAuditLog(params, limit, cursor) {
+  let indexName = 'date-timestamp-index';
+  let partitionAttribute = 'date';
+  let partitions = listDates(params.start.substring(0, 10), params.end.substring(0, 10)).reverse();
+  if (params.targetId) {
+    indexName = 'target-timestamp-index';
+    partitionAttribute = 'target';
+    partitions = [`${params.targetType}#${params.targetId}`];
+  } else if (params.actor) {
+    indexName = 'actor-timestamp-index';
+    partitionAttribute = 'actor';
+    partitions = [params.actor];
   }
 
-  try {
-    // Find the conversation
-    const queryResult = await docClient.send(new QueryCommand({
-      TableName: CONVERSATION_TABLE,
-      KeyConditionExpression: 'conversationId = :cid',
-      ExpressionAttributeValues: { ':cid': conversationId },
-      Limit: 1,
-    }));
+  const conditions = [];
+  const names = { '#pk': partitionAttribute, '#ts': 'timestamp' };
+  const values = { ':start': params.start, ':end': params.end };
+  if (params.actor && partitionAttribute !== 'actor') {
+    conditions.push('actor = :actor');
+    values[':actor'] = params.actor;
+  }
+  if (params.action) {
+    conditions.push('#action = :action');
+    names['#action'] = 'action';
+    values[':action'] = params.action;
+  }
+  if (params.targetType && partitionAttribute !== 'target') {
+    conditions.push('targetType = :targetType');
+    values[':targetType'] = params.targetType;
+  }
 
-    if (!queryResult.Items || queryResult.Items.length === 0) {
-      return response(404, { error: 'Conversation not found' });
-    }
+  const scope = `audit:${JSON.stringify(params)}`;
+  let { partition, lastKey } = cursor ? await decodeCursor(scope, cursor) : { partition: 0, lastKey: null };
+  const entries = [];
+  let queries = 0;
 
-    const item = queryResult.Items[0];
-    
-    const { UpdateCommand } = require('@aws-sdk/lib-dynamodb');
-    await docClient.send(new UpdateCommand({
-      TableName: CONVERSATION_TABLE,
-      Key: {
-        conversationId: item.conversationId,
-        timestamp: item.timestamp,
-      },
-      UpdateExpression: 'SET feedback = :feedback, feedbackTs = :feedbackTs',
-      ExpressionAttributeValues: {
-        ':feedback': feedback === 'positive' ? 'pos' : 'neg',
-        ':feedbackTs': new Date().toISOString(),
-      },
+  while (partition < partitions.length && entries.length < limit && queries < AUDIT_MAX_QUERIES) {
+    const result = await docClient.send(new QueryCommand({
+      TableName: AUDIT_TABLE,
+      IndexName: indexName,
+      KeyConditionExpression: '#pk = :pk AND #ts BETWEEN :start AND :end',
+      FilterExpression: conditions.length > 0 ? conditions.join(' AND ') : undefined,
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: { ':pk': partitions[partition], ...values },
+      ScanIndexForward: false,
+      Limit: limit - entries.length,
+      ExclusiveStartKey: lastKey || undefined,
     }));
-
-    return response(200, { success: true });
-  } catch (error) {
-    console.error('Error creating feedback:', error);
-    return response(500, { error: 'Failed to save feedback' });
+    queries++;
+    entries.push(...(result.Items || []));
+    if (result.LastEvaluatedKey) {
+      lastKey = result.LastEvaluatedKey;
+    } else {
+      partition++;
+      lastKey = null;
+    }
   }
+
+  const hasMore = partition < partitions.length;
+  return {
+    entries: entries.map(formatAuditEntry),
+    nextCursor: hasMore ? await encodeCursor(scope, { partition, lastKey }) : null,
+  };
 }
 
 // Main handler
@@ -391,51 +2205,193 @@ exports.handler = async (event) => {
   const pathParameters = event.pathParameters;
   const queryStringParameters = event.queryStringParameters;
   const body = event.body;
+  const claims = event.requestContext?.authorizer?.jwt?.claims;
+  const requestInfo = getRequestInfo(event);
 
   // Handle CORS preflight
   if (httpMethod === 'OPTIONS') {
     return response(200, {});
   }
 
+  const denied = await authorizeRoute(httpMethod, path, claims, requestInfo);
+  if (denied) {
+    return denied;
+  }
+
   try {
     // Route handling
     if (path === '/metrics' && httpMethod === 'GET') {
-      const days = parseInt(queryStringParameters?.days || '7', 10);
-      const metrics = await getMetrics(days);
+      const { error, range } = parseMetricsRange(queryStringParameters || {});
+      if (error) {
+        return response(400, { error });
+      }
+      const metrics = await getMetrics(range);
       return response(200, metrics);
     }
 
+    if (path === '/guardrail-events' && httpMethod === 'GET') {
+      const { error, range } = parseMetricsRange(queryStringParameters || {});
+      if (error) {
+        return response(400, { error });
+      }
+      const result = await getGuardrailEvents(range);
+      return response(200, result);
+    }
+
     if (path === '/feedback' && httpMethod === 'GET') {
-      const limit = parseInt(queryStringParameters?.limit || '50', 10);
-      const offset = parseInt(queryStringParameters?.offset || '0', 10);
+      const limit = Math.min(Math.max(parseInt(queryStringParameters?.limit || '50', 10) || 50, 1), 100);
+      const cursor = queryStringParameters?.cursor;
       const feedbackFilter = queryStringParameters?.filter;
-      const result = await getFeedbackConversations(limit, offset, feedbackFilter);
+      const reason = queryStringParameters?.reason;
+      const result = await getFeedbackConversations(limit, cursor, feedbackFilter, reason);
+      return response(200, result);
+    }
+
+    if (path === '/conversations/search' && httpMethod === 'GET') {
+      const limit = Math.min(Math.max(parseInt(queryStringParameters?.limit || '50', 10) || 50, 1), 100);
+      const { error, params } = parseSearchParams(queryStringParameters || {});
+      if (error) {
+        return response(400, { error });
+      }
+      const result = await searchConversations(params, limit, queryStringParameters?.cursor);
       return response(200, result);
     }
 
+    // Must come before the /conversations/{id} routes
+    if (path === '/conversations/bulk-delete' && httpMethod === 'POST') {
+      return await bulkDeleteConversations(JSON.parse(body || '{}'), claims, requestInfo);
+    }
+
+    if (path && path.startsWith('/conversations/') && path.endsWith('/redact') && httpMethod === 'POST') {
+      const conversationId = pathParameters?.id || path.split('/')[2];
+      return await redactConversation(conversationId, claims, requestInfo);
+    }
+
+    if (path && path.startsWith('/conversations/') && httpMethod === 'DELETE') {
+      const conversationId = pathParameters?.id || path.split('/').pop();
+      return await deleteConversation(conversationId, claims, requestInfo);
+    }
+
     if (path === '/feedback' && httpMethod === 'POST') {
       return await createFeedback(JSON.parse(body || '{}'));
     }
 
     if (path === '/escalations' && httpMethod === 'GET') {
-      const limit = parseInt(queryStringParameters?.limit || '50', 10);
-      const offset = parseInt(queryStringParameters?.offset || '0', 10);
-      const result = await getEscalations(limit, offset);
+      const limit = Math.min(Math.max(parseInt(queryStringParameters?.limit || '50', 10) || 50, 1), 100);
+      const cursor = queryStringParameters?.cursor;
+      const statusFilter = queryStringParameters?.status;
+      const result = await getEscalations(limit, cursor, statusFilter);
       return response(200, result);
     }
 
     if (path === '/escalations' && httpMethod === 'POST') {
-      return await createEscalation(JSON.parse(body || '{}'));
+      return await createEscalation(JSON.parse(body || '{}'), event.requestContext?.http?.sourceIp);
+    }
+
+    // Public; must come before the /escalations/{id} routes
+    if (path === '/escalations/challenge' && httpMethod === 'GET') {
+      return await createEscalationChallenge();
+    }
+
+    if (path && path.startsWith('/escalations/') && httpMethod === 'GET') {
+      const escalationId = pathParameters?.id || path.split('/').pop();
+      const item = await getEscalationItem(escalationId);
+      if (!item) {
+        return response(404, { error: 'Escalation not found' });
+      }
+      const transcript = await getSessionTranscript(item.sessionId, item.timestamp);
+      return response(200, { escalation: formatEscalation(item), transcript });
+    }
+
+    if (path && path.startsWith('/escalations/') && httpMethod === 'PATCH') {
+      const escalationId = pathParameters?.id || path.split('/').pop();
+      return await updateEscalation(escalationId, JSON.parse(body || '{}'), claims, requestInfo);
     }
 
     if (path && path.startsWith('/escalations/') && httpMethod === 'DELETE') {
       const escalationId = pathParameters?.id || path.split('/').pop();
-      const result = await deleteEscalation(escalationId);
-      return response(result.success ? 200 : 404, result);
+      return await archiveEscalation(escalationId, claims, requestInfo);
+    }
+
+    if (path && path.startsWith('/exports/') && httpMethod === 'GET') {
+      const dataset = pathParameters?.dataset || path.split('/').pop();
+      const { error, request } = parseExportRequest(dataset, queryStringParameters || {});
+      if (error) {
+        return response(400, { error });
+      }
+      return await downloadExport(request, claims, requestInfo);
+    }
+
+    if (path === '/export-jobs' && httpMethod === 'POST') {
+      const params = JSON.parse(body || '{}');
+      const { error, request } = parseExportRequest(params.dataset, params);
+      if (error) {
+        return response(400, { error });
+      }
+      return await createExportJob(request, claims, requestInfo);
+    }
+
+    if (path && path.startsWith('/export-jobs/') && httpMethod === 'GET') {
+      const exportId = pathParameters?.id || path.split('/').pop();
+      return await getExportJob(exportId);
+    }
+
+    if (path === '/config' && httpMethod === 'GET') {
+      const config = await getRetrievalConfig();
+      return response(200, config);
+    }
+
+    if (path === '/config' && httpMethod === 'PUT') {
+      return await updateRetrievalConfig(JSON.parse(body || '{}'), claims, requestInfo);
+    }
+
+    if (path === '/audit' && httpMethod === 'GET') {
+      const limit = Math.min(Math.max(parseInt(queryStringParameters?.limit || '50', 10) || 50, 1), 100);
+      const { error, params } = parseAuditQuery(queryStringParameters || {});
+      if (error) {
+        return response(400, { error });
+      }
+      const result = await getAuditLog(params, limit, queryStringParameters?.cursor);
+      return response(200, result);
+    }
+
+    if (path === '/users' && httpMethod === 'GET') {
+      return await listAdminUsers();
+    }
+
+    if (path === '/users' && httpMethod === 'POST') {
+      return await inviteAdminUser(JSON.parse(body || '{}'), claims, requestInfo);
+    }
+
+    if (path && path.startsWith('/users/')) {
+      const [, , encodedUsername, action] = path.split('/');
+      const username = pathParameters?.username || decodeURIComponent(encodedUsername || '');
+
+      if ((action === 'disable' || action === 'enable') && httpMethod === 'POST') {
+        return await setAdminUserEnabled(username, action === 'enable', claims, requestInfo);
+      }
+
+      if (action === 'reset-password' && httpMethod === 'POST') {
+        return await resetAdminUserPassword(username, claims, requestInfo);
+      }
+
+      if (action === 'reset-mfa' && httpMethod === 'POST') {
+        return await resetAdminUserMfa(username, claims, requestInfo);
+      }
+
+      if (action === 'role' && httpMethod === 'PUT') {
+        return await changeAdminUserRole(username, JSON.parse(body || '{}'), claims, requestInfo);
+      }
     }
 
     return response(404, { error: 'Not found' });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return response(400, { error: error.message });
+    }
+    if (error instanceof AuditWriteError) {
+      return response(500, { error: error.message, code: 'AUDIT_FAILED' });
+    }
     console.error('Handler error:', error);
     return response(500, { error: 'Internal server error' });
   }
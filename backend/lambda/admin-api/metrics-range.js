@@ -0,0 +1,176 @@
+// Date ranges for GET /metrics and GET /guardrail-events: parsing the query, calendar days
+// in an IANA timezone, and grouping days into day/week/month periods.
+
+const DEFAULT_DAYS = 7;
+const MAX_RANGE_DAYS = 366;
+const GRANULARITIES = ['day', 'week', 'month'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Whether the runtime knows this IANA timezone (e.g. America/New_York)
+function isValidTimezone(timezone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Wall-clock parts of an instant in a timezone
+function getZonedParts(date, timezone) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  return Object.fromEntries(parts.filter(p => p.type !== 'literal').map(p => [p.type, Number(p.value)]));
+}
+
+// Calendar date (YYYY-MM-DD) of an instant in a timezone
+function toLocalDate(date, timezone) {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Offset of a timezone from UTC at an instant, in ms (negative west of UTC)
+function getOffsetMs(date, timezone) {
+  const p = getZonedParts(date, timezone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The instant a calendar date starts in a timezone (handles DST changes)
+function startOfLocalDay(dateStr, timezone) {
+  const midnightUtc = Date.parse(`${dateStr}T00:00:00Z`);
+  const guess = midnightUtc - getOffsetMs(new Date(midnightUtc), timezone);
+  return new Date(midnightUtc - getOffsetMs(new Date(guess), timezone));
+}
+
+// Calendar date arithmetic on YYYY-MM-DD strings
+function addDays(dateStr, days) {
+  return new Date(Date.parse(`${dateStr}T00:00:00Z`) + days * DAY_MS).toISOString().substring(0, 10);
+}
+
+// A real YYYY-MM-DD calendar date (Date.parse rolls 2025-02-30 over to March)
+function isCalendarDate(value) {
+  if (!DATE_PATTERN.test(value)) return false;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !Number.isNaN(time) && new Date(time).toISOString().substring(0, 10) === value;
+}
+
+// Inclusive number of days between two dates
+function daysBetween(from, to) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS) + 1;
+}
+
+// Every date from..to inclusive
+function listDates(from, to) {
+  const dates = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// First day of the period a date falls in (weeks start on Monday)
+function getPeriodStart(dateStr, granularity) {
+  if (granularity === 'month') return `${dateStr.substring(0, 7)}-01`;
+  if (granularity === 'week') {
+    const weekday = new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+    return addDays(dateStr, -((weekday + 6) % 7));
+  }
+  return dateStr;
+}
+
+// Chart label for a period starting on a date
+function formatPeriodLabel(dateStr, granularity) {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  if (granularity === 'month') {
+    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+// Periods covering from..to, clipped to the range: [{ date, endDate, label, dayName?, dates }]
+function buildPeriods(from, to, granularity) {
+  const periods = [];
+  for (const date of listDates(from, to)) {
+    const start = getPeriodStart(date, granularity);
+    const current = periods[periods.length - 1];
+    if (current && current.start === start) {
+      current.endDate = date;
+      current.dates.push(date);
+    } else {
+      periods.push({ start, date, endDate: date, dates: [date] });
+    }
+  }
+
+  return periods.map(({ date, endDate, dates }) => ({
+    date,
+    endDate,
+    label: formatPeriodLabel(date, granularity),
+    ...(granularity === 'day' && { dayName: DAY_NAMES[new Date(`${date}T00:00:00Z`).getUTCDay()] }),
+    dates,
+  }));
+}
+
+// Validate the range query parameters (from, to, days, tz, granularity, compare).
+// Returns { error } or { range: { from, to, timezone, granularity, days, today, previous } }
+// where previous is the same number of days just before from (null unless compare=true).
+function parseMetricsRange(query = {}) {
+  const timezone = query.tz || 'UTC';
+  if (!isValidTimezone(timezone)) {
+    return { error: 'tz must be an IANA timezone such as America/New_York' };
+  }
+
+  const granularity = query.granularity || 'day';
+  if (!GRANULARITIES.includes(granularity)) {
+    return { error: `granularity must be one of: ${GRANULARITIES.join(', ')}` };
+  }
+
+  for (const name of ['from', 'to']) {
+    if (query[name] && !isCalendarDate(query[name])) {
+      return { error: `${name} must be a date (YYYY-MM-DD)` };
+    }
+  }
+
+  const today = toLocalDate(new Date(), timezone);
+  let from = query.from;
+  let to = query.to || today;
+  if (!from) {
+    const days = parseInt(query.days || String(DEFAULT_DAYS), 10);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_RANGE_DAYS) {
+      return { error: `days must be between 1 and ${MAX_RANGE_DAYS}` };
+    }
+    from = addDays(to, -(days - 1));
+  }
+
+  if (from > to) {
+    return { error: 'from must be on or before to' };
+  }
+  const days = daysBetween(from, to);
+  if (days > MAX_RANGE_DAYS) {
+    return { error: `The range can be at most ${MAX_RANGE_DAYS} days` };
+  }
+
+  const previous = query.compare === 'true'
+    ? { from: addDays(from, -days), to: addDays(from, -1) }
+    : null;
+
+  return { range: { from, to, timezone, granularity, days, today, previous } };
+}
+
+module.exports = {
+  parseMetricsRange,
+  toLocalDate,
+  startOfLocalDay,
+  addDays,
+  listDates,
+  buildPeriods,
+};
@@ -0,0 +1,103 @@
+const { DynamoDBClient } = require('@aws-sdk/client-dynamodb');
+const { DynamoDBDocumentClient, ScanCommand } = require('@aws-sdk/lib-dynamodb');
+const { unmarshall } = require('@aws-sdk/util-dynamodb');
+const { getSearchClient, ensureConversationIndex, toSearchDocument } = require('./shared/conversation-search');
+
+// Initialize clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Environment variables
+const CONVERSATION_TABLE = process.env.CONVERSATION_TABLE;
+const CONVERSATION_SEARCH_ENDPOINT = process.env.CONVERSATION_SEARCH_ENDPOINT;
+const CONVERSATION_SEARCH_INDEX = process.env.CONVERSATION_SEARCH_INDEX || 'askusda-conversations';
+
+// Index (or re-index after a feedback update) one conversation
+async function indexConversation(searchClient, item) {
+  await searchClient.index({
+    index: CONVERSATION_SEARCH_INDEX,
+    id: item.conversationId,
+    body: toSearchDocument(item),
+  });
+}
+
+// Remove a conversation that left the table (TTL expiry) or was deleted by an admin
+async function removeConversation(searchClient, conversationId) {
+  try {
+    await searchClient.delete({ index: CONVERSATION_SEARCH_INDEX, id: conversationId });
+  } catch (error) {
+    if (error.meta?.statusCode !== 404) throw error;
+  }
+}
+
+// Apply one stream record to the index
+async function processRecord(searchClient, record) {
+  if (record.eventName === 'REMOVE') {
+    const oldItem = unmarshall(record.dynamodb.OldImage || record.dynamodb.Keys);
+    await removeConversation(searchClient, oldItem.conversationId);
+    return;
+  }
+
+  const newItem = unmarshall(record.dynamodb.NewImage);
+  if (newItem.deletedAt) {
+    await removeConversation(searchClient, newItem.conversationId);
+    return;
+  }
+  await indexConversation(searchClient, newItem);
+}
+
+// Index every item currently in the conversation table (first deployment, or after drift)
+async function reindex(searchClient) {
+  let indexed = 0;
+  let lastKey = undefined;
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: CONVERSATION_TABLE,
+      ExclusiveStartKey: lastKey,
+    }));
+
+    const items = (result.Items || []).filter(item => !item.deletedAt);
+    if (items.length > 0) {
+      const body = items.flatMap(item => [
+        { index: { _index: CONVERSATION_SEARCH_INDEX, _id: item.conversationId } },
+        toSearchDocument(item),
+      ]);
+      const response = await searchClient.bulk({ body });
+      if (response.body.errors) {
+        const failed = response.body.items.filter(i => i.index?.error);
+        console.error(`Reindex: ${failed.length} documents failed, first error:`, JSON.stringify(failed[0]?.index?.error));
+      }
+      indexed += items.length;
+    }
+
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  console.log(`Reindex complete: ${indexed} conversations`);
+  return { indexed };
+}
+
+// Main handler - Conversation History stream batches, or { "action": "reindex" } for a manual rebuild
+exports.handler = async (event) => {
+  const searchClient = getSearchClient(CONVERSATION_SEARCH_ENDPOINT);
+  await ensureConversationIndex(searchClient, CONVERSATION_SEARCH_INDEX);
+
+  if (event.action === 'reindex') {
+    return await reindex(searchClient);
+  }
+
+  const batchItemFailures = [];
+
+  for (const record of event.Records || []) {
+    try {
+      await processRecord(searchClient, record);
+    } catch (error) {
+      console.error('Error indexing stream record:', record.eventID, error);
+      // Records are processed in order, so retry from the first failure
+      batchItemFailures.push({ itemIdentifier: record.dynamodb.SequenceNumber });
+      break;
+    }
+  }
+
+  return { batchItemFailures };
+};
@@ -0,0 +1,151 @@
+const { DynamoDBClient } = require('@aws-sdk/client-dynamodb');
+const { DynamoDBDocumentClient, UpdateCommand } = require('@aws-sdk/lib-dynamodb');
+const { unmarshall } = require('@aws-sdk/util-dynamodb');
+const { createMailer } = require('./mailer');
+const templates = require('./templates');
+
+// Initialize clients
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Environment variables
+const ESCALATION_TABLE = process.env.ESCALATION_TABLE;
+const NOTIFICATION_FROM_EMAIL = process.env.NOTIFICATION_FROM_EMAIL;
+const STAFF_NOTIFICATION_EMAILS = (process.env.STAFF_NOTIFICATION_EMAILS || '')
+  .split(',')
+  .map(email => email.trim())
+  .filter(Boolean);
+const DASHBOARD_URL = process.env.DASHBOARD_URL || '';
+
+// Requester address problems that will never succeed on retry
+const UNDELIVERABLE_ERRORS = ['MessageRejected', 'BadRequestException', 'NotFoundException'];
+
+let mailer = null;
+function getMailer() {
+  if (!mailer) {
+    mailer = createMailer();
+    console.log('Mail transport:', mailer.name);
+  }
+  return mailer;
+}
+
+// Deep link that opens the escalation in the admin dashboard
+function getDashboardLink(escalationId) {
+  return `${DASHBOARD_URL}?escalation=${encodeURIComponent(escalationId)}`;
+}
+
+// Mark a notification as sent for one event (marker) on the escalation item. Returns false if it
+// was already sent for that event.
+async function claimNotification(escalation, attribute, marker) {
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: ESCALATION_TABLE,
+      Key: { escalationId: escalation.escalationId, timestamp: escalation.timestamp },
+      UpdateExpression: 'SET #flag = :marker',
+      ConditionExpression: 'attribute_exists(escalationId) AND (attribute_not_exists(#flag) OR #flag <> :marker)',
+      ExpressionAttributeNames: { '#flag': attribute },
+      ExpressionAttributeValues: { ':marker': marker },
+    }));
+    return true;
+  } catch (error) {
+    if (error.name === 'ConditionalCheckFailedException') return false;
+    throw error;
+  }
+}
+
+// Clear the mark when the notification could not be sent, so the retried record sends it
+async function releaseNotification(escalation, attribute) {
+  await docClient.send(new UpdateCommand({
+    TableName: ESCALATION_TABLE,
+    Key: { escalationId: escalation.escalationId, timestamp: escalation.timestamp },
+    UpdateExpression: 'REMOVE #flag',
+    ExpressionAttributeNames: { '#flag': attribute },
+  }));
+}
+
+// Send one notification at most once per event, even when its stream record is retried
+async function sendOnce(escalation, attribute, marker, send) {
+  if (ESCALATION_TABLE && !(await claimNotification(escalation, attribute, marker))) {
+    console.log(`Skipping ${attribute} for escalation ${escalation.escalationId}: already sent`);
+    return;
+  }
+
+  try {
+    await send();
+  } catch (error) {
+    if (ESCALATION_TABLE) {
+      await releaseNotification(escalation, attribute).catch(releaseError => {
+        console.error(`Error releasing ${attribute} for escalation ${escalation.escalationId}:`, releaseError);
+      });
+    }
+    throw error;
+  }
+}
+
+// Send a template to the requester; a bad address is logged instead of retried
+async function sendToRequester(escalation, message) {
+  if (!escalation.email) return;
+
+  try {
+    await getMailer().send({ to: [escalation.email], ...message });
+  } catch (error) {
+    if (UNDELIVERABLE_ERRORS.includes(error.name)) {
+      console.warn(`Requester email not deliverable for escalation ${escalation.escalationId}:`, error.message);
+      return;
+    }
+    throw error;
+  }
+}
+
+// New escalation: notify staff and confirm receipt to the requester. Each email is flagged on the
+// item separately, so a retry after one of them failed does not repeat the other.
+async function handleNewEscalation(escalation) {
+  if (STAFF_NOTIFICATION_EMAILS.length > 0) {
+    await sendOnce(escalation, 'staffNotifiedFor', escalation.timestamp, () => getMailer().send({
+      to: STAFF_NOTIFICATION_EMAILS,
+      ...templates.newEscalationStaff(escalation, getDashboardLink(escalation.escalationId)),
+    }));
+  }
+
+  await sendOnce(escalation, 'receiptNotifiedFor', escalation.timestamp,
+    () => sendToRequester(escalation, templates.escalationReceived(escalation)));
+  console.log(`Sent new escalation notifications for ${escalation.escalationId}`);
+}
+
+// Status change: tell the requester when their request is resolved (once per resolution)
+async function handleStatusChange(previous, escalation) {
+  if (previous.status !== 'resolved' && escalation.status === 'resolved') {
+    await sendOnce(escalation, 'resolutionNotifiedFor', escalation.updatedAt || escalation.timestamp,
+      () => sendToRequester(escalation, templates.escalationResolved(escalation)));
+    console.log(`Sent resolution email for ${escalation.escalationId}`);
+  }
+}
+
+// Main handler - Escalation Requests stream batches
+exports.handler = async (event) => {
+  if (!NOTIFICATION_FROM_EMAIL) {
+    console.log('NOTIFICATION_FROM_EMAIL not set - escalation notifications are disabled');
+    return { batchItemFailures: [] };
+  }
+
+  const batchItemFailures = [];
+
+  for (const record of event.Records || []) {
+    try {
+      const newItem = record.dynamodb.NewImage ? unmarshall(record.dynamodb.NewImage) : null;
+      const oldItem = record.dynamodb.OldImage ? unmarshall(record.dynamodb.OldImage) : null;
+
+      if (record.eventName === 'INSERT') {
+        await handleNewEscalation(newItem);
+      } else if (record.eventName === 'MODIFY') {
+        await handleStatusChange(oldItem, newItem);
+      }
+    } catch (error) {
+      console.error('Error sending escalation notification:', record.eventID, error);
+      // Records are processed in order, so retry from the first failure
+      batchItemFailures.push({ itemIdentifier: record.dynamodb.SequenceNumber });
+      break;
+    }
+  }
+
+  return { batchItemFailures };
+};
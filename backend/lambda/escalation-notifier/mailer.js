@@ -0,0 +1,71 @@
+// Mail transports for escalation notifications.
+// Every transport exposes the same interface: send({ to, subject, text, html }) -> Promise<void>,
+// where `to` is an array of addresses. SES is used in AWS; the SMTP transport points at a local
+// stand-in (e.g. MailHog or smtp4dev) so templates and flows can be exercised without SES.
+
+// Amazon SES (v2 API) - the sender must be a verified identity
+function createSesTransport({ from }) {
+  const { SESv2Client, SendEmailCommand } = require('@aws-sdk/client-sesv2');
+  const sesClient = new SESv2Client({});
+
+  return {
+    name: 'ses',
+    async send({ to, subject, text, html }) {
+      await sesClient.send(new SendEmailCommand({
+        FromEmailAddress: from,
+        Destination: { ToAddresses: to },
+        Content: {
+          Simple: {
+            Subject: { Data: subject, Charset: 'UTF-8' },
+            Body: {
+              Text: { Data: text, Charset: 'UTF-8' },
+              Html: { Data: html, Charset: 'UTF-8' },
+            },
+          },
+        },
+      }));
+    },
+  };
+}
+
+// Plain SMTP (no auth by default) - intended for local testing against a mail catcher
+function createSmtpTransport({ from, host, port, user, pass }) {
+  const nodemailer = require('nodemailer');
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: port === 465,
+    ...(user && { auth: { user, pass } }),
+  });
+
+  return {
+    name: 'smtp',
+    async send({ to, subject, text, html }) {
+      await transporter.sendMail({ from, to: to.join(', '), subject, text, html });
+    },
+  };
+}
+
+// Pick the transport from the environment (MAIL_TRANSPORT = 'ses' | 'smtp')
+function createMailer(env = process.env) {
+  const from = env.NOTIFICATION_FROM_EMAIL;
+  const transport = env.MAIL_TRANSPORT || 'ses';
+
+  if (transport === 'smtp') {
+    return createSmtpTransport({
+      from,
+      host: env.SMTP_HOST || 'localhost',
+      port: parseInt(env.SMTP_PORT || '1025', 10),
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+    });
+  }
+
+  if (transport === 'ses') {
+    return createSesTransport({ from });
+  }
+
+  throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+}
+
+module.exports = { createMailer, createSesTransport, createSmtpTransport };
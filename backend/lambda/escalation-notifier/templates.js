@@ -0,0 +1,114 @@
+// Email templates for escalation notifications. Each returns { subject, text, html }.
+
+// Escape user-supplied text for the HTML body
+function escapeHtml(value) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Shared HTML layout (inline styles - most mail clients ignore <style> blocks)
+function layout(heading, bodyHtml) {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+      <div style="background:#002d72;color:#ffffff;padding:16px 24px;font-size:18px;font-weight:bold;">${escapeHtml(heading)}</div>
+      <div style="padding:24px;font-size:14px;line-height:1.5;">${bodyHtml}</div>
+    </div>
+  </body>
+</html>`;
+}
+
+// Quoted question block
+function questionHtml(question) {
+  return `<div style="margin:16px 0;padding:12px 16px;background:#f9fafb;border-left:4px solid #002d72;white-space:pre-wrap;">${escapeHtml(question)}</div>`;
+}
+
+// Staff distribution list: a new support request was submitted
+function newEscalationStaff(escalation, dashboardLink) {
+  const subject = `New AskUSDA support request from ${escalation.name}`;
+  const text = [
+    'A new support request was submitted through AskUSDA.',
+    '',
+    `Name: ${escalation.name}`,
+    `Email: ${escalation.email}`,
+    `Phone: ${escalation.phone || 'Not provided'}`,
+    `Submitted: ${escalation.timestamp}`,
+    '',
+    'Question:',
+    escalation.question,
+    '',
+    `View in dashboard: ${dashboardLink}`,
+  ].join('\n');
+  const html = layout('New Support Request', `
+        <p>A new support request was submitted through AskUSDA.</p>
+        <p>
+          <strong>Name:</strong> ${escapeHtml(escalation.name)}<br>
+          <strong>Email:</strong> ${escapeHtml(escalation.email)}<br>
+          <strong>Phone:</strong> ${escapeHtml(escalation.phone || 'Not provided')}<br>
+          <strong>Submitted:</strong> ${escapeHtml(escalation.timestamp)}
+        </p>
+        ${questionHtml(escalation.question)}
+        <p><a href="${escapeHtml(dashboardLink)}" style="display:inline-block;padding:10px 16px;background:#002d72;color:#ffffff;text-decoration:none;border-radius:6px;">View in dashboard</a></p>`);
+
+  return { subject, text, html };
+}
+
+// Requester: confirmation that their request was received
+function escalationReceived(escalation) {
+  const subject = 'We received your USDA support request';
+  const text = [
+    `Hello ${escalation.name},`,
+    '',
+    'Thank you for contacting USDA. We received your request and a representative will follow up with you.',
+    '',
+    'Your question:',
+    escalation.question,
+    '',
+    `Reference: ${escalation.escalationId}`,
+    '',
+    'This is an automated message. Please do not reply.',
+  ].join('\n');
+  const html = layout('We received your request', `
+        <p>Hello ${escapeHtml(escalation.name)},</p>
+        <p>Thank you for contacting USDA. We received your request and a representative will follow up with you.</p>
+        <p><strong>Your question:</strong></p>
+        ${questionHtml(escalation.question)}
+        <p style="color:#6b7280;font-size:12px;">Reference: ${escapeHtml(escalation.escalationId)}<br>This is an automated message. Please do not reply.</p>`);
+
+  return { subject, text, html };
+}
+
+// Requester: their request was marked resolved
+function escalationResolved(escalation) {
+  const subject = 'Your USDA support request has been resolved';
+  const text = [
+    `Hello ${escalation.name},`,
+    '',
+    'Your support request has been marked as resolved.',
+    '',
+    'Your question:',
+    escalation.question,
+    '',
+    'If you still need help, you can submit a new request from the AskUSDA chat or visit https://www.usda.gov.',
+    '',
+    `Reference: ${escalation.escalationId}`,
+    '',
+    'This is an automated message. Please do not reply.',
+  ].join('\n');
+  const html = layout('Your request has been resolved', `
+        <p>Hello ${escapeHtml(escalation.name)},</p>
+        <p>Your support request has been marked as resolved.</p>
+        <p><strong>Your question:</strong></p>
+        ${questionHtml(escalation.question)}
+        <p>If you still need help, you can submit a new request from the AskUSDA chat or visit <a href="https://www.usda.gov">usda.gov</a>.</p>
+        <p style="color:#6b7280;font-size:12px;">Reference: ${escapeHtml(escalation.escalationId)}<br>This is an automated message. Please do not reply.</p>`);
+
+  return { subject, text, html };
+}
+
+module.exports = { newEscalationStaff, escalationReceived, escalationResolved, escapeHtml };
@@ -0,0 +1,122 @@
+const { DynamoDBClient } = require('@aws-sdk/client-dynamodb');
+const { DynamoDBDocumentClient, GetCommand, UpdateCommand } = require('@aws-sdk/lib-dynamodb');
+const { S3Client } = require('@aws-sdk/client-s3');
+const { Upload } = require('@aws-sdk/lib-storage');
+const { PassThrough } = require('stream');
+const { once } = require('events');
+const { EXPORT_FORMATS, iterateExportItems, formatExportHeader, formatExportRow, getExportFileName } = require('./shared/exports');
+
+// Initialize clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+const s3Client = new S3Client({});
+
+// Environment variables
+const EXPORT_JOBS_TABLE = process.env.EXPORT_JOBS_TABLE;
+const EXPORT_BUCKET = process.env.EXPORT_BUCKET;
+const EXPORT_TABLES = {
+  conversationTable: process.env.CONVERSATION_TABLE,
+  escalationTable: process.env.ESCALATION_TABLE,
+  dateIndex: process.env.DATE_INDEX || 'date-timestamp-index',
+  feedbackIndex: process.env.FEEDBACK_INDEX || 'feedback-timestamp-index',
+  escalationDateIndex: process.env.ESCALATION_DATE_INDEX || 'DateTimestampIndex',
+};
+
+// Move a job to its next status. The condition on the current status keeps a retried
+// invocation from running the same job twice.
+async function updateJob(exportId, fromStatus, fields) {
+  const names = Object.keys(fields);
+  await docClient.send(new UpdateCommand({
+    TableName: EXPORT_JOBS_TABLE,
+    Key: { exportId },
+    UpdateExpression: `SET ${names.map((_, i) => `#f${i} = :f${i}`).join(', ')}`,
+    ConditionExpression: '#status = :fromStatus',
+    ExpressionAttributeNames: { ...Object.fromEntries(names.map((name, i) => [`#f${i}`, name])), '#status': 'status' },
+    ExpressionAttributeValues: { ...Object.fromEntries(names.map((name, i) => [`:f${i}`, fields[name]])), ':fromStatus': fromStatus },
+  }));
+}
+
+// Stream the export rows into an S3 multipart upload; returns { rowCount, size }
+async function writeExport(exportId, request) {
+  const key = `exports/${exportId}/${getExportFileName(request)}`;
+  const body = new PassThrough();
+  const upload = new Upload({
+    client: s3Client,
+    params: {
+      Bucket: EXPORT_BUCKET,
+      Key: key,
+      Body: body,
+      ContentType: EXPORT_FORMATS[request.format].contentType,
+      ContentDisposition: `attachment; filename="${getExportFileName(request)}"`,
+    },
+  });
+  const uploaded = upload.done();
+
+  let rowCount = 0;
+  let size = 0;
+  // Respect backpressure so large exports never sit in memory
+  const write = async (chunk) => {
+    size += Buffer.byteLength(chunk);
+    if (!body.write(chunk)) await once(body, 'drain');
+  };
+
+  try {
+    await write(formatExportHeader(request.dataset, request.format));
+    for await (const item of iterateExportItems(docClient, EXPORT_TABLES, request)) {
+      await write(formatExportRow(request.dataset, request.format, item));
+      rowCount++;
+    }
+    body.end();
+    await uploaded;
+  } catch (error) {
+    body.destroy(error);
+    await upload.abort().catch(() => {});
+    throw error;
+  }
+
+  return { key, rowCount, size };
+}
+
+// Main handler - invoked asynchronously by the admin API with { exportId } (POST /export-jobs)
+exports.handler = async (event) => {
+  const { exportId } = event;
+
+  const result = await docClient.send(new GetCommand({
+    TableName: EXPORT_JOBS_TABLE,
+    Key: { exportId },
+  }));
+  const job = result.Item;
+  if (!job) {
+    console.error('Export job not found:', exportId);
+    return;
+  }
+
+  try {
+    await updateJob(exportId, 'pending', { status: 'running', startedAt: new Date().toISOString() });
+  } catch (error) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      console.log(`Export ${exportId} already started`);
+      return;
+    }
+    throw error;
+  }
+
+  try {
+    const { key, rowCount, size } = await writeExport(exportId, job.request);
+    await updateJob(exportId, 'running', {
+      status: 'completed',
+      s3Key: key,
+      rowCount,
+      size,
+      completedAt: new Date().toISOString(),
+    });
+    console.log(`Export ${exportId} completed: ${rowCount} rows, ${size} bytes`);
+  } catch (error) {
+    console.error(`Export ${exportId} failed:`, error);
+    await updateJob(exportId, 'running', {
+      status: 'failed',
+      error: 'The export could not be generated',
+      completedAt: new Date().toISOString(),
+    });
+  }
+};
@@ -0,0 +1,178 @@
+const { DynamoDBClient } = require('@aws-sdk/client-dynamodb');
+const { DynamoDBDocumentClient, TransactWriteCommand, PutCommand, ScanCommand } = require('@aws-sdk/lib-dynamodb');
+const { unmarshall } = require('@aws-sdk/util-dynamodb');
+const {
+  COUNTERS,
+  ESCALATION_ROLLUP_KEY,
+  getRollupKeys,
+  getContribution,
+  getEscalationContribution,
+  getRecordUpdates,
+} = require('./rollups');
+
+// Initialize clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Environment variables
+const CONVERSATION_TABLE = process.env.CONVERSATION_TABLE;
+const ESCALATION_TABLE = process.env.ESCALATION_TABLE;
+const METRICS_TABLE = process.env.METRICS_TABLE;
+
+// Stream records already applied are marked with an item in the rollup table, kept for longer than
+// the stream retains records (24 hours) so any retry of the record finds it
+const APPLIED_MARKER_GRANULARITY = 'APPLIED';
+const APPLIED_MARKER_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+// Update adding the non-zero deltas to one rollup item
+function buildDeltaUpdate(key, delta, now) {
+  const changed = Object.entries(delta).filter(([, value]) => value !== 0);
+  return {
+    TableName: METRICS_TABLE,
+    Key: key,
+    UpdateExpression: `ADD ${changed.map((_, i) => `#c${i} :c${i}`).join(', ')} SET updatedAt = :now`,
+    ExpressionAttributeNames: Object.fromEntries(changed.map(([name], i) => [`#c${i}`, name])),
+    ExpressionAttributeValues: {
+      ...Object.fromEntries(changed.map(([, value], i) => [`:c${i}`, value])),
+      ':now': now.toISOString(),
+    },
+  };
+}
+
+// Apply one stream record (insert, feedback/status update, or TTL/admin removal) to the rollups.
+// All of its rollup updates and its applied marker are written in one transaction, so a retried
+// batch never adds a record twice: the marker's condition fails and the record is skipped.
+async function processRecord(record) {
+  const oldItem = record.dynamodb.OldImage ? unmarshall(record.dynamodb.OldImage) : null;
+  const newItem = record.dynamodb.NewImage ? unmarshall(record.dynamodb.NewImage) : null;
+
+  // Stream ARNs look like arn:aws:dynamodb:<region>:<account>:table/<name>/stream/<label>
+  const updates = getRecordUpdates({
+    eventName: record.eventName,
+    oldItem,
+    newItem,
+    isEscalation: !!record.eventSourceARN?.includes(`:table/${ESCALATION_TABLE}/`),
+  });
+  if (updates.length === 0) return;
+
+  const now = new Date();
+  try {
+    await docClient.send(new TransactWriteCommand({
+      TransactItems: [
+        {
+          Put: {
+            TableName: METRICS_TABLE,
+            Item: {
+              granularity: APPLIED_MARKER_GRANULARITY,
+              bucket: record.eventID,
+              ttl: Math.floor(now.getTime() / 1000) + APPLIED_MARKER_TTL_SECONDS,
+            },
+            ConditionExpression: 'attribute_not_exists(granularity)',
+          },
+        },
+        ...updates.map(({ key, delta }) => ({ Update: buildDeltaUpdate(key, delta, now) })),
+      ],
+    }));
+  } catch (error) {
+    if (error.name === 'TransactionCanceledException' && error.CancellationReasons?.[0]?.Code === 'ConditionalCheckFailed') {
+      console.log(`Stream record ${record.eventID} was already applied, skipping`);
+      return;
+    }
+    throw error;
+  }
+}
+
+// Rebuild all rollups from the items currently in the conversation and escalation tables
+async function backfill() {
+  const rollups = new Map();
+
+  const addToRollup = (key, counts) => {
+    const id = `${key.granularity}#${key.bucket}`;
+    if (!rollups.has(id)) {
+      rollups.set(id, { ...key, ...Object.fromEntries(COUNTERS.map(c => [c, 0])) });
+    }
+    const rollup = rollups.get(id);
+    for (const counter of COUNTERS) {
+      rollup[counter] += counts[counter];
+    }
+  };
+
+  let scanned = 0;
+  let lastKey = undefined;
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: CONVERSATION_TABLE,
+      ExclusiveStartKey: lastKey,
+      ProjectionExpression: '#ts, #date, feedback, feedbackReasons, responseTimeMs, outcome, deletedAt',
+      ExpressionAttributeNames: { '#ts': 'timestamp', '#date': 'date' },
+    }));
+
+    for (const item of result.Items || []) {
+      const counts = getContribution(item);
+      const keys = getRollupKeys(item);
+      addToRollup(keys.total, counts);
+      addToRollup(keys.day, counts);
+      addToRollup(keys.hour, counts);
+    }
+
+    scanned += result.Items?.length || 0;
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  // Always reset the total, even when the table is empty
+  addToRollup({ granularity: 'TOTAL', bucket: 'ALL' }, getContribution(null));
+
+  // Escalation counters
+  const escalationRollup = { ...ESCALATION_ROLLUP_KEY, escalations: 0 };
+  lastKey = undefined;
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: ESCALATION_TABLE,
+      ExclusiveStartKey: lastKey,
+      ProjectionExpression: '#status',
+      ExpressionAttributeNames: { '#status': 'status' },
+    }));
+
+    for (const item of result.Items || []) {
+      for (const [counter, value] of Object.entries(getEscalationContribution(item))) {
+        escalationRollup[counter] = (escalationRollup[counter] || 0) + value;
+      }
+    }
+
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+  rollups.set('ESCALATIONS', escalationRollup);
+
+  const updatedAt = new Date().toISOString();
+  for (const rollup of rollups.values()) {
+    await docClient.send(new PutCommand({
+      TableName: METRICS_TABLE,
+      Item: { ...rollup, updatedAt },
+    }));
+  }
+
+  console.log(`Backfill complete: ${scanned} conversations, ${escalationRollup.escalations} escalations, ${rollups.size} rollup items written`);
+  return { scanned, escalations: escalationRollup.escalations, rollups: rollups.size };
+}
+
+// Main handler - DynamoDB stream batches, or { "action": "backfill" } for a manual rebuild
+exports.handler = async (event) => {
+  if (event.action === 'backfill') {
+    return await backfill();
+  }
+
+  const batchItemFailures = [];
+
+  for (const record of event.Records || []) {
+    try {
+      await processRecord(record);
+    } catch (error) {
+      console.error('Error processing stream record:', record.eventID, error);
+      // Records are processed in order, so retry from the first failure
+      batchItemFailures.push({ itemIdentifier: record.dynamodb.SequenceNumber });
+      break;
+    }
+  }
+
+  return { batchItemFailures };
+};
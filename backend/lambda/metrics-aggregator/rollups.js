@@ -0,0 +1,112 @@
+// Counters kept on the dashboard rollup items and what each conversation or escalation contributes
+// to them. Pure functions, used by the stream handler and the backfill.
+const { FEEDBACK_REASON_VALUES } = require('./shared/feedback');
+
+// Response time histogram buckets (upper bound in ms, exclusive); the last bucket is open-ended
+const RESPONSE_TIME_BUCKETS = [
+  { name: 'rt_lt1s', maxMs: 1000 },
+  { name: 'rt_1to2s', maxMs: 2000 },
+  { name: 'rt_2to5s', maxMs: 5000 },
+  { name: 'rt_5to10s', maxMs: 10000 },
+  { name: 'rt_gte10s', maxMs: Infinity },
+];
+
+const OUTCOMES = ['answered', 'low_confidence', 'blocked', 'error'];
+
+// Every counter kept on a conversation rollup item
+const COUNTERS = [
+  'conversations',
+  'feedbackPos',
+  'feedbackNeg',
+  'responseTimeSum',
+  'responseTimeCount',
+  ...RESPONSE_TIME_BUCKETS.map(b => b.name),
+  ...OUTCOMES.map(o => `outcome_${o}`),
+  ...FEEDBACK_REASON_VALUES.map(r => `feedbackReason_${r}`),
+];
+
+// Rollup keys for a conversation: all-time total plus its UTC day and hour
+function getRollupKeys(item) {
+  const timestamp = item.timestamp || '';
+  return {
+    total: { granularity: 'TOTAL', bucket: 'ALL' },
+    day: { granularity: 'DAY', bucket: item.date || timestamp.substring(0, 10) },
+    hour: { granularity: 'HOUR', bucket: timestamp.substring(0, 13) }, // e.g. 2025-01-05T10
+  };
+}
+
+// Counters one conversation item contributes to a rollup (nothing once an admin deletes it)
+function getContribution(item) {
+  const counts = Object.fromEntries(COUNTERS.map(c => [c, 0]));
+  if (!item || item.deletedAt) return counts;
+
+  counts.conversations = 1;
+  if (item.feedback === 'pos') counts.feedbackPos = 1;
+  if (item.feedback === 'neg') {
+    counts.feedbackNeg = 1;
+    for (const reason of item.feedbackReasons || []) {
+      if (FEEDBACK_REASON_VALUES.includes(reason)) counts[`feedbackReason_${reason}`] = 1;
+    }
+  }
+
+  if (item.responseTimeMs) {
+    counts.responseTimeSum = item.responseTimeMs;
+    counts.responseTimeCount = 1;
+    const bucket = RESPONSE_TIME_BUCKETS.find(b => item.responseTimeMs < b.maxMs);
+    counts[bucket.name] = 1;
+  }
+
+  // Records written before outcomes were tracked were all answered
+  const outcome = OUTCOMES.includes(item.outcome) ? item.outcome : 'answered';
+  counts[`outcome_${outcome}`] = 1;
+
+  return counts;
+}
+
+// Escalation counts live on a single item: the total plus one counter per status
+const ESCALATION_ROLLUP_KEY = { granularity: 'TOTAL', bucket: 'ESCALATIONS' };
+
+// Counters one escalation item contributes
+function getEscalationContribution(item) {
+  if (!item) return {};
+  return {
+    escalations: 1,
+    [`status_${item.status || 'pending'}`]: 1,
+  };
+}
+
+// Difference between two contributions, over every counter either of them touches
+function diffCounts(before, after) {
+  const counters = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Object.fromEntries([...counters].map(c => [c, (after[c] || 0) - (before[c] || 0)]));
+}
+
+// Rollup updates for one stream record: [{ key, delta }], leaving out rollups nothing changes on
+function getRecordUpdates({ eventName, oldItem, newItem, isEscalation }) {
+  if (isEscalation) {
+    const delta = diffCounts(getEscalationContribution(oldItem), getEscalationContribution(newItem));
+    return [{ key: ESCALATION_ROLLUP_KEY, delta }].filter(hasChanges);
+  }
+
+  const delta = diffCounts(getContribution(oldItem), getContribution(newItem));
+  const keys = getRollupKeys(newItem || oldItem);
+
+  // Removed items (TTL expiry) leave the all-time total but stay in the daily/hourly history
+  const rollupKeys = eventName === 'REMOVE' ? [keys.total] : [keys.total, keys.day, keys.hour];
+  return rollupKeys.map(key => ({ key, delta })).filter(hasChanges);
+}
+
+// Whether an update changes any counter
+function hasChanges({ delta }) {
+  return Object.values(delta).some(value => value !== 0);
+}
+
+module.exports = {
+  COUNTERS,
+  ESCALATION_ROLLUP_KEY,
+  getRollupKeys,
+  getContribution,
+  getEscalationContribution,
+  diffCounts,
+  getRecordUpdates,
+};
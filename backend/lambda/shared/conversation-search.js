@@ -0,0 +1,108 @@
+// Conversation search index in the conversation search collection (OpenSearch Serverless, type
+// SEARCH; separate from the knowledge base's vector collection), shared by the
+// conversation indexer (writes) and the admin API (GET /conversations/search).
+const { Client } = require('@opensearch-project/opensearch');
+const { AwsSigv4Signer } = require('@opensearch-project/opensearch/aws');
+const { defaultProvider } = require('@aws-sdk/credential-provider-node');
+
+// One document per Conversation History item, keyed by conversationId
+const CONVERSATION_INDEX_MAPPINGS = {
+  properties: {
+    conversationId: { type: 'keyword' },
+    timestamp: { type: 'date' },
+    date: { type: 'date', format: 'yyyy-MM-dd' },
+    sessionId: { type: 'keyword' },
+    question: { type: 'text' },
+    retrievalQuery: { type: 'text' },
+    answer: { type: 'text' },
+    outcome: { type: 'keyword' },
+    confidence: { type: 'float' },
+    responseTimeMs: { type: 'integer' },
+    feedback: { type: 'keyword' },
+    feedbackReasons: { type: 'keyword' },
+    sourceDomains: { type: 'keyword' },
+  },
+};
+
+let client = null;
+
+// Signed client for the collection endpoint (credentials come from the Lambda role)
+function getSearchClient(endpoint) {
+  if (!client) {
+    client = new Client({
+      ...AwsSigv4Signer({
+        region: process.env.AWS_REGION,
+        service: 'aoss',
+        getCredentials: () => defaultProvider()(),
+      }),
+      node: endpoint,
+    });
+  }
+  return client;
+}
+
+// Create the index on first use
+let indexReady = false;
+async function ensureConversationIndex(searchClient, index) {
+  if (indexReady) return;
+
+  const exists = await searchClient.indices.exists({ index });
+  if (!exists.body) {
+    try {
+      await searchClient.indices.create({ index, body: { mappings: CONVERSATION_INDEX_MAPPINGS } });
+      console.log(`Created search index ${index}`);
+    } catch (error) {
+      // Another container created it first
+      if (error.meta?.body?.error?.type !== 'resource_already_exists_exception') throw error;
+    }
+  }
+  indexReady = true;
+}
+
+// Normalize a URL or host to the domain used for filtering (lowercase, no "www.")
+function toDomain(value) {
+  try {
+    const host = value.includes('://') ? new URL(value).hostname : value;
+    return host.toLowerCase().replace(/^www\./, '');
+  } catch (error) {
+    return null;
+  }
+}
+
+// Distinct domains of the sources cited in a stored conversation (citations is a JSON string)
+function getSourceDomains(citations) {
+  let parsed = [];
+  try {
+    parsed = citations ? JSON.parse(citations) : [];
+  } catch (error) {
+    parsed = [];
+  }
+  const domains = parsed.map(c => c.source && toDomain(c.source)).filter(Boolean);
+  return [...new Set(domains)];
+}
+
+// Search document for a Conversation History item
+function toSearchDocument(item) {
+  return {
+    conversationId: item.conversationId,
+    timestamp: item.timestamp,
+    date: item.date || item.timestamp?.substring(0, 10),
+    sessionId: item.sessionId || '',
+    question: item.question || '',
+    retrievalQuery: item.retrievalQuery || '',
+    answer: item.answer || '',
+    outcome: item.outcome || 'answered',
+    confidence: item.confidence ?? null,
+    responseTimeMs: item.responseTimeMs || 0,
+    feedback: item.feedback || null,
+    feedbackReasons: item.feedbackReasons || [],
+    sourceDomains: getSourceDomains(item.citations),
+  };
+}
+
+module.exports = {
+  getSearchClient,
+  ensureConversationIndex,
+  toDomain,
+  toSearchDocument,
+};
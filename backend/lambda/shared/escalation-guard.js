@@ -0,0 +1,207 @@
+// Escalation request validation and abuse protection, shared by the WebSocket handler
+// (submitEscalation) and the admin API (public POST /escalations).
+const { UpdateCommand, PutCommand, DeleteCommand, QueryCommand } = require('@aws-sdk/lib-dynamodb');
+const crypto = require('crypto');
+const { ownsConversation } = require('./feedback');
+
+const FIELD_LIMITS = {
+  name: 100,
+  email: 254,
+  phone: 30,
+  question: 2000,
+};
+const MIN_QUESTION_LENGTH = 10;
+
+// Fixed-window limits on submissions; keys are counted in the rate limit table
+const RATE_LIMITS = {
+  ip: { limit: 5, windowSeconds: 60 * 60 },
+  connection: { limit: 3, windowSeconds: 10 * 60 },
+};
+
+// The same email + question within this window is treated as a resubmission
+const DUPLICATE_WINDOW_SECONDS = 24 * 60 * 60;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+
+// Validate and normalize an escalation body.
+// Returns { valid, fieldErrors: { field: message }, values: { name, email, phone, question } }
+function validateEscalation(body = {}) {
+  const text = value => (typeof value === 'string' ? value.trim() : '');
+  const values = {
+    name: text(body.name).replace(/\s+/g, ' '),
+    email: text(body.email).toLowerCase(),
+    phone: text(body.phone),
+    question: text(body.question),
+  };
+  const fieldErrors = {};
+
+  if (!values.name) {
+    fieldErrors.name = 'Name is required';
+  } else if (values.name.length > FIELD_LIMITS.name) {
+    fieldErrors.name = `Name must be at most ${FIELD_LIMITS.name} characters`;
+  }
+
+  if (!values.email) {
+    fieldErrors.email = 'Email is required';
+  } else if (values.email.length > FIELD_LIMITS.email || !EMAIL_PATTERN.test(values.email)) {
+    fieldErrors.email = 'Enter a valid email address';
+  }
+
+  if (values.phone) {
+    const digits = values.phone.replace(/\D/g, '');
+    if (values.phone.length > FIELD_LIMITS.phone || !PHONE_PATTERN.test(values.phone) || digits.length < 7 || digits.length > 15) {
+      fieldErrors.phone = 'Enter a valid phone number';
+    }
+  }
+
+  if (!values.question) {
+    fieldErrors.question = 'Question is required';
+  } else if (values.question.length < MIN_QUESTION_LENGTH) {
+    fieldErrors.question = `Please describe your question in at least ${MIN_QUESTION_LENGTH} characters`;
+  } else if (values.question.length > FIELD_LIMITS.question) {
+    fieldErrors.question = `Question must be at most ${FIELD_LIMITS.question} characters`;
+  }
+
+  return { valid: Object.keys(fieldErrors).length === 0, fieldErrors, values };
+}
+
+// Count one submission against a fixed window; returns { allowed, retryAfterSeconds }
+async function checkRateLimit(docClient, tableName, scope, id, { limit, windowSeconds }) {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const windowStart = nowSeconds - (nowSeconds % windowSeconds);
+
+  const result = await docClient.send(new UpdateCommand({
+    TableName: tableName,
+    Key: { key: `rate#escalation#${scope}#${id}#${windowStart}` },
+    UpdateExpression: 'ADD #count :one SET #ttl = if_not_exists(#ttl, :ttl)',
+    ExpressionAttributeNames: { '#count': 'count', '#ttl': 'ttl' },
+    ExpressionAttributeValues: { ':one': 1, ':ttl': windowStart + windowSeconds * 2 },
+    ReturnValues: 'UPDATED_NEW',
+  }));
+
+  return {
+    allowed: result.Attributes.count <= limit,
+    retryAfterSeconds: windowStart + windowSeconds - nowSeconds,
+  };
+}
+
+// Key for duplicate detection: same requester email and same question (case/whitespace-insensitive)
+function duplicateKey(values) {
+  const question = values.question.toLowerCase().replace(/\s+/g, ' ');
+  const hash = crypto.createHash('sha256').update(`${values.email}\n${question}`).digest('hex');
+  return `dup#escalation#${hash}`;
+}
+
+// Reserve the duplicate key for a new escalation; returns the earlier escalationId if already taken
+async function claimDuplicateKey(docClient, tableName, values, escalationId) {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const key = duplicateKey(values);
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: tableName,
+      Item: { key, escalationId, ttl: nowSeconds + DUPLICATE_WINDOW_SECONDS },
+      // TTL deletion is lazy, so an expired item counts as free
+      ConditionExpression: 'attribute_not_exists(#key) OR #ttl < :now',
+      ExpressionAttributeNames: { '#key': 'key', '#ttl': 'ttl' },
+      ExpressionAttributeValues: { ':now': nowSeconds },
+      ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
+    }));
+    return null;
+  } catch (error) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return error.Item?.escalationId?.S || error.Item?.escalationId || 'unknown';
+    }
+    throw error;
+  }
+}
+
+// Free the duplicate key when the escalation could not be saved
+async function releaseDuplicateKey(docClient, tableName, values) {
+  await docClient.send(new DeleteCommand({
+    TableName: tableName,
+    Key: { key: duplicateKey(values) },
+  }));
+}
+
+// Run every check for a new escalation in order: validation, rate limits, duplicates.
+// Returns { ok: true, values } or { ok: false, status, code, message, ... } for the caller to send back.
+async function guardEscalation({ docClient, tableName, body, escalationId, sourceIp, connectionId }) {
+  const { valid, fieldErrors, values } = validateEscalation(body);
+  if (!valid) {
+    return { ok: false, status: 400, code: 'VALIDATION_FAILED', message: 'Please correct the highlighted fields', fieldErrors };
+  }
+
+  // Without a table (e.g. local testing) only validation applies
+  if (!tableName) {
+    return { ok: true, values };
+  }
+
+  const limits = [
+    sourceIp && ['ip', sourceIp, RATE_LIMITS.ip],
+    connectionId && ['connection', connectionId, RATE_LIMITS.connection],
+  ].filter(Boolean);
+
+  for (const [scope, id, limit] of limits) {
+    const { allowed, retryAfterSeconds } = await checkRateLimit(docClient, tableName, scope, id, limit);
+    if (!allowed) {
+      console.warn(`Escalation rate limit hit (${scope})`);
+      return {
+        ok: false,
+        status: 429,
+        code: 'RATE_LIMITED',
+        message: 'Too many support requests. Please try again later.',
+        retryAfterSeconds,
+      };
+    }
+  }
+
+  const existingId = await claimDuplicateKey(docClient, tableName, values, escalationId);
+  if (existingId) {
+    return {
+      ok: false,
+      status: 409,
+      code: 'DUPLICATE',
+      message: 'We already received this request. Our team will contact you soon.',
+      escalationId: existingId,
+    };
+  }
+
+  return { ok: true, values };
+}
+
+// The chat session whose transcript an escalation links, or '' for none. The requester must opt in
+// and prove the session is theirs the way feedback does: by naming one of its conversations
+// (conversationId) whose stored sessionId matches, or that was answered on their connection.
+// The stored sessionId is used, never the one the client sent.
+async function resolveTranscriptSession({ docClient, conversationTable, body, connectionId }) {
+  const { sessionId, conversationId, attachTranscript } = body;
+  if (attachTranscript === false || typeof conversationId !== 'string' || !conversationId || !conversationTable) {
+    return '';
+  }
+
+  const result = await docClient.send(new QueryCommand({
+    TableName: conversationTable,
+    KeyConditionExpression: 'conversationId = :cid',
+    ExpressionAttributeValues: { ':cid': conversationId },
+    Limit: 1,
+  }));
+  const item = result.Items?.[0];
+  if (!item?.sessionId || !ownsConversation(item, { connectionId, sessionId })) {
+    console.warn('Escalation transcript not attached: conversation', conversationId, 'is not in the requester\'s session');
+    return '';
+  }
+  return item.sessionId;
+}
+
+module.exports = {
+  FIELD_LIMITS,
+  RATE_LIMITS,
+  validateEscalation,
+  guardEscalation,
+  checkRateLimit,
+  claimDuplicateKey,
+  releaseDuplicateKey,
+  resolveTranscriptSession,
+};
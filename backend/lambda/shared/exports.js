@@ -0,0 +1,223 @@
+// CSV / NDJSON exports of conversations, feedback and escalations, shared by the admin API
+// (GET /exports/{dataset}, direct downloads) and the export worker (export jobs written to S3).
+const { QueryCommand } = require('@aws-sdk/lib-dynamodb');
+
+const EXPORT_DATASETS = ['conversations', 'feedback', 'escalations'];
+
+const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+};
+
+// Columns of each dataset, in file order (NDJSON records use the same fields)
+const EXPORT_COLUMNS = {
+  conversations: [
+    'conversationId', 'timestamp', 'sessionId', 'question', 'retrievalQuery', 'answer', 'outcome',
+    'confidence', 'responseTimeMs', 'feedback', 'feedbackReasons', 'feedbackComment',
+    'guardrailSource', 'guardrailReasons', 'citationCount', 'citationSources', 'citationScores',
+  ],
+  feedback: [
+    'conversationId', 'timestamp', 'feedback', 'feedbackTs', 'feedbackReasons', 'feedbackComment',
+    'question', 'answerPreview', 'outcome', 'confidence',
+  ],
+  escalations: [
+    'escalationId', 'requestDate', 'status', 'name', 'email', 'phone', 'question', 'assignee',
+    'sessionId', 'noteCount', 'updatedAt', 'archivedAt',
+  ],
+};
+
+// Lists are written as one "; "-separated cell
+function joinList(values) {
+  return (values || []).join('; ');
+}
+
+// Citations are stored as a JSON string
+function parseCitations(citations) {
+  try {
+    return citations ? JSON.parse(citations) : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+// Flat export record for an item of each dataset (citations flattened into list cells)
+const ROW_BUILDERS = {
+  conversations: item => {
+    const citations = parseCitations(item.citations);
+    return {
+      conversationId: item.conversationId,
+      timestamp: item.timestamp,
+      sessionId: item.sessionId || '',
+      question: item.question || '',
+      retrievalQuery: item.retrievalQuery || '',
+      answer: item.answer || '',
+      outcome: item.outcome || 'answered',
+      confidence: item.confidence ?? null,
+      responseTimeMs: item.responseTimeMs ?? null,
+      feedback: item.feedback || null,
+      feedbackReasons: joinList(item.feedbackReasons),
+      feedbackComment: item.feedbackComment || '',
+      guardrailSource: item.guardrailSource || null,
+      guardrailReasons: joinList(item.guardrailReasons),
+      citationCount: citations.length,
+      citationSources: joinList(citations.map(c => c.source)),
+      citationScores: joinList(citations.map(c => (typeof c.score === 'number' ? c.score.toFixed(3) : ''))),
+    };
+  },
+  feedback: item => ({
+    conversationId: item.conversationId,
+    timestamp: item.timestamp,
+    feedback: item.feedback,
+    feedbackTs: item.feedbackTs || null,
+    feedbackReasons: joinList(item.feedbackReasons),
+    feedbackComment: item.feedbackComment || '',
+    question: item.question || '',
+    answerPreview: item.answerPreview || item.answer?.substring(0, 500) || '',
+    outcome: item.outcome || 'answered',
+    confidence: item.confidence ?? null,
+  }),
+  escalations: item => ({
+    escalationId: item.escalationId,
+    requestDate: item.timestamp,
+    status: item.status || 'pending',
+    name: item.name || '',
+    email: item.email || '',
+    phone: item.phone || '',
+    question: item.question || '',
+    assignee: item.assignee || null,
+    sessionId: item.sessionId || '',
+    noteCount: (item.notes || []).length,
+    updatedAt: item.updatedAt || item.timestamp,
+    archivedAt: item.archivedAt || null,
+  }),
+};
+
+// Whether an item passes the export filters of its dataset (soft-deleted conversations never do)
+function matchesFilters(dataset, item, filters) {
+  if (item.deletedAt) return false;
+  if (dataset === 'conversations') {
+    if (filters.outcomes && !filters.outcomes.includes(item.outcome || 'answered')) return false;
+    if (filters.feedback === 'none') return !item.feedback;
+    if (filters.feedback) return item.feedback === filters.feedback;
+    return true;
+  }
+  if (dataset === 'feedback') {
+    return !filters.reason || (item.feedbackReasons || []).includes(filters.reason);
+  }
+  return !filters.statuses || filters.statuses.includes(item.status || 'pending');
+}
+
+// Items of one index partition between two timestamps (inclusive), oldest first
+async function* queryPartition(docClient, { tableName, indexName, partitionKey, partition, start, end }) {
+  let lastKey = undefined;
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: tableName,
+      IndexName: indexName,
+      KeyConditionExpression: '#pk = :pk AND #ts BETWEEN :start AND :end',
+      ExpressionAttributeNames: { '#pk': partitionKey, '#ts': 'timestamp' },
+      ExpressionAttributeValues: { ':pk': partition, ':start': start, ':end': end },
+      ExclusiveStartKey: lastKey,
+    }));
+    yield* result.Items || [];
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+}
+
+// Merge partitions that are each oldest first into one stream, oldest first
+async function* mergeByTimestamp(streams) {
+  const heads = await Promise.all(streams.map(async stream => ({ stream, next: await stream.next() })));
+  let active = heads.filter(h => !h.next.done);
+  while (active.length > 0) {
+    const oldest = active.reduce((a, b) => (b.next.value.timestamp < a.next.value.timestamp ? b : a));
+    yield oldest.next.value;
+    oldest.next = await oldest.stream.next();
+    active = active.filter(h => !h.next.done);
+  }
+}
+
+// UTC dates (date index partitions) from one timestamp to another
+function getUtcDates(start, end) {
+  const dates = [];
+  for (let date = start.substring(0, 10); date <= end.substring(0, 10);) {
+    dates.push(date);
+    date = new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+  }
+  return dates;
+}
+
+// Items of an export request, oldest first. Reads index partitions only (no table scans):
+// conversations and escalations by date, feedback by its pos/neg partitions.
+// tables: { conversationTable, escalationTable, dateIndex, feedbackIndex, escalationDateIndex }
+// request: { dataset, start, end (ISO, end exclusive), filters }
+async function* iterateExportItems(docClient, tables, request) {
+  const { dataset, start, filters = {} } = request;
+  const end = new Date(Date.parse(request.end) - 1).toISOString();
+
+  let items;
+  if (dataset === 'feedback') {
+    const partitions = filters.feedback ? [filters.feedback] : ['pos', 'neg'];
+    items = mergeByTimestamp(partitions.map(partition => queryPartition(docClient, {
+      tableName: tables.conversationTable,
+      indexName: tables.feedbackIndex,
+      partitionKey: 'feedback',
+      partition,
+      start,
+      end,
+    })));
+  } else {
+    const isEscalations = dataset === 'escalations';
+    items = (async function* () {
+      for (const date of getUtcDates(start, end)) {
+        yield* queryPartition(docClient, {
+          tableName: isEscalations ? tables.escalationTable : tables.conversationTable,
+          indexName: isEscalations ? tables.escalationDateIndex : tables.dateIndex,
+          partitionKey: 'date',
+          partition: date,
+          start,
+          end,
+        });
+      }
+    })();
+  }
+
+  for await (const item of items) {
+    if (matchesFilters(dataset, item, filters)) yield item;
+  }
+}
+
+// One CSV cell: quoted when needed, and formula-like text prefixed so spreadsheets show it as text
+function toCsvCell(value) {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Start of the file (CSV header row with a BOM so spreadsheets read UTF-8; nothing for NDJSON)
+function formatExportHeader(dataset, format) {
+  return format === 'csv' ? `\ufeff${EXPORT_COLUMNS[dataset].join(',')}\r\n` : '';
+}
+
+// One item as a CSV line or NDJSON record
+function formatExportRow(dataset, format, item) {
+  const row = ROW_BUILDERS[dataset](item);
+  if (format === 'ndjson') {
+    return `${JSON.stringify(row)}\n`;
+  }
+  return `${EXPORT_COLUMNS[dataset].map(column => toCsvCell(row[column])).join(',')}\r\n`;
+}
+
+// Download file name, e.g. askusda-feedback-2025-01-01-to-2025-01-31.csv
+function getExportFileName(request) {
+  return `askusda-${request.dataset}-${request.from}-to-${request.to}.${EXPORT_FORMATS[request.format].extension}`;
+}
+
+module.exports = {
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  iterateExportItems,
+  formatExportHeader,
+  formatExportRow,
+  getExportFileName,
+};
@@ -0,0 +1,94 @@
+// Structured feedback details (reason categories and comment on a thumbs-down) and the conversation
+// ownership check, shared by the WebSocket handler (submitFeedback), the admin API (POST /feedback)
+// and the metrics aggregator.
+
+// Reasons a user can pick for negative feedback (also the rollup counter suffixes)
+const FEEDBACK_REASONS = [
+  { value: 'incorrect', label: 'Incorrect' },
+  { value: 'outdated', label: 'Outdated' },
+  { value: 'not_relevant', label: 'Not relevant' },
+  { value: 'missing_sources', label: 'Missing sources' },
+  { value: 'hard_to_understand', label: 'Hard to understand' },
+];
+const FEEDBACK_REASON_VALUES = FEEDBACK_REASONS.map(r => r.value);
+const MAX_FEEDBACK_COMMENT_LENGTH = 1000;
+
+// Validate the optional details sent with feedback.
+// Returns { error } or { details } where details is null when none were sent.
+function validateFeedbackDetails(feedbackValue, body = {}) {
+  const hasDetails = body.reasons !== undefined || body.comment !== undefined;
+  if (!hasDetails) {
+    return { details: null };
+  }
+
+  if (feedbackValue !== 'neg') {
+    return { error: 'reasons and comment are only accepted with negative feedback' };
+  }
+
+  const reasons = body.reasons ?? [];
+  if (!Array.isArray(reasons) || reasons.some(r => !FEEDBACK_REASON_VALUES.includes(r))) {
+    return { error: `reasons must be a list of: ${FEEDBACK_REASON_VALUES.join(', ')}` };
+  }
+
+  if (body.comment != null && typeof body.comment !== 'string') {
+    return { error: 'comment must be a string' };
+  }
+  const comment = (body.comment || '').trim();
+  if (comment.length > MAX_FEEDBACK_COMMENT_LENGTH) {
+    return { error: `comment must be at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters` };
+  }
+
+  return { details: { reasons: [...new Set(reasons)], comment } };
+}
+
+// Whether the caller owns a stored conversation: it was answered on their connection, or in the
+// session they name. Deleted conversations belong to no one.
+function ownsConversation(item, { connectionId, sessionId } = {}) {
+  if (!item || item.deletedAt) return false;
+  return Boolean(
+    (connectionId && item.connectionId === connectionId) ||
+    (sessionId && item.sessionId && item.sessionId === sessionId)
+  );
+}
+
+// Update expression for feedback on a conversation item. Positive feedback clears any details;
+// negative feedback without details keeps the ones already given.
+function buildFeedbackUpdate(feedbackValue, details) {
+  const set = ['feedback = :feedback', 'feedbackTs = :feedbackTs'];
+  const remove = [];
+  const values = {
+    ':feedback': feedbackValue,
+    ':feedbackTs': new Date().toISOString(),
+  };
+
+  if (feedbackValue === 'pos') {
+    remove.push('feedbackReasons', 'feedbackComment');
+  } else if (details) {
+    if (details.reasons.length > 0) {
+      set.push('feedbackReasons = :reasons');
+      values[':reasons'] = details.reasons;
+    } else {
+      remove.push('feedbackReasons');
+    }
+    if (details.comment) {
+      set.push('feedbackComment = :comment');
+      values[':comment'] = details.comment;
+    } else {
+      remove.push('feedbackComment');
+    }
+  }
+
+  return {
+    UpdateExpression: `SET ${set.join(', ')}${remove.length > 0 ? ` REMOVE ${remove.join(', ')}` : ''}`,
+    ExpressionAttributeValues: values,
+  };
+}
+
+module.exports = {
+  FEEDBACK_REASONS,
+  FEEDBACK_REASON_VALUES,
+  MAX_FEEDBACK_COMMENT_LENGTH,
+  validateFeedbackDetails,
+  ownsConversation,
+  buildFeedbackUpdate,
+};
@@ -0,0 +1,42 @@
+// Two-factor check for admin users, shared by the admin API (every protected route) and the
+// WebSocket handler (live chat agents). MFA is optional on the admin user pool (see
+// backend-stack.ts), so tokens of users who have not set up an authenticator app are refused here.
+const { AdminGetUserCommand } = require('@aws-sdk/client-cognito-identity-provider');
+
+const MFA_REQUIRED_MESSAGE = 'Set up an authenticator app: sign out and sign in again to the admin dashboard';
+
+// Users known to have TOTP, with the time of the check. Only positive results are cached, so a
+// user who finishes setup is let in at once; a reset takes effect within the cache lifetime
+// (their sessions are also signed out).
+const MFA_CACHE_TTL_MS = 5 * 60 * 1000;
+const totpUsers = new Map();
+
+// Whether the user has an authenticator app (software token MFA) enabled
+async function hasTotpEnabled(cognitoClient, userPoolId, username) {
+  if (!username) return false;
+  const checkedAt = totpUsers.get(username);
+  if (checkedAt && Date.now() - checkedAt < MFA_CACHE_TTL_MS) return true;
+
+  const user = await cognitoClient.send(new AdminGetUserCommand({
+    UserPoolId: userPoolId,
+    Username: username,
+  }));
+  const enabled = (user.UserMFASettingList || []).includes('SOFTWARE_TOKEN_MFA');
+  if (enabled) {
+    totpUsers.set(username, Date.now());
+  } else {
+    totpUsers.delete(username);
+  }
+  return enabled;
+}
+
+// Drop a user from the cache (after their MFA is reset)
+function forgetTotpUser(username) {
+  totpUsers.delete(username);
+}
+
+module.exports = {
+  MFA_REQUIRED_MESSAGE,
+  hasTotpEnabled,
+  forgetTotpUser,
+};
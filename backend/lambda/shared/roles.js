@@ -0,0 +1,61 @@
+// Admin roles (Cognito groups of the admin user pool) and what each may do, shared by the
+// admin API (per-route checks) and the WebSocket handler (live chat agents).
+// The dashboard mirrors ROLE_PERMISSIONS in frontend/app/context/AdminAuthContext.tsx.
+
+// Group names, lowest to highest access
+const ROLES = ['viewer', 'analyst', 'support_agent', 'administrator'];
+
+// Permissions, with the action they allow (used in 403 messages)
+const PERMISSIONS = {
+  'dashboard:read': 'view the dashboard',
+  'data:export': 'export data',
+  'escalations:update': 'update escalations',
+  'escalations:archive': 'archive escalations',
+  'conversations:manage': 'delete or redact conversations',
+  'config:update': 'change the retrieval configuration',
+  'livechat:agent': 'answer live chats',
+  'users:manage': 'manage admin users',
+  'audit:read': 'view the audit log',
+};
+
+const ROLE_PERMISSIONS = {
+  viewer: ['dashboard:read'],
+  analyst: ['dashboard:read', 'data:export'],
+  support_agent: ['dashboard:read', 'escalations:update', 'livechat:agent'],
+  administrator: Object.keys(PERMISSIONS),
+};
+
+// Roles in the cognito:groups claim. A verified token has a list; the HTTP API JWT authorizer
+// passes it as a string such as "[analyst support_agent]".
+function getRoles(claims) {
+  const groups = claims?.['cognito:groups'];
+  if (!groups) return [];
+  const names = Array.isArray(groups) ? groups : String(groups).replace(/^\[|\]$/g, '').split(/[\s,]+/);
+  return ROLES.filter(role => names.includes(role));
+}
+
+// Whether any of the roles grants the permission
+function hasPermission(roles, permission) {
+  return roles.some(role => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+// Roles that grant a permission
+function getRolesWith(permission) {
+  return ROLES.filter(role => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+// Reason given when the roles do not grant a permission
+function describeDenial(roles, permission) {
+  if (roles.length === 0) {
+    return 'Your account has not been assigned a role. Ask an administrator to add you to a group.';
+  }
+  return `Your role (${roles.join(', ')}) does not allow you to ${PERMISSIONS[permission]}. Required: ${getRolesWith(permission).join(' or ')}.`;
+}
+
+module.exports = {
+  ROLES,
+  getRoles,
+  hasPermission,
+  getRolesWith,
+  describeDenial,
+};
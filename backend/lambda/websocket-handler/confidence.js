@@ -0,0 +1,40 @@
+// Confidence gating: scoring retrieval results with the configured strategy and filling the
+// low-confidence fallback message. Pure functions, kept apart from the handler for unit tests.
+
+// Score retrieval results according to the configured strategy
+function scoreConfidence(results, config) {
+  if (results.length === 0) {
+    return 0;
+  }
+
+  const scores = results.map(r => r.score).sort((a, b) => b - a);
+  const topScores = scores.slice(0, Math.max(1, config.topK));
+
+  switch (config.scoringStrategy) {
+    case 'mean':
+      return topScores.reduce((sum, score) => sum + score, 0) / topScores.length;
+
+    case 'weighted': {
+      // Rank-weighted mean: the best result counts most (weights 1, 1/2, 1/3, ...)
+      const weights = topScores.map((_, i) => 1 / (i + 1));
+      const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+      return topScores.reduce((sum, score, i) => sum + score * weights[i], 0) / totalWeight;
+    }
+
+    case 'max':
+    default:
+      return scores[0];
+  }
+}
+
+// Fill the low-confidence fallback template ({question}, {confidence} placeholders)
+function renderFallbackMessage(template, question, confidence) {
+  return template
+    .replace(/\{question\}/g, question)
+    .replace(/\{confidence\}/g, `${Math.round(confidence * 100)}%`);
+}
+
+module.exports = {
+  scoreConfidence,
+  renderFallbackMessage,
+};
@@ -1,52 +1,177 @@
 const { DynamoDBClient } = require('@aws-sdk/client-dynamodb');
-const { DynamoDBDocumentClient, PutCommand, QueryCommand } = require('@aws-sdk/lib-dynamodb');
+const { DynamoDBDocumentClient, PutCommand, GetCommand, QueryCommand, UpdateCommand, DeleteCommand } = require('@aws-sdk/lib-dynamodb');
 const { BedrockAgentRuntimeClient, RetrieveCommand } = require('@aws-sdk/client-bedrock-agent-runtime');
-const { BedrockRuntimeClient, ApplyGuardrailCommand, InvokeModelCommand } = require('@aws-sdk/client-bedrock-runtime');
+const { BedrockRuntimeClient, ApplyGuardrailCommand, ConverseCommand, ConverseStreamCommand } = require('@aws-sdk/client-bedrock-runtime');
 const { ApiGatewayManagementApiClient, PostToConnectionCommand } = require('@aws-sdk/client-apigatewaymanagementapi');
+const { CognitoIdentityProviderClient } = require('@aws-sdk/client-cognito-identity-provider');
+const { CognitoJwtVerifier } = require('aws-jwt-verify');
 const { v4: uuidv4 } = require('uuid');
+const { guardEscalation, releaseDuplicateKey, resolveTranscriptSession } = require('./shared/escalation-guard');
+const { validateFeedbackDetails, ownsConversation, buildFeedbackUpdate } = require('./shared/feedback');
+const { getRoles, hasPermission, describeDenial } = require('./shared/roles');
+const { MFA_REQUIRED_MESSAGE, hasTotpEnabled } = require('./shared/mfa');
+const { scoreConfidence, renderFallbackMessage } = require('./confidence');
 
 // Initialize clients
 const dynamoClient = new DynamoDBClient({});
 const docClient = DynamoDBDocumentClient.from(dynamoClient);
 const bedrockAgentClient = new BedrockAgentRuntimeClient({});
 const bedrockRuntimeClient = new BedrockRuntimeClient({});
+const cognitoClient = new CognitoIdentityProviderClient({});
 
 // Environment variables
 const KNOWLEDGE_BASE_ID = process.env.KNOWLEDGE_BASE_ID;
 const CONVERSATION_TABLE = process.env.CONVERSATION_TABLE;
 const ESCALATION_TABLE = process.env.ESCALATION_TABLE;
+const SESSION_TABLE = process.env.SESSION_TABLE;
+const CONFIG_TABLE = process.env.CONFIG_TABLE;
+const GUARDRAIL_EVENTS_TABLE = process.env.GUARDRAIL_EVENTS_TABLE;
 const GUARDRAIL_ID = process.env.GUARDRAIL_ID;
 const GUARDRAIL_VERSION = process.env.GUARDRAIL_VERSION || 'DRAFT';
+// 'open' lets text through when the guardrail call itself fails, 'closed' blocks it
+const GUARDRAIL_FAILURE_MODE = process.env.GUARDRAIL_FAILURE_MODE || 'open';
 const WEBSOCKET_ENDPOINT = process.env.WEBSOCKET_ENDPOINT;
+const CONNECTIONS_TABLE = process.env.CONNECTIONS_TABLE;
+const CONNECTION_ROLE_INDEX = process.env.CONNECTION_ROLE_INDEX || 'role-index';
+const HANDOFF_STATUS_INDEX = process.env.HANDOFF_STATUS_INDEX || 'handoffStatus-requestedAt-index';
+const USER_POOL_ID = process.env.USER_POOL_ID;
+const USER_POOL_CLIENT_ID = process.env.USER_POOL_CLIENT_ID;
+const RATE_LIMIT_TABLE = process.env.RATE_LIMIT_TABLE;
+
+// Amazon Nova Pro via cross-region inference profile
+const MODEL_ID = 'us.amazon.nova-pro-v1:0';
+
+// Conversation memory - number of recent turns kept verbatim per session.
+// Older turns are folded into a running summary.
+const HISTORY_MAX_TURNS = parseInt(process.env.HISTORY_MAX_TURNS || '6', 10);
+const SESSION_TTL_SECONDS = 24 * 60 * 60; // 24 hours of inactivity
+
+// Retrieval / confidence gating defaults - used until an admin saves a config (version 0)
+const DEFAULT_RETRIEVAL_CONFIG = {
+  version: 0,
+  confidenceThreshold: 0.5,
+  scoringStrategy: 'max', // 'max' | 'mean' (mean of top-k) | 'weighted' (rank-weighted mean of top-k)
+  topK: 3,
+  numberOfResults: 5,
+  fallbackMessage: "I'm not very confident about the answer to your question. For accurate information, I'd recommend visiting [usda.gov](https://www.usda.gov) or clicking the **Customer Support** button (headphone icon) in the top right corner to speak with a representative who can better assist you.",
+};
+const CONFIG_CACHE_TTL_MS = 60 * 1000;
+
+// Streamed answers are released to the client sentence by sentence, each release checked by the output
+// guardrail first: text is held until it reaches a sentence end past GUARDRAIL_STREAM_MIN_CHARS, or
+// GUARDRAIL_STREAM_MAX_CHARS without one. Every check is a guardrail call (typically a few hundred ms),
+// so text appears one check behind generation and long answers take one extra call per release.
+const GUARDRAIL_STREAM_MIN_CHARS = 60;
+const GUARDRAIL_STREAM_MAX_CHARS = 400;
+const SENTENCE_END_PATTERN = /[.!?]\s+|\n+/g;
+
+// Live agent handoff
+const CONNECTION_TTL_SECONDS = 3 * 60 * 60; // API Gateway closes WebSocket connections after 2 hours
+const MAX_HANDOFF_MESSAGE_LENGTH = 2000;
+const CONNECTION_ID_PATTERN = /^[A-Za-z0-9_=+/-]{1,128}$/; // API Gateway connection ids, e.g. "L0SM9cOFvHcCIhw="
+const HANDOFF_CONTEXT_TURNS = 3; // Recent bot exchanges shown to the agent who claims the chat
+
+const HANDOFF_MESSAGES = {
+  waiting: 'Connecting you with a USDA representative. Please stay in this chat - someone will be with you shortly.',
+  active: 'A USDA representative has joined the chat.',
+  requeued: 'Your representative was disconnected. Connecting you with another representative...',
+  ended: 'Your chat with a USDA representative has ended. You can keep asking AskUSDA questions.',
+  unavailable: 'No USDA representatives are available right now. Please use the Customer Support form and our team will get back to you.',
+};
+
+const GUARDRAIL_BLOCKED_MESSAGES = {
+  INPUT: "I'm sorry, but I can't help with that request. Please ask about USDA programs and services.",
+  OUTPUT: "I'm sorry, but I can't provide that response. Please try rephrasing your question or visit [usda.gov](https://www.usda.gov).",
+};
+
+// Config is cached per Lambda container and refreshed after CONFIG_CACHE_TTL_MS
+let cachedConfig = null;
+let cachedConfigAt = 0;
+
+// API Gateway management client is created lazily and reused across sends
+// (streaming posts one frame per generated chunk)
+let apiGatewayClient = null;
+
+function getApiGatewayClient() {
+  if (!apiGatewayClient) {
+    // The WEBSOCKET_ENDPOINT is the callback URL which already includes the stage
+    // Format: https://{api-id}.execute-api.{region}.amazonaws.com/{stage}
+    const endpoint = WEBSOCKET_ENDPOINT.replace('wss://', 'https://');
+    console.log('Creating API Gateway client, endpoint:', endpoint);
+    apiGatewayClient = new ApiGatewayManagementApiClient({ endpoint });
+  }
+  return apiGatewayClient;
+}
 
 // Helper to send message to WebSocket client
 async function sendToClient(connectionId, data) {
-  // The WEBSOCKET_ENDPOINT is the callback URL which already includes the stage
-  // Format: https://{api-id}.execute-api.{region}.amazonaws.com/{stage}
-  const endpoint = WEBSOCKET_ENDPOINT.replace('wss://', 'https://');
-  
-  console.log('Sending to client, endpoint:', endpoint, 'connectionId:', connectionId);
-  
-  const apiGatewayClient = new ApiGatewayManagementApiClient({
-    endpoint: endpoint,
-  });
-
   try {
-    await apiGatewayClient.send(new PostToConnectionCommand({
+    await getApiGatewayClient().send(new PostToConnectionCommand({
       ConnectionId: connectionId,
       Data: JSON.stringify(data),
     }));
   } catch (error) {
     console.error('Error sending to client:', error);
-    if (error.statusCode === 410) {
+    if (isConnectionGone(error)) {
       console.log('Client disconnected');
     }
     throw error;
   }
 }
 
-// Apply guardrails to input
-async function applyGuardrails(text) {
+// Whether a send failed because the client has disconnected (API Gateway answers 410 GoneException)
+function isConnectionGone(error) {
+  return error.name === 'GoneException' || error.statusCode === 410 || error.$metadata?.httpStatusCode === 410;
+}
+
+// Send to a connection that may already be gone; returns false instead of throwing
+async function trySendToClient(connectionId, data) {
+  try {
+    await sendToClient(connectionId, data);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Helper to send a partial answer chunk to WebSocket client
+async function streamToClient(connectionId, chunk, isComplete = false, extra = {}) {
+  await sendToClient(connectionId, { type: 'stream', chunk, isComplete, ...extra });
+}
+
+// Collect the policies that made the guardrail intervene (e.g. HATE, PROMPT_ATTACK, PII:EMAIL)
+function getGuardrailReasons(assessments = []) {
+  const reasons = new Set();
+
+  for (const assessment of assessments) {
+    assessment.contentPolicy?.filters?.forEach(f => {
+      if (f.action === 'BLOCKED') reasons.add(f.type);
+    });
+    assessment.topicPolicy?.topics?.forEach(t => {
+      if (t.action === 'BLOCKED') reasons.add(`TOPIC:${t.name}`);
+    });
+    assessment.wordPolicy?.customWords?.forEach(w => {
+      if (w.action === 'BLOCKED') reasons.add('CUSTOM_WORD');
+    });
+    assessment.wordPolicy?.managedWordLists?.forEach(w => {
+      if (w.action === 'BLOCKED') reasons.add(w.type);
+    });
+    assessment.sensitiveInformationPolicy?.piiEntities?.forEach(p => {
+      if (p.action !== 'NONE') reasons.add(`PII:${p.type}`);
+    });
+    assessment.sensitiveInformationPolicy?.regexes?.forEach(r => {
+      if (r.action !== 'NONE') reasons.add(`REGEX:${r.name}`);
+    });
+    assessment.contextualGroundingPolicy?.filters?.forEach(f => {
+      if (f.action === 'BLOCKED') reasons.add(f.type);
+    });
+  }
+
+  return [...reasons];
+}
+
+// Apply guardrails to user input (source 'INPUT') or generated text (source 'OUTPUT')
+async function applyGuardrails(text, source = 'INPUT') {
   if (!GUARDRAIL_ID) {
     return { blocked: false, text };
   }
@@ -55,26 +180,162 @@ async function applyGuardrails(text) {
     const response = await bedrockRuntimeClient.send(new ApplyGuardrailCommand({
       guardrailIdentifier: GUARDRAIL_ID,
       guardrailVersion: GUARDRAIL_VERSION,
-      source: 'INPUT',
+      source,
       content: [{ text: { text } }],
     }));
 
     if (response.action === 'GUARDRAIL_INTERVENED') {
+      const reasons = getGuardrailReasons(response.assessments);
+      console.log(`Guardrail intervened on ${source}:`, reasons);
       return {
         blocked: true,
-        message: response.outputs?.[0]?.text || "I'm sorry, but I can't help with that request. Please ask about USDA programs and services.",
+        message: response.outputs?.[0]?.text || GUARDRAIL_BLOCKED_MESSAGES[source],
+        reasons,
       };
     }
 
     return { blocked: false, text };
   } catch (error) {
-    console.error('Guardrail error:', error);
+    console.error(`Guardrail error (${source}, failure mode: ${GUARDRAIL_FAILURE_MODE}):`, error);
+    if (GUARDRAIL_FAILURE_MODE === 'closed') {
+      return {
+        blocked: true,
+        message: GUARDRAIL_BLOCKED_MESSAGES[source],
+        reasons: ['GUARDRAIL_ERROR'],
+      };
+    }
     return { blocked: false, text };
   }
 }
 
+// Load the latest retrieval config version (cached)
+async function getRetrievalConfig() {
+  if (cachedConfig && Date.now() - cachedConfigAt < CONFIG_CACHE_TTL_MS) {
+    return cachedConfig;
+  }
+
+  if (!CONFIG_TABLE) {
+    return DEFAULT_RETRIEVAL_CONFIG;
+  }
+
+  try {
+    const result = await docClient.send(new QueryCommand({
+      TableName: CONFIG_TABLE,
+      KeyConditionExpression: 'configKey = :key',
+      ExpressionAttributeValues: { ':key': 'retrieval' },
+      ScanIndexForward: false, // Highest version first
+      Limit: 1,
+    }));
+
+    cachedConfig = { ...DEFAULT_RETRIEVAL_CONFIG, ...(result.Items?.[0] || {}) };
+    cachedConfigAt = Date.now();
+    console.log('Loaded retrieval config version:', cachedConfig.version);
+  } catch (error) {
+    // Keep serving the last known config (or defaults) if the table can't be read
+    console.error('Error loading retrieval config:', error);
+    if (!cachedConfig) {
+      return DEFAULT_RETRIEVAL_CONFIG;
+    }
+  }
+
+  return cachedConfig;
+}
+
+// Load conversation memory (summary + recent turns) for a session
+async function getSessionMemory(sessionId) {
+  const emptyMemory = { summary: '', turns: [] };
+  if (!SESSION_TABLE || !sessionId) {
+    return emptyMemory;
+  }
+
+  try {
+    const result = await docClient.send(new GetCommand({
+      TableName: SESSION_TABLE,
+      Key: { sessionId },
+    }));
+
+    if (!result.Item) {
+      return emptyMemory;
+    }
+
+    return {
+      summary: result.Item.summary || '',
+      turns: result.Item.turns || [],
+    };
+  } catch (error) {
+    // Memory is best-effort - answer the question standalone if it can't be loaded
+    console.error('Error loading session memory:', error);
+    return emptyMemory;
+  }
+}
+
+// Fold older turns into the running conversation summary
+async function summarizeTurns(previousSummary, turns) {
+  const transcript = turns
+    .map(t => `User: ${t.question}\nAssistant: ${t.answer}`)
+    .join('\n\n');
+
+  const prompt = `Summarize the following conversation between a user and AskUSDA, a USDA assistant, in at most 5 sentences.
+Keep the programs, topics, locations and user details (e.g. farmer, rancher, state) that later questions may refer to.
+
+${previousSummary ? `Earlier summary:\n${previousSummary}\n\n` : ''}Conversation:
+${transcript}
+
+Summary:`;
+
+  const response = await bedrockRuntimeClient.send(new ConverseCommand({
+    modelId: MODEL_ID,
+    messages: [{ role: 'user', content: [{ text: prompt }] }],
+    inferenceConfig: {
+      maxTokens: 300,
+      temperature: 0.2,
+    },
+  }));
+
+  return response.output?.message?.content?.[0]?.text?.trim() || previousSummary;
+}
+
+// Append a completed turn to session memory, summarizing turns that fall out of the window
+async function saveSessionTurn(sessionId, memory, question, answer, retrievalQuery, configVersion) {
+  if (!SESSION_TABLE || !sessionId) {
+    return;
+  }
+
+  const now = new Date();
+  let summary = memory.summary;
+  let turns = [...memory.turns, { question, retrievalQuery, answer, configVersion, timestamp: now.toISOString() }];
+
+  if (turns.length > HISTORY_MAX_TURNS) {
+    const overflow = turns.slice(0, turns.length - HISTORY_MAX_TURNS);
+    turns = turns.slice(-HISTORY_MAX_TURNS);
+
+    try {
+      summary = await summarizeTurns(summary, overflow);
+      console.log('Summarized', overflow.length, 'older turn(s) for session', sessionId);
+    } catch (error) {
+      // Keep the previous summary; the overflowed turns are dropped
+      console.error('Error summarizing session history:', error);
+    }
+  }
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: SESSION_TABLE,
+      Item: {
+        sessionId,
+        summary,
+        turns,
+        updatedAt: now.toISOString(),
+        ttl: Math.floor(now.getTime() / 1000) + SESSION_TTL_SECONDS,
+      },
+    }));
+  } catch (error) {
+    console.error('Error saving session memory:', error);
+  }
+}
+
 // Step 1: Retrieve relevant chunks from Knowledge Base with confidence scores
-async function retrieveFromKnowledgeBase(question) {
+async function retrieveFromKnowledgeBase(question, numberOfResults) {
   console.log('=== STEP 1: RETRIEVING FROM KNOWLEDGE BASE ===');
   console.log('Question:', question);
   console.log('Knowledge Base ID:', KNOWLEDGE_BASE_ID);
@@ -86,7 +347,7 @@ async function retrieveFromKnowledgeBase(question) {
     },
     retrievalConfiguration: {
       vectorSearchConfiguration: {
-        numberOfResults: 5,
+        numberOfResults,
       },
     },
   };
@@ -138,9 +399,22 @@ async function retrieveFromKnowledgeBase(question) {
   }
 }
 
-// Step 2: Generate answer using retrieved context
-async function generateAnswer(question, retrievedResults) {
-  console.log('=== STEP 2: GENERATING ANSWER ===');
+// How much of the pending answer text can be checked and released: everything up to its last
+// sentence end once it is long enough, or all of it once it reaches the maximum (0 = keep waiting)
+function getReleasableLength(pending) {
+  if (pending.length >= GUARDRAIL_STREAM_MAX_CHARS) return pending.length;
+  if (pending.length < GUARDRAIL_STREAM_MIN_CHARS) return 0;
+
+  let end = 0;
+  for (const match of pending.matchAll(SENTENCE_END_PATTERN)) {
+    end = match.index + match[0].length;
+  }
+  return end;
+}
+
+// Step 2: Generate answer using retrieved context, streaming chunks to the client as they arrive
+async function generateAnswer(connectionId, question, retrievedResults, memory) {
+  console.log('=== STEP 2: GENERATING ANSWER (STREAMING) ===');
   
   // Build context from retrieved results
   const context = retrievedResults
@@ -149,8 +423,12 @@ async function generateAnswer(question, retrievedResults) {
 
   const prompt = `You are AskUSDA, a helpful assistant for the United States Department of Agriculture. 
 Answer the user's question based ONLY on the provided context. If the context doesn't contain enough information to answer the question, say so.
+Use the earlier conversation only to understand what the question refers to.
 Be concise, accurate, and helpful. Format your response using markdown when appropriate.
-
+${memory.summary ? `
+Summary of earlier conversation:
+${memory.summary}
+` : ''}
 Context:
 ${context}
 
@@ -158,45 +436,85 @@ User Question: ${question}
 
 Answer:`;
 
+  // Recent turns are replayed as prior messages so the model sees the dialogue
+  const historyMessages = memory.turns.flatMap(t => [
+    { role: 'user', content: [{ text: t.question }] },
+    { role: 'assistant', content: [{ text: t.answer }] },
+  ]);
+
   console.log('Prompt length:', prompt.length);
+  console.log('History turns:', memory.turns.length, 'Has summary:', !!memory.summary);
+  console.log('Using model ID:', MODEL_ID);
 
-  // Use Amazon Nova Pro via inference profile
-  const region = process.env.AWS_REGION || 'us-west-2';
-  const modelId = `us.amazon.nova-pro-v1:0`;
-  
-  const requestBody = {
-    messages: [
-      {
-        role: 'user',
-        content: [{ text: prompt }],
+  try {
+    const response = await bedrockRuntimeClient.send(new ConverseStreamCommand({
+      modelId: MODEL_ID,
+      messages: [
+        ...historyMessages,
+        {
+          role: 'user',
+          content: [{ text: prompt }],
+        },
+      ],
+      inferenceConfig: {
+        maxTokens: 2048,
+        temperature: 0.7,
+        topP: 0.9,
       },
-    ],
-    inferenceConfig: {
-      maxTokens: 2048,
-      temperature: 0.7,
-      topP: 0.9,
-    },
-  };
+    }));
 
-  console.log('Using model ID:', modelId);
+    let answer = '';
+    let pending = ''; // Generated text not yet checked and sent
+    let outputCheck = { blocked: false };
 
-  try {
-    const response = await bedrockRuntimeClient.send(new InvokeModelCommand({
-      modelId: modelId,
-      contentType: 'application/json',
-      accept: 'application/json',
-      body: JSON.stringify(requestBody),
-    }));
+    // Release the first `length` characters of pending text once they pass the output guardrail
+    const flush = async (length = pending.length) => {
+      if (!length) return;
+      const text = pending.substring(0, length);
+      outputCheck = await applyGuardrails(text, 'OUTPUT');
+      if (outputCheck.blocked) return;
+      await streamToClient(connectionId, text);
+      pending = pending.substring(length);
+    };
 
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-    const answer = responseBody.output?.message?.content?.[0]?.text || 
-                   responseBody.content?.[0]?.text ||
-                   "I couldn't generate a response. Please try again.";
+    for await (const event of response.stream) {
+      const chunk = event.contentBlockDelta?.delta?.text;
+      if (chunk) {
+        answer += chunk;
+        pending += chunk;
+        // Without a guardrail every chunk is sent as soon as it arrives
+        await flush(GUARDRAIL_ID ? getReleasableLength(pending) : pending.length);
+        if (outputCheck.blocked) break; // Stop generating - the rest is discarded
+      }
+
+      if (event.messageStop) {
+        console.log('Stop reason:', event.messageStop.stopReason);
+      }
+
+      if (event.metadata?.usage) {
+        console.log('Token usage:', event.metadata.usage);
+      }
+    }
+
+    if (!outputCheck.blocked) {
+      await flush();
+    }
+
+    // Final pass on the complete answer - content can be split across releases
+    if (!outputCheck.blocked && answer && GUARDRAIL_ID) {
+      outputCheck = await applyGuardrails(answer, 'OUTPUT');
+    }
+
+    if (!answer) {
+      answer = "I couldn't generate a response. Please try again.";
+      await streamToClient(connectionId, answer);
+    }
 
     console.log('Generated answer length:', answer.length);
+    console.log('Output guardrail intervened:', outputCheck.blocked);
     console.log('=== END GENERATION ===');
 
-    return answer;
+    return { answer, outputCheck };
   } catch (error) {
     console.error('Generation error:', {
       errorName: error.name,
@@ -206,43 +524,118 @@ Answer:`;
   }
 }
 
+// Rewrite a follow-up ("what about for ranchers?") into a standalone search query using recent turns
+async function condenseQuestion(question, memory) {
+  if (memory.turns.length === 0 && !memory.summary) {
+    return question;
+  }
+
+  const recentTurns = memory.turns
+    .slice(-3)
+    .map(t => `User: ${t.question}\nAssistant: ${t.answer.substring(0, 500)}`)
+    .join('\n\n');
+
+  const prompt = `Rewrite the user's latest message as a standalone search query for the USDA knowledge base.
+Resolve pronouns and references (e.g. "it", "that program", "what about...") using the conversation.
+If the latest message is already standalone, return it unchanged. Return ONLY the query, with no explanation.
+${memory.summary ? `
+Summary of earlier conversation:
+${memory.summary}
+` : ''}
+Recent conversation:
+${recentTurns}
+
+Latest message: ${question}
+
+Standalone query:`;
+
+  try {
+    const response = await bedrockRuntimeClient.send(new ConverseCommand({
+      modelId: MODEL_ID,
+      messages: [{ role: 'user', content: [{ text: prompt }] }],
+      inferenceConfig: {
+        maxTokens: 200,
+        temperature: 0,
+      },
+    }));
+
+    const rewritten = response.output?.message?.content?.[0]?.text?.trim();
+    return rewritten || question;
+  } catch (error) {
+    // Fall back to the raw question rather than failing the request
+    console.error('Query condensation error:', error);
+    return question;
+  }
+}
+
 // Combined: Query Knowledge Base with two-step approach
-async function queryKnowledgeBase(question, sessionId) {
+async function queryKnowledgeBase(connectionId, question, memory) {
   const startTime = Date.now();
+  const config = await getRetrievalConfig();
+
+  // Step 0: Condense follow-ups into a standalone retrieval query
+  const retrievalQuery = await condenseQuestion(question, memory);
+  console.log('=== QUERY CONDENSATION ===');
+  console.log('Original question:', question);
+  console.log('Retrieval query:', retrievalQuery);
+  console.log('Rewritten:', retrievalQuery !== question);
+  console.log('==========================');
 
   // Step 1: Retrieve with confidence scores
-  const retrievedResults = await retrieveFromKnowledgeBase(question);
+  const retrievedResults = await retrieveFromKnowledgeBase(retrievalQuery, config.numberOfResults);
   
-  // Calculate max confidence score
+  // Calculate max confidence score (always logged / sent) and the gating score for the configured strategy
   const maxConfidence = retrievedResults.length > 0 
     ? Math.max(...retrievedResults.map(r => r.score)) 
     : 0;
-
-  // Confidence threshold - responses below this won't be shown
-  const CONFIDENCE_THRESHOLD = 0.5;
+  const confidence = scoreConfidence(retrievedResults, config);
 
   console.log('=== CONFIDENCE CHECK ===');
+  console.log('Config version:', config.version);
+  console.log('Scoring strategy:', config.scoringStrategy, '(top-k:', config.topK + ')');
   console.log('Max confidence score:', maxConfidence);
-  console.log('Threshold:', CONFIDENCE_THRESHOLD);
-  console.log('Passes threshold:', maxConfidence >= CONFIDENCE_THRESHOLD);
+  console.log('Confidence score:', confidence);
+  console.log('Threshold:', config.confidenceThreshold);
+  console.log('Passes threshold:', confidence >= config.confidenceThreshold);
   console.log('========================');
 
   // If confidence is too low, don't generate - return early with NO citations
-  if (maxConfidence < CONFIDENCE_THRESHOLD) {
+  if (confidence < config.confidenceThreshold) {
     const responseTimeMs = Date.now() - startTime;
     return {
       answer: null,
+      fallbackMessage: renderFallbackMessage(config.fallbackMessage, question, confidence),
       citations: [], // Don't return citations for low confidence
       maxConfidence,
+      confidence,
+      configVersion: config.version,
+      retrievalQuery,
       responseTimeMs,
       lowConfidence: true,
     };
   }
 
-  // Step 2: Generate answer using retrieved context
-  const answer = await generateAnswer(question, retrievedResults);
+  // Step 2: Generate answer using retrieved context (streamed to the client)
+  const { answer, outputCheck } = await generateAnswer(connectionId, question, retrievedResults, memory);
   const responseTimeMs = Date.now() - startTime;
 
+  // Output guardrail intervened - replace the answer with the blocked message, no citations
+  if (outputCheck.blocked) {
+    return {
+      answer: null,
+      blockedMessage: outputCheck.message,
+      guardrailReasons: outputCheck.reasons,
+      blocked: true,
+      citations: [],
+      maxConfidence,
+      confidence,
+      configVersion: config.version,
+      retrievalQuery,
+      responseTimeMs,
+      lowConfidence: false,
+    };
+  }
+
   // Build citations from retrieved results
   const citations = retrievedResults.map(r => ({
     id: r.id,
@@ -255,15 +648,17 @@ async function queryKnowledgeBase(question, sessionId) {
     answer,
     citations,
     maxConfidence,
-    sessionId: sessionId || uuidv4(), // Generate new session ID if not provided
+    confidence,
+    configVersion: config.version,
+    retrievalQuery,
     responseTimeMs,
     lowConfidence: false,
   };
 }
 
-// Save escalation request
-async function saveEscalation(name, email, phone, question, sessionId) {
-  const escalationId = uuidv4();
+// Save escalation request (sessionId links the chat transcript; empty when the user opted out or
+// did not prove the session is theirs)
+async function saveEscalation(escalationId, { name, email, phone, question }, sessionId) {
   const now = new Date();
   const timestamp = now.toISOString();
   const date = timestamp.split('T')[0]; // For GSI
@@ -288,6 +683,84 @@ async function saveEscalation(name, email, phone, question, sessionId) {
   return escalationId;
 }
 
+// Save a question/answer exchange at generation time (every outcome, not just rated ones)
+// outcome: 'answered' | 'low_confidence' | 'blocked' | 'error'
+async function saveConversation(record) {
+  const now = new Date();
+  const timestamp = now.toISOString();
+  const date = timestamp.split('T')[0];
+  const ttl = Math.floor(now.getTime() / 1000) + (90 * 24 * 60 * 60); // 90 days TTL
+  const answer = record.answer || '';
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: CONVERSATION_TABLE,
+      Item: {
+        conversationId: record.conversationId,
+        timestamp,
+        sessionId: record.sessionId || '',
+        connectionId: record.connectionId, // Owner check for feedback
+        question: record.question || '',
+        retrievalQuery: record.retrievalQuery || record.question || '',
+        answer,
+        answerPreview: answer.substring(0, 500),
+        citations: JSON.stringify(record.citations || []),
+        responseTimeMs: record.responseTimeMs || 0,
+        confidence: record.confidence ?? null,
+        maxConfidence: record.maxConfidence ?? null,
+        configVersion: record.configVersion ?? null,
+        outcome: record.outcome,
+        ...(record.guardrailSource && {
+          guardrailSource: record.guardrailSource,
+          guardrailReasons: record.guardrailReasons || [],
+        }),
+        ...(record.errorName && { errorName: record.errorName }),
+        date,
+        ttl,
+      },
+    }));
+  } catch (error) {
+    // Never fail the user's request because analytics could not be written
+    console.error('Error saving conversation:', error);
+  }
+}
+
+// Mask contact details and long numbers so stored samples can be reviewed without exposing user data
+function redactSample(text, maxLength = 300) {
+  return (text || '')
+    .replace(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, '[EMAIL]')
+    .replace(/\+?\(?\d[\d\s().-]{7,}\d/g, '[NUMBER]')
+    .substring(0, maxLength);
+}
+
+// Record a guardrail intervention for the admin dashboard (one item per block, keyed by day)
+async function saveGuardrailEvent(event) {
+  if (!GUARDRAIL_EVENTS_TABLE) return;
+
+  const now = new Date();
+  const timestamp = now.toISOString();
+  const ttl = Math.floor(now.getTime() / 1000) + (90 * 24 * 60 * 60); // 90 days TTL
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: GUARDRAIL_EVENTS_TABLE,
+      Item: {
+        date: timestamp.split('T')[0],
+        eventId: `${timestamp}#${uuidv4()}`,
+        timestamp,
+        source: event.source,
+        categories: event.reasons?.length ? event.reasons : ['UNKNOWN'],
+        sample: redactSample(event.question),
+        conversationId: event.conversationId,
+        sessionId: event.sessionId || '',
+        ttl,
+      },
+    }));
+  } catch (error) {
+    console.error('Error saving guardrail event:', error);
+  }
+}
+
 // Handle sendMessage action
 async function handleSendMessage(connectionId, body) {
   const { message, sessionId } = body;
@@ -300,6 +773,11 @@ async function handleSendMessage(connectionId, body) {
     return;
   }
 
+  const startTime = Date.now();
+  const conversationId = uuidv4();
+  // Generate new session ID if not provided - it keys the conversation memory
+  const activeSessionId = sessionId || uuidv4();
+
   // Send typing indicator
   await sendToClient(connectionId, { type: 'typing', isTyping: true });
 
@@ -308,6 +786,25 @@ async function handleSendMessage(connectionId, body) {
     const guardrailResult = await applyGuardrails(message);
     
     if (guardrailResult.blocked) {
+      await saveConversation({
+        conversationId,
+        connectionId,
+        sessionId: activeSessionId,
+        question: message,
+        answer: guardrailResult.message,
+        responseTimeMs: Date.now() - startTime,
+        outcome: 'blocked',
+        guardrailSource: 'INPUT',
+        guardrailReasons: guardrailResult.reasons,
+      });
+      await saveGuardrailEvent({
+        source: 'INPUT',
+        reasons: guardrailResult.reasons,
+        question: message,
+        conversationId,
+        sessionId: activeSessionId,
+      });
+
       await sendToClient(connectionId, {
         type: 'message',
         message: guardrailResult.message,
@@ -316,11 +813,10 @@ async function handleSendMessage(connectionId, body) {
       return;
     }
 
+    const memory = await getSessionMemory(activeSessionId);
+
     // Query Knowledge Base (two-step: retrieve + generate)
-    const result = await queryKnowledgeBase(message, sessionId);
-    
-    // Generate conversation ID (but don't save yet - only save when feedback is given)
-    const conversationId = uuidv4();
+    const result = await queryKnowledgeBase(connectionId, message, memory);
 
     // Detailed confidence logging for manual verification
     console.log('=== FINAL CONFIDENCE SCORE CHECK ===');
@@ -332,36 +828,93 @@ async function handleSendMessage(connectionId, body) {
       source: c.source?.substring(0, 80) + '...'
     })));
     console.log('Maximum confidence score:', result.maxConfidence);
-    console.log('Threshold:', 0.8);
-    console.log('Is high confidence (>= 0.8)?:', result.maxConfidence >= 0.8);
-    console.log('Decision:', result.lowConfidence ? 'SHOW LOW CONFIDENCE MESSAGE' : 'SHOW RESPONSE');
+    console.log('Confidence score:', result.confidence);
+    console.log('Config version:', result.configVersion);
+    console.log('Decision:', result.blocked ? 'SHOW OUTPUT GUARDRAIL MESSAGE' : result.lowConfidence ? 'SHOW LOW CONFIDENCE MESSAGE' : 'SHOW RESPONSE');
     console.log('=== END FINAL CHECK ===');
 
+    if (result.blocked) {
+      await saveConversation({
+        conversationId,
+        connectionId,
+        sessionId: activeSessionId,
+        question: message,
+        retrievalQuery: result.retrievalQuery,
+        answer: result.blockedMessage,
+        responseTimeMs: result.responseTimeMs,
+        confidence: result.confidence,
+        maxConfidence: result.maxConfidence,
+        configVersion: result.configVersion,
+        outcome: 'blocked',
+        guardrailSource: 'OUTPUT',
+        guardrailReasons: result.guardrailReasons,
+      });
+      await saveGuardrailEvent({
+        source: 'OUTPUT',
+        reasons: result.guardrailReasons,
+        question: message,
+        conversationId,
+        sessionId: activeSessionId,
+      });
+
+      // Close the stream, replacing any text already shown with the blocked message
+      await streamToClient(connectionId, '', true, {
+        message: result.blockedMessage,
+        blocked: true,
+        sessionId: activeSessionId,
+      });
+      return;
+    }
+
+    // Persist the exchange before the client receives the conversationId it can rate
+    await saveConversation({
+      conversationId,
+      connectionId,
+      sessionId: activeSessionId,
+      question: message,
+      retrievalQuery: result.retrievalQuery,
+      answer: result.lowConfidence ? result.fallbackMessage : result.answer,
+      citations: result.citations,
+      responseTimeMs: result.responseTimeMs,
+      confidence: result.confidence,
+      maxConfidence: result.maxConfidence,
+      configVersion: result.configVersion,
+      outcome: result.lowConfidence ? 'low_confidence' : 'answered',
+    });
+
     if (result.lowConfidence) {
       // Low confidence - suggest user to visit usda.gov or contact support
       await sendToClient(connectionId, {
         type: 'message',
-        message: "I'm not very confident about the answer to your question. For accurate information, I'd recommend visiting [usda.gov](https://www.usda.gov) or clicking the **Customer Support** button (headphone icon) in the top right corner to speak with a representative who can better assist you.",
+        message: result.fallbackMessage,
         citations: [], // Don't show citations for low confidence responses
         conversationId,
-        sessionId: result.sessionId,
+        sessionId: activeSessionId,
         responseTimeMs: result.responseTimeMs,
         question: message,
+        retrievalQuery: result.retrievalQuery,
         lowConfidence: true,
         maxConfidence: result.maxConfidence, // Send to frontend for logging
+        confidence: result.confidence,
+        configVersion: result.configVersion,
       });
     } else {
-      // High confidence - send the actual response
-      await sendToClient(connectionId, {
-        type: 'message',
-        message: result.answer,
+      // High confidence - the answer text has already been streamed, close the stream
+      // with the final frame carrying citations and conversation metadata
+      await streamToClient(connectionId, '', true, {
         citations: result.citations,
         conversationId,
-        sessionId: result.sessionId,
+        sessionId: activeSessionId,
         responseTimeMs: result.responseTimeMs,
         question: message,
+        retrievalQuery: result.retrievalQuery,
         maxConfidence: result.maxConfidence, // Send to frontend for logging
+        confidence: result.confidence,
+        configVersion: result.configVersion,
       });
+
+      // Remember the answered turn for follow-up questions in this session
+      await saveSessionTurn(activeSessionId, memory, message, result.answer, result.retrievalQuery, result.configVersion);
     }
 
   } catch (error) {
@@ -383,6 +936,17 @@ async function handleSendMessage(connectionId, body) {
     } else if (error.name === 'ThrottlingException') {
       errorMessage = 'Service is busy. Please try again in a moment.';
     }
+
+    await saveConversation({
+      conversationId,
+      connectionId,
+      sessionId: activeSessionId,
+      question: message,
+      answer: errorMessage,
+      responseTimeMs: Date.now() - startTime,
+      outcome: 'error',
+      errorName: error.name,
+    });
     
     await sendToClient(connectionId, {
       type: 'error',
@@ -391,9 +955,12 @@ async function handleSendMessage(connectionId, body) {
   }
 }
 
-// Handle submitFeedback action - saves conversation only when feedback is given
+// Handle submitFeedback action - applies feedback to the conversation saved at generation time.
+// Only the connection (or session) that received the answer may rate it; the stored
+// question/answer are authoritative and only the rating (plus reasons/comment on a
+// thumbs-down) is written from the client.
 async function handleSubmitFeedback(connectionId, body) {
-  const { conversationId, feedback, question, answer, sessionId, responseTimeMs, citations } = body;
+  const { conversationId, feedback, sessionId } = body;
 
   if (!conversationId || !feedback) {
     await sendToClient(connectionId, {
@@ -403,29 +970,54 @@ async function handleSubmitFeedback(connectionId, body) {
     return;
   }
 
+  if (feedback !== 'positive' && feedback !== 'negative') {
+    await sendToClient(connectionId, {
+      type: 'error',
+      message: "feedback must be 'positive' or 'negative'",
+    });
+    return;
+  }
+
+  const feedbackValue = feedback === 'positive' ? 'pos' : 'neg';
+  const { error: detailsError, details } = validateFeedbackDetails(feedbackValue, body);
+  if (detailsError) {
+    await sendToClient(connectionId, {
+      type: 'error',
+      message: detailsError,
+    });
+    return;
+  }
+
   try {
-    // Save the conversation with feedback (only conversations with feedback are stored)
-    const now = new Date();
-    const timestamp = now.toISOString();
-    const date = timestamp.split('T')[0];
-    const ttl = Math.floor(now.getTime() / 1000) + (90 * 24 * 60 * 60); // 90 days TTL
+    // Find the conversation to get its timestamp (sort key)
+    const queryResult = await docClient.send(new QueryCommand({
+      TableName: CONVERSATION_TABLE,
+      KeyConditionExpression: 'conversationId = :cid',
+      ExpressionAttributeValues: { ':cid': conversationId },
+      Limit: 1,
+    }));
 
-    await docClient.send(new PutCommand({
+    const item = queryResult.Items?.[0];
+    // Same response for unknown, deleted and foreign conversations so IDs can't be probed
+    if (!ownsConversation(item, { connectionId, sessionId })) {
+      if (item) {
+        console.warn('Rejected feedback for foreign conversation:', conversationId, 'from connection:', connectionId);
+      }
+      await sendToClient(connectionId, {
+        type: 'error',
+        message: 'Conversation not found',
+      });
+      return;
+    }
+
+    await docClient.send(new UpdateCommand({
       TableName: CONVERSATION_TABLE,
-      Item: {
-        conversationId,
-        timestamp,
-        sessionId: sessionId || '',
-        question: question || '',
-        answer: answer || '',
-        answerPreview: (answer || '').substring(0, 500),
-        citations: JSON.stringify(citations || []),
-        responseTimeMs: responseTimeMs || 0,
-        date,
-        feedback: feedback === 'positive' ? 'pos' : 'neg',
-        feedbackTs: timestamp,
-        ttl,
+      Key: {
+        conversationId: item.conversationId,
+        timestamp: item.timestamp,
       },
+      ...buildFeedbackUpdate(feedbackValue, details),
+      ConditionExpression: 'attribute_exists(conversationId) AND attribute_not_exists(deletedAt)',
     }));
     
     await sendToClient(connectionId, {
@@ -433,6 +1025,7 @@ async function handleSubmitFeedback(connectionId, body) {
       success: true,
       conversationId,
       feedback,
+      reasons: details?.reasons,
     });
   } catch (error) {
     console.error('Error saving feedback:', error);
@@ -443,21 +1036,41 @@ async function handleSubmitFeedback(connectionId, body) {
   }
 }
 
-// Handle submitEscalation action
-async function handleSubmitEscalation(connectionId, body) {
-  const { name, email, phone, question, sessionId } = body;
+// Handle submitEscalation action - validated, rate limited per IP and connection, and de-duplicated
+async function handleSubmitEscalation(connectionId, body, sourceIp) {
+  const escalationId = uuidv4();
 
-  if (!name || !email || !question) {
-    await sendToClient(connectionId, {
-      type: 'error',
-      message: 'Name, email, and question are required',
+  try {
+    const guard = await guardEscalation({
+      docClient,
+      tableName: RATE_LIMIT_TABLE,
+      body,
+      escalationId,
+      sourceIp,
+      connectionId,
     });
-    return;
-  }
 
-  try {
-    const escalationId = await saveEscalation(name, email, phone, question, sessionId);
-    
+    if (!guard.ok) {
+      await sendToClient(connectionId, {
+        type: 'escalationError',
+        code: guard.code,
+        message: guard.message,
+        fieldErrors: guard.fieldErrors,
+        retryAfterSeconds: guard.retryAfterSeconds,
+      });
+      return;
+    }
+
+    try {
+      const sessionId = await resolveTranscriptSession({ docClient, conversationTable: CONVERSATION_TABLE, body, connectionId });
+      await saveEscalation(escalationId, guard.values, sessionId);
+    } catch (error) {
+      if (RATE_LIMIT_TABLE) {
+        await releaseDuplicateKey(docClient, RATE_LIMIT_TABLE, guard.values).catch(() => {});
+      }
+      throw error;
+    }
+
     await sendToClient(connectionId, {
       type: 'escalationConfirmation',
       success: true,
@@ -467,15 +1080,444 @@ async function handleSubmitEscalation(connectionId, body) {
   } catch (error) {
     console.error('Error saving escalation:', error);
     await sendToClient(connectionId, {
-      type: 'error',
+      type: 'escalationError',
+      code: 'SERVER_ERROR',
       message: 'Failed to submit support request',
     });
   }
 }
 
+// ==================== Live agent handoff ====================
+// Users and agents share the WebSocket API. Agent connections authenticate with their Cognito
+// ID token on $connect; the handoff state lives on the user's item in the connections table.
+
+let jwtVerifier = null;
+
+// Verify an agent's Cognito ID token; returns the token payload or null
+async function verifyAgentToken(token) {
+  if (!USER_POOL_ID || !USER_POOL_CLIENT_ID) {
+    return null;
+  }
+  if (!jwtVerifier) {
+    jwtVerifier = CognitoJwtVerifier.create({
+      userPoolId: USER_POOL_ID,
+      clientId: USER_POOL_CLIENT_ID,
+      tokenUse: 'id',
+    });
+  }
+
+  try {
+    return await jwtVerifier.verify(token);
+  } catch (error) {
+    console.warn('Agent token rejected:', error.message);
+    return null;
+  }
+}
+
+// Handle $connect - plain connections are chat users, connections with ?token= are agents
+async function handleConnect(connectionId, queryStringParameters) {
+  const token = queryStringParameters?.token;
+  if (!token) {
+    return { statusCode: 200, body: 'Connected' };
+  }
+
+  const claims = await verifyAgentToken(token);
+  if (!claims || !CONNECTIONS_TABLE) {
+    return { statusCode: 401, body: 'Unauthorized' };
+  }
+
+  // Only support agents and administrators take live chats
+  const roles = getRoles(claims);
+  if (!hasPermission(roles, 'livechat:agent')) {
+    console.warn('Agent connection denied:', claims.email || claims['cognito:username'], 'roles:', roles.join(', ') || 'none');
+    return { statusCode: 403, body: describeDenial(roles, 'livechat:agent') };
+  }
+
+  // ...and only once they have set up an authenticator app (MFA is optional on the pool)
+  if (!(await hasTotpEnabled(cognitoClient, USER_POOL_ID, claims['cognito:username']))) {
+    console.warn('Agent connection denied:', claims.email || claims['cognito:username'], 'has no authenticator app');
+    return { statusCode: 403, body: MFA_REQUIRED_MESSAGE };
+  }
+
+  const now = new Date();
+  await docClient.send(new PutCommand({
+    TableName: CONNECTIONS_TABLE,
+    Item: {
+      connectionId,
+      role: 'agent',
+      agentEmail: claims.email || claims['cognito:username'],
+      connectedAt: now.toISOString(),
+      ttl: Math.floor(now.getTime() / 1000) + CONNECTION_TTL_SECONDS,
+    },
+  }));
+
+  console.log('Agent connected:', connectionId);
+  return { statusCode: 200, body: 'Connected' };
+}
+
+// Look up a connection item (agents, and users who asked for a representative)
+async function getConnection(connectionId) {
+  if (!CONNECTIONS_TABLE || !connectionId) {
+    return null;
+  }
+
+  const result = await docClient.send(new GetCommand({
+    TableName: CONNECTIONS_TABLE,
+    Key: { connectionId },
+  }));
+  return result.Item || null;
+}
+
+// Connected agents
+async function getAgentConnections() {
+  const result = await docClient.send(new QueryCommand({
+    TableName: CONNECTIONS_TABLE,
+    IndexName: CONNECTION_ROLE_INDEX,
+    KeyConditionExpression: '#role = :agent',
+    ExpressionAttributeNames: { '#role': 'role' },
+    ExpressionAttributeValues: { ':agent': 'agent' },
+  }));
+  return result.Items || [];
+}
+
+// Handoffs in one status, oldest request first
+async function getHandoffsByStatus(status) {
+  const result = await docClient.send(new QueryCommand({
+    TableName: CONNECTIONS_TABLE,
+    IndexName: HANDOFF_STATUS_INDEX,
+    KeyConditionExpression: 'handoffStatus = :status',
+    ExpressionAttributeValues: { ':status': status },
+  }));
+  return result.Items || [];
+}
+
+// Shape a user's handoff for the agent console
+function formatHandoff(item) {
+  return {
+    connectionId: item.connectionId,
+    handoffId: item.handoffId,
+    sessionId: item.sessionId || null,
+    name: item.name || null,
+    status: item.handoffStatus,
+    requestedAt: item.requestedAt,
+    agentEmail: item.agentEmail || null,
+    context: item.context || [],
+    messages: item.messages || [],
+  };
+}
+
+// Waiting and active handoffs for the agent console
+async function listHandoffs() {
+  const [waiting, active] = await Promise.all([
+    getHandoffsByStatus('waiting'),
+    getHandoffsByStatus('active'),
+  ]);
+  return [...waiting, ...active].map(formatHandoff);
+}
+
+// Push the current queue to every connected agent, dropping agents that are gone
+async function broadcastHandoffQueue() {
+  const [agents, handoffs] = await Promise.all([getAgentConnections(), listHandoffs()]);
+
+  await Promise.all(agents.map(async (agent) => {
+    try {
+      await sendToClient(agent.connectionId, { type: 'handoffQueue', handoffs });
+    } catch (error) {
+      // Only forget agents who have disconnected; other failures (e.g. throttling) are transient
+      if (!isConnectionGone(error)) {
+        console.error(`Failed to send the handoff queue to agent connection ${agent.connectionId}:`, error);
+        return;
+      }
+      await docClient.send(new DeleteCommand({
+        TableName: CONNECTIONS_TABLE,
+        Key: { connectionId: agent.connectionId },
+      }));
+    }
+  }));
+}
+
+// Send an error to a connection
+async function sendHandoffError(connectionId, message) {
+  await sendToClient(connectionId, { type: 'error', message });
+}
+
+// The user connection an agent action names (body.connectionId), or null if missing or malformed
+function getTargetConnectionId(body) {
+  const targetId = body?.connectionId;
+  return typeof targetId === 'string' && CONNECTION_ID_PATTERN.test(targetId) ? targetId : null;
+}
+
+// Handle requestAgent action (chat user asks for a representative)
+async function handleRequestAgent(connectionId, body) {
+  if (!CONNECTIONS_TABLE) {
+    await sendToClient(connectionId, { type: 'handoffStatus', status: 'unavailable', message: HANDOFF_MESSAGES.unavailable });
+    return;
+  }
+
+  const existing = await getConnection(connectionId);
+  if (existing?.role === 'agent') {
+    await sendHandoffError(connectionId, 'Agents cannot request a representative');
+    return;
+  }
+  if (existing?.handoffStatus === 'waiting' || existing?.handoffStatus === 'active') {
+    await sendToClient(connectionId, {
+      type: 'handoffStatus',
+      status: existing.handoffStatus,
+      message: HANDOFF_MESSAGES[existing.handoffStatus],
+    });
+    return;
+  }
+
+  const agents = await getAgentConnections();
+  if (agents.length === 0) {
+    await sendToClient(connectionId, { type: 'handoffStatus', status: 'unavailable', message: HANDOFF_MESSAGES.unavailable });
+    return;
+  }
+
+  // Recent bot exchanges so the agent doesn't have to ask the user to repeat themselves
+  const memory = await getSessionMemory(body.sessionId);
+  const context = memory.turns.slice(-HANDOFF_CONTEXT_TURNS).map(turn => ({
+    question: turn.question,
+    answer: (turn.answer || '').substring(0, 500),
+  }));
+
+  const now = new Date();
+  await docClient.send(new PutCommand({
+    TableName: CONNECTIONS_TABLE,
+    Item: {
+      connectionId,
+      role: 'user',
+      handoffId: uuidv4(),
+      handoffStatus: 'waiting',
+      requestedAt: now.toISOString(),
+      sessionId: body.sessionId || '',
+      name: typeof body.name === 'string' ? body.name.trim().substring(0, 100) : '',
+      context,
+      messages: [],
+      ttl: Math.floor(now.getTime() / 1000) + CONNECTION_TTL_SECONDS,
+    },
+  }));
+
+  await sendToClient(connectionId, { type: 'handoffStatus', status: 'waiting', message: HANDOFF_MESSAGES.waiting });
+  await broadcastHandoffQueue();
+}
+
+// Handle listHandoffs action (agent console loads the queue after connecting)
+async function handleListHandoffs(connectionId) {
+  const agent = await getConnection(connectionId);
+  if (agent?.role !== 'agent') {
+    await sendHandoffError(connectionId, 'Not authorized');
+    return;
+  }
+
+  await sendToClient(connectionId, { type: 'handoffQueue', handoffs: await listHandoffs() });
+}
+
+// Handle claimHandoff action (agent takes a waiting user)
+async function handleClaimHandoff(connectionId, body) {
+  const agent = await getConnection(connectionId);
+  if (agent?.role !== 'agent') {
+    await sendHandoffError(connectionId, 'Not authorized');
+    return;
+  }
+  const userConnectionId = getTargetConnectionId(body);
+  if (!userConnectionId) {
+    await sendHandoffError(connectionId, 'connectionId is required');
+    return;
+  }
+
+  let claimed;
+  try {
+    const result = await docClient.send(new UpdateCommand({
+      TableName: CONNECTIONS_TABLE,
+      Key: { connectionId: userConnectionId },
+      UpdateExpression: 'SET handoffStatus = :active, agentConnectionId = :agent, agentEmail = :email, claimedAt = :now',
+      ConditionExpression: 'handoffStatus = :waiting',
+      ExpressionAttributeValues: {
+        ':active': 'active',
+        ':waiting': 'waiting',
+        ':agent': connectionId,
+        ':email': agent.agentEmail,
+        ':now': new Date().toISOString(),
+      },
+      ReturnValues: 'ALL_NEW',
+    }));
+    claimed = result.Attributes;
+  } catch (error) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      await sendHandoffError(connectionId, 'This chat was already claimed or has ended');
+      return;
+    }
+    throw error;
+  }
+
+  console.log(`Handoff ${claimed.handoffId} claimed by ${agent.agentEmail}`);
+  const userReached = await trySendToClient(claimed.connectionId, {
+    type: 'handoffStatus',
+    status: 'active',
+    message: HANDOFF_MESSAGES.active,
+  });
+
+  if (!userReached) {
+    await endHandoff(claimed, 'user');
+    return;
+  }
+
+  await sendToClient(connectionId, { type: 'handoffClaimed', handoff: formatHandoff(claimed) });
+  await broadcastHandoffQueue();
+}
+
+// Append a relayed message to the user's handoff record
+async function appendHandoffMessage(userConnectionId, entry) {
+  await docClient.send(new UpdateCommand({
+    TableName: CONNECTIONS_TABLE,
+    Key: { connectionId: userConnectionId },
+    UpdateExpression: 'SET messages = list_append(if_not_exists(messages, :empty), :entry)',
+    ExpressionAttributeValues: { ':empty': [], ':entry': [entry] },
+  }));
+}
+
+// Handle agentMessage action - relays in both directions: agent -> user (body.connectionId names
+// the user) and user -> their assigned agent
+async function handleAgentMessage(connectionId, body) {
+  const text = typeof body.message === 'string' ? body.message.trim() : '';
+  if (!text || text.length > MAX_HANDOFF_MESSAGE_LENGTH) {
+    await sendHandoffError(connectionId, `Message must be 1-${MAX_HANDOFF_MESSAGE_LENGTH} characters`);
+    return;
+  }
+
+  const sender = await getConnection(connectionId);
+  const timestamp = new Date().toISOString();
+
+  if (sender?.role === 'agent') {
+    const userConnectionId = getTargetConnectionId(body);
+    if (!userConnectionId) {
+      await sendHandoffError(connectionId, 'connectionId is required');
+      return;
+    }
+    const user = await getConnection(userConnectionId);
+    if (user?.handoffStatus !== 'active' || user.agentConnectionId !== connectionId) {
+      await sendHandoffError(connectionId, 'This chat is not assigned to you');
+      return;
+    }
+
+    const entry = { from: 'agent', author: sender.agentEmail, text, timestamp };
+    await appendHandoffMessage(user.connectionId, entry);
+    const delivered = await trySendToClient(user.connectionId, { type: 'agentMessage', message: text, timestamp });
+    if (!delivered) {
+      await endHandoff(user, 'user');
+      return;
+    }
+    await sendToClient(connectionId, { type: 'handoffMessage', connectionId: user.connectionId, ...entry });
+    return;
+  }
+
+  if (sender?.handoffStatus !== 'active') {
+    await sendHandoffError(connectionId, 'You are not connected to a representative');
+    return;
+  }
+
+  const entry = { from: 'user', text, timestamp };
+  await appendHandoffMessage(connectionId, entry);
+  const delivered = await trySendToClient(sender.agentConnectionId, { type: 'handoffMessage', connectionId, ...entry });
+  if (!delivered) {
+    await requeueHandoff(sender);
+    await broadcastHandoffQueue();
+  }
+}
+
+// Close a handoff and tell both sides; the user's item stays until its TTL for the record
+async function endHandoff(user, endedBy) {
+  await docClient.send(new UpdateCommand({
+    TableName: CONNECTIONS_TABLE,
+    Key: { connectionId: user.connectionId },
+    UpdateExpression: 'SET handoffEndedAt = :now, endedBy = :endedBy REMOVE handoffStatus',
+    ExpressionAttributeValues: { ':now': new Date().toISOString(), ':endedBy': endedBy },
+  }));
+
+  console.log(`Handoff ${user.handoffId} ended by ${endedBy}`);
+  await trySendToClient(user.connectionId, { type: 'handoffStatus', status: 'ended', message: HANDOFF_MESSAGES.ended });
+  if (user.handoffStatus === 'active' && user.agentConnectionId) {
+    await trySendToClient(user.agentConnectionId, {
+      type: 'handoffStatus',
+      connectionId: user.connectionId,
+      status: 'ended',
+      endedBy,
+    });
+  }
+  await broadcastHandoffQueue();
+}
+
+// Put an active handoff back in the queue after its agent disconnected
+async function requeueHandoff(user) {
+  await docClient.send(new UpdateCommand({
+    TableName: CONNECTIONS_TABLE,
+    Key: { connectionId: user.connectionId },
+    UpdateExpression: 'SET handoffStatus = :waiting REMOVE agentConnectionId, agentEmail',
+    ExpressionAttributeValues: { ':waiting': 'waiting' },
+  }));
+
+  await trySendToClient(user.connectionId, { type: 'handoffStatus', status: 'waiting', message: HANDOFF_MESSAGES.requeued });
+}
+
+// Handle endHandoff action - the user leaves, or the assigned agent closes the chat
+async function handleEndHandoff(connectionId, body) {
+  const sender = await getConnection(connectionId);
+
+  if (sender?.role === 'agent') {
+    const userConnectionId = getTargetConnectionId(body);
+    if (!userConnectionId) {
+      await sendHandoffError(connectionId, 'connectionId is required');
+      return;
+    }
+    const user = await getConnection(userConnectionId);
+    if (user?.handoffStatus !== 'active' || user.agentConnectionId !== connectionId) {
+      await sendHandoffError(connectionId, 'This chat is not assigned to you');
+      return;
+    }
+    await endHandoff(user, 'agent');
+    return;
+  }
+
+  if (sender?.handoffStatus === 'waiting' || sender?.handoffStatus === 'active') {
+    await endHandoff(sender, 'user');
+  }
+}
+
+// Handle $disconnect - end the user's handoff, or requeue the chats of a departing agent
+async function handleDisconnect(connectionId) {
+  const connection = await getConnection(connectionId);
+  if (!connection) {
+    return;
+  }
+
+  if (connection.role === 'agent') {
+    await docClient.send(new DeleteCommand({
+      TableName: CONNECTIONS_TABLE,
+      Key: { connectionId },
+    }));
+
+    const active = await getHandoffsByStatus('active');
+    const orphaned = active.filter(item => item.agentConnectionId === connectionId);
+    for (const user of orphaned) {
+      await requeueHandoff(user);
+    }
+    if (orphaned.length > 0) {
+      await broadcastHandoffQueue();
+    }
+    return;
+  }
+
+  if (connection.handoffStatus === 'waiting' || connection.handoffStatus === 'active') {
+    await endHandoff(connection, 'user');
+  }
+}
+
 // Main handler
 exports.handler = async (event) => {
-  console.log('Event:', JSON.stringify(event, null, 2));
+  // Agent connections pass their Cognito token in the query string - keep it out of the logs
+  const { queryStringParameters, multiValueQueryStringParameters, ...loggedEvent } = event;
+  console.log('Event:', JSON.stringify(loggedEvent, null, 2));
 
   const { requestContext, body } = event;
   const { connectionId, routeKey } = requestContext;
@@ -484,10 +1526,11 @@ exports.handler = async (event) => {
     switch (routeKey) {
       case '$connect':
         console.log('Client connected:', connectionId);
-        return { statusCode: 200, body: 'Connected' };
+        return await handleConnect(connectionId, queryStringParameters);
 
       case '$disconnect':
         console.log('Client disconnected:', connectionId);
+        await handleDisconnect(connectionId);
         return { statusCode: 200, body: 'Disconnected' };
 
       case 'sendMessage':
@@ -499,7 +1542,27 @@ exports.handler = async (event) => {
         break;
 
       case 'submitEscalation':
-        await handleSubmitEscalation(connectionId, JSON.parse(body || '{}'));
+        await handleSubmitEscalation(connectionId, JSON.parse(body || '{}'), requestContext.identity?.sourceIp);
+        break;
+
+      case 'requestAgent':
+        await handleRequestAgent(connectionId, JSON.parse(body || '{}'));
+        break;
+
+      case 'listHandoffs':
+        await handleListHandoffs(connectionId);
+        break;
+
+      case 'claimHandoff':
+        await handleClaimHandoff(connectionId, JSON.parse(body || '{}'));
+        break;
+
+      case 'agentMessage':
+        await handleAgentMessage(connectionId, JSON.parse(body || '{}'));
+        break;
+
+      case 'endHandoff':
+        await handleEndHandoff(connectionId, JSON.parse(body || '{}'));
         break;
 
       case '$default':
@@ -513,7 +1576,17 @@ exports.handler = async (event) => {
         } else if (action === 'submitFeedback') {
           await handleSubmitFeedback(connectionId, parsedBody);
         } else if (action === 'submitEscalation') {
-          await handleSubmitEscalation(connectionId, parsedBody);
+          await handleSubmitEscalation(connectionId, parsedBody, requestContext.identity?.sourceIp);
+        } else if (action === 'requestAgent') {
+          await handleRequestAgent(connectionId, parsedBody);
+        } else if (action === 'listHandoffs') {
+          await handleListHandoffs(connectionId);
+        } else if (action === 'claimHandoff') {
+          await handleClaimHandoff(connectionId, parsedBody);
+        } else if (action === 'agentMessage') {
+          await handleAgentMessage(connectionId, parsedBody);
+        } else if (action === 'endHandoff') {
+          await handleEndHandoff(connectionId, parsedBody);
         } else {
           await sendToClient(connectionId, {
             type: 'error',
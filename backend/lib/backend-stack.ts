@@ -1,16 +1,38 @@
 import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as apigatewayv2 from 'aws-cdk-lib/aws-apigatewayv2';
 import * as apigatewayv2_integrations from 'aws-cdk-lib/aws-apigatewayv2-integrations';
 import * as apigatewayv2_authorizers from 'aws-cdk-lib/aws-apigatewayv2-authorizers';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as bedrock from 'aws-cdk-lib/aws-bedrock';
 import * as cognito from 'aws-cdk-lib/aws-cognito';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import * as events from 'aws-cdk-lib/aws-events';
 import * as targets from 'aws-cdk-lib/aws-events-targets';
 import { opensearchserverless, opensearch_vectorindex } from '@cdklabs/generative-ai-cdk-constructs';
+import * as path from 'path';
+
+// Bundle a Lambda directory together with lambda/shared, which the handler requires as ./shared.
+// Every module in lambda/shared is copied as is, so the npm packages they require must be in the
+// package.json of each Lambda bundled this way. The asset hash covers the bundled output so edits
+// to the shared code trigger a redeploy.
+function lambdaCodeWithShared(dir: string): lambda.Code {
+  return lambda.Code.fromAsset(`lambda/${dir}`, {
+    assetHashType: cdk.AssetHashType.OUTPUT,
+    bundling: {
+      image: lambda.Runtime.NODEJS_20_X.bundlingImage,
+      volumes: [{ hostPath: path.resolve(__dirname, '../lambda/shared'), containerPath: '/shared' }],
+      command: [
+        'bash', '-c',
+        'npm install && cp -au . /asset-output && cp -au /shared /asset-output/shared'
+      ],
+    },
+  });
+}
 
 export class USDAChatbotStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props?: cdk.StackProps) {
@@ -25,6 +47,7 @@ export class USDAChatbotStack extends cdk.Stack {
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       removalPolicy: cdk.RemovalPolicy.DESTROY,
       timeToLiveAttribute: 'ttl',
+      stream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES, // Feeds the metrics rollups and the conversation search index
     });
 
     // GSI for querying by sessionId
@@ -56,6 +79,7 @@ export class USDAChatbotStack extends cdk.Stack {
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       removalPolicy: cdk.RemovalPolicy.DESTROY,
       timeToLiveAttribute: 'ttl',
+      stream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES, // Feeds the escalation counters in the metrics rollups
     });
 
     escalationTable.addGlobalSecondaryIndex({
@@ -64,6 +88,147 @@ export class USDAChatbotStack extends cdk.Stack {
       sortKey: { name: 'timestamp', type: dynamodb.AttributeType.STRING },
     });
 
+    // GSI for listing escalations newest-first (one partition per status)
+    escalationTable.addGlobalSecondaryIndex({
+      indexName: 'status-timestamp-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.STRING },
+    });
+
+    // ==================== DynamoDB - Session Memory ====================
+    // One item per chat session: recent turns plus a running summary of older turns,
+    // used to answer follow-up questions in context
+    const sessionMemoryTable = new dynamodb.Table(this, 'SessionMemory', {
+      tableName: 'AskUSDA-SessionMemory',
+      partitionKey: { name: 'sessionId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // ==================== DynamoDB - Runtime Configuration ====================
+    // Versioned runtime settings (e.g. confidence gating) editable through the admin API.
+    // Each save writes a new version item so answers can be traced to the config that produced them.
+    const runtimeConfigTable = new dynamodb.Table(this, 'RuntimeConfig', {
+      tableName: 'AskUSDA-RuntimeConfig',
+      partitionKey: { name: 'configKey', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'version', type: dynamodb.AttributeType.NUMBER },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // ==================== DynamoDB - Metrics Rollups ====================
+    // Pre-aggregated dashboard counters maintained from the conversation history stream.
+    // granularity: TOTAL (bucket 'ALL'), DAY (bucket 'YYYY-MM-DD'), HOUR (bucket 'YYYY-MM-DDTHH'), all UTC.
+    // APPLIED items (bucket = stream event ID, expiring after 2 days) mark stream records already counted.
+    const metricsRollupTable = new dynamodb.Table(this, 'MetricsRollups', {
+      tableName: 'AskUSDA-MetricsRollups',
+      partitionKey: { name: 'granularity', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'bucket', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // ==================== DynamoDB - Guardrail Events ====================
+    // One item per guardrail intervention (filter categories + redacted sample), partitioned by day
+    // so the admin dashboard can aggregate blocks without scanning conversation history
+    const guardrailEventsTable = new dynamodb.Table(this, 'GuardrailEvents', {
+      tableName: 'AskUSDA-GuardrailEvents',
+      partitionKey: { name: 'date', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'eventId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // ==================== DynamoDB - WebSocket Connections ====================
+    // Live agent handoff: one item per agent connection (role 'agent') and per chat user who asked
+    // for a representative (role 'user', carrying the handoff status, assigned agent and messages)
+    const connectionsTable = new dynamodb.Table(this, 'Connections', {
+      tableName: 'AskUSDA-Connections',
+      partitionKey: { name: 'connectionId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // GSI for finding connected agents (queue broadcasts)
+    connectionsTable.addGlobalSecondaryIndex({
+      indexName: 'role-index',
+      partitionKey: { name: 'role', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Sparse GSI for the handoff queue (waiting / active); ended handoffs drop out
+    connectionsTable.addGlobalSecondaryIndex({
+      indexName: 'handoffStatus-requestedAt-index',
+      partitionKey: { name: 'handoffStatus', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'requestedAt', type: dynamodb.AttributeType.STRING },
+    });
+
+    // ==================== DynamoDB - Rate Limits ====================
+    // Short-lived abuse-protection keys for escalation submissions: per-IP/per-connection
+    // request counters, duplicate request markers and used challenge tokens (all expire via TTL)
+    const rateLimitTable = new dynamodb.Table(this, 'RateLimits', {
+      tableName: 'AskUSDA-RateLimits',
+      partitionKey: { name: 'key', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // ==================== DynamoDB - Export Jobs ====================
+    // One item per asynchronous admin export (POST /export-jobs), expiring with its file
+    const exportJobsTable = new dynamodb.Table(this, 'ExportJobs', {
+      tableName: 'AskUSDA-ExportJobs',
+      partitionKey: { name: 'exportId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // ==================== DynamoDB - Admin Audit Log ====================
+    // One item per administrative action (every mutating admin route, plus refused attempts).
+    // Append-only: the admin Lambda may only put and read items, and the table is retained.
+    const auditTable = new dynamodb.Table(this, 'AdminAudit', {
+      tableName: 'AskUSDA-AdminAudit',
+      partitionKey: { name: 'auditId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      deletionProtection: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // GSIs for GET /audit, newest first: by UTC day, by actor and by target
+    auditTable.addGlobalSecondaryIndex({
+      indexName: 'date-timestamp-index',
+      partitionKey: { name: 'date', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.STRING },
+    });
+
+    auditTable.addGlobalSecondaryIndex({
+      indexName: 'actor-timestamp-index',
+      partitionKey: { name: 'actor', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.STRING },
+    });
+
+    auditTable.addGlobalSecondaryIndex({
+      indexName: 'target-timestamp-index',
+      partitionKey: { name: 'target', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.STRING },
+    });
+
+    // ==================== S3 - Export Files ====================
+    // Files written by the export worker; downloaded through short-lived presigned URLs only
+    const exportBucket = new s3.Bucket(this, 'ExportBucket', {
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      lifecycleRules: [{ expiration: cdk.Duration.days(7) }],
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      autoDeleteObjects: true,
+    });
+
     // ==================== OpenSearch Serverless Vector Collection (L2 Construct) ====================
     // Using @cdklabs/generative-ai-cdk-constructs which automatically handles:
     // - Encryption policy
@@ -108,6 +273,17 @@ export class USDAChatbotStack extends cdk.Stack {
       ],
     });
 
+    // ==================== OpenSearch Serverless Search Collection ====================
+    // Conversation search (GET /conversations/search): a SEARCH collection of its own, so chat
+    // transcripts stay out of the knowledge base's vector collection, and documents can be keyed by
+    // conversationId (vector collections do not accept custom document IDs)
+    const conversationSearchCollection = new opensearchserverless.VectorCollection(this, 'ConversationSearchCollection', {
+      collectionName: 'askusda-conversations',
+      description: 'Conversation search index for the AskUSDA admin dashboard',
+      collectionType: opensearchserverless.VectorCollectionType.SEARCH,
+      standbyReplicas: opensearchserverless.VectorCollectionStandbyReplicas.DISABLED, // Cost optimization
+    });
+
     // ==================== IAM Role for Bedrock Knowledge Base ====================
     const knowledgeBaseRole = new iam.Role(this, 'KnowledgeBaseRole', {
       assumedBy: new iam.ServicePrincipal('bedrock.amazonaws.com'),
@@ -395,6 +571,11 @@ exports.handler = async (event) => {
 
     conversationHistoryTable.grantReadWriteData(lambdaRole);
     escalationTable.grantReadWriteData(lambdaRole);
+    sessionMemoryTable.grantReadWriteData(lambdaRole);
+    runtimeConfigTable.grantReadData(lambdaRole);
+    guardrailEventsTable.grantWriteData(lambdaRole);
+    connectionsTable.grantReadWriteData(lambdaRole);
+    rateLimitTable.grantReadWriteData(lambdaRole);
 
     // Bedrock permissions - Foundation models (all regions for cross-region inference)
     lambdaRole.addToPolicy(new iam.PolicyStatement({
@@ -450,21 +631,22 @@ exports.handler = async (event) => {
       functionName: 'AskUSDA-WebSocketHandler',
       runtime: lambda.Runtime.NODEJS_20_X,
       handler: 'index.handler',
-      code: lambda.Code.fromAsset('lambda/websocket-handler', {
-        bundling: {
-          image: lambda.Runtime.NODEJS_20_X.bundlingImage,
-          command: [
-            'bash', '-c',
-            'npm install && cp -au . /asset-output'
-          ],
-        },
-      }),
+      code: lambdaCodeWithShared('websocket-handler'),
       role: lambdaRole,
       timeout: cdk.Duration.seconds(30),
       memorySize: 512,
       environment: {
         CONVERSATION_TABLE: conversationHistoryTable.tableName,
         ESCALATION_TABLE: escalationTable.tableName,
+        SESSION_TABLE: sessionMemoryTable.tableName,
+        HISTORY_MAX_TURNS: '6',
+        CONFIG_TABLE: runtimeConfigTable.tableName,
+        GUARDRAIL_EVENTS_TABLE: guardrailEventsTable.tableName,
+        GUARDRAIL_FAILURE_MODE: 'open', // 'closed' blocks messages when the guardrail call fails
+        CONNECTIONS_TABLE: connectionsTable.tableName,
+        CONNECTION_ROLE_INDEX: 'role-index',
+        HANDOFF_STATUS_INDEX: 'handoffStatus-requestedAt-index',
+        RATE_LIMIT_TABLE: rateLimitTable.tableName,
         OPENSEARCH_ENDPOINT: vectorCollection.collectionEndpoint,
         BEDROCK_MODEL_ID: 'amazon.nova-pro-v1:0',
         EMBEDDING_MODEL_ID: 'amazon.titan-embed-text-v2:0',
@@ -500,6 +682,27 @@ exports.handler = async (event) => {
       integration: new apigatewayv2_integrations.WebSocketLambdaIntegration('SubmitEscalationIntegration', webSocketHandler),
     });
 
+    // Live agent handoff routes (agent-only actions are checked against the connections table)
+    webSocketApi.addRoute('requestAgent', {
+      integration: new apigatewayv2_integrations.WebSocketLambdaIntegration('RequestAgentIntegration', webSocketHandler),
+    });
+
+    webSocketApi.addRoute('listHandoffs', {
+      integration: new apigatewayv2_integrations.WebSocketLambdaIntegration('ListHandoffsIntegration', webSocketHandler),
+    });
+
+    webSocketApi.addRoute('claimHandoff', {
+      integration: new apigatewayv2_integrations.WebSocketLambdaIntegration('ClaimHandoffIntegration', webSocketHandler),
+    });
+
+    webSocketApi.addRoute('agentMessage', {
+      integration: new apigatewayv2_integrations.WebSocketLambdaIntegration('AgentMessageIntegration', webSocketHandler),
+    });
+
+    webSocketApi.addRoute('endHandoff', {
+      integration: new apigatewayv2_integrations.WebSocketLambdaIntegration('EndHandoffIntegration', webSocketHandler),
+    });
+
     const webSocketStage = new apigatewayv2.WebSocketStage(this, 'WebSocketStage', {
       webSocketApi,
       stageName: 'prod',
@@ -562,6 +765,21 @@ exports.handler = async (event) => {
         requireSymbols: false,
       },
       accountRecovery: cognito.AccountRecovery.EMAIL_ONLY,
+      // Every admin signs in with an authenticator app code (TOTP). The pool is retained, and an
+      // existing pool cannot switch to REQUIRED, so MFA stays OPTIONAL here and is enforced instead:
+      // the dashboard makes users without an app set one up before it stores their tokens, and the
+      // admin API and live chat refuse tokens of users without TOTP (shared/mfa.js). Administrators
+      // can reset a user's app from the Users page.
+      mfa: cognito.Mfa.OPTIONAL,
+      mfaSecondFactor: {
+        sms: false,
+        otp: true,
+      },
+      // Sent when an administrator invites a user or resets their password (admin API /users routes)
+      userInvitation: {
+        emailSubject: 'Your AskUSDA admin dashboard account',
+        emailBody: 'You have been given access to the AskUSDA admin dashboard. Sign in on the /admin page of the AskUSDA site with your email address {username} and the temporary password {####}. You will be asked to choose a new password.',
+      },
       removalPolicy: cdk.RemovalPolicy.RETAIN,
     });
 
@@ -573,8 +791,39 @@ exports.handler = async (event) => {
       },
       generateSecret: false, // For browser-based apps
       preventUserExistenceErrors: true,
+      // The dashboard renews ID and access tokens with the refresh token before they expire, so a
+      // session lasts a working day; signing out revokes the refresh token (GlobalSignOut / RevokeToken)
+      idTokenValidity: cdk.Duration.hours(1),
+      accessTokenValidity: cdk.Duration.hours(1),
+      refreshTokenValidity: cdk.Duration.hours(12),
+      enableTokenRevocation: true,
     });
 
+    // Admin roles: membership puts the group in the ID token's cognito:groups claim, which the
+    // admin API checks per route (see lambda/shared/roles.js). Users in no group are denied.
+    const adminGroups = [
+      { id: 'AdminGroupAdministrator', groupName: 'administrator', precedence: 1, description: 'Full access, including configuration, user management, conversation deletion and archiving escalations' },
+      { id: 'AdminGroupSupportAgent', groupName: 'support_agent', precedence: 2, description: 'View the dashboard, work escalations and answer live chats' },
+      { id: 'AdminGroupAnalyst', groupName: 'analyst', precedence: 3, description: 'View the dashboard and export data' },
+      { id: 'AdminGroupViewer', groupName: 'viewer', precedence: 4, description: 'View the dashboard (read only)' },
+    ];
+    for (const { id, ...group } of adminGroups) {
+      new cognito.CfnUserPoolGroup(this, id, {
+        userPoolId: adminUserPool.userPoolId,
+        ...group,
+      });
+    }
+
+    // Agents connect to the WebSocket API with their ID token; the handler verifies it against this pool
+    webSocketHandler.addEnvironment('USER_POOL_ID', adminUserPool.userPoolId);
+    webSocketHandler.addEnvironment('USER_POOL_CLIENT_ID', adminAppClient.userPoolClientId);
+    // ...and looks the agent up to check they have set up MFA (shared/mfa.js)
+    lambdaRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['cognito-idp:AdminGetUser'],
+      resources: [adminUserPool.userPoolArn],
+    }));
+
     // ==================== Admin API Lambda ====================
     const adminLambdaRole = new iam.Role(this, 'AdminLambdaRole', {
       assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
@@ -586,12 +835,192 @@ exports.handler = async (event) => {
     // Grant DynamoDB access to admin Lambda
     conversationHistoryTable.grantReadWriteData(adminLambdaRole);
     escalationTable.grantReadWriteData(adminLambdaRole);
+    runtimeConfigTable.grantReadWriteData(adminLambdaRole);
+    guardrailEventsTable.grantReadData(adminLambdaRole);
+    // Redacting a conversation also redacts its guardrail samples and drops its chat's session memory
+    guardrailEventsTable.grant(adminLambdaRole, 'dynamodb:UpdateItem');
+    sessionMemoryTable.grant(adminLambdaRole, 'dynamodb:DeleteItem');
+    metricsRollupTable.grantReadData(adminLambdaRole);
+    rateLimitTable.grantReadWriteData(adminLambdaRole);
+    exportJobsTable.grantReadWriteData(adminLambdaRole);
+
+    // Audit entries are written once and never changed: no update or delete permissions
+    auditTable.grantReadData(adminLambdaRole);
+    auditTable.grant(adminLambdaRole, 'dynamodb:PutItem');
+
+    // Presigned download links for finished exports
+    exportBucket.grantRead(adminLambdaRole);
+
+    // HMAC key for signing the opaque pagination cursors returned by list routes
+    // (also signs escalation challenge tokens, under a separate scope)
+    const cursorSigningSecret = new secretsmanager.Secret(this, 'CursorSigningSecret', {
+      secretName: 'AskUSDA-CursorSigningKey',
+      description: 'Signs pagination cursors returned by the admin API',
+      generateSecretString: {
+        passwordLength: 64,
+        excludePunctuation: true,
+      },
+    });
+    cursorSigningSecret.grantRead(adminLambdaRole);
+
+    // Conversation search reads the conversation index in the search collection
+    conversationSearchCollection.grantDataAccess(adminLambdaRole);
+
+    // Look up admin users when assigning escalations, and manage them (GET/POST /users routes)
+    adminLambdaRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'cognito-idp:AdminGetUser',
+        'cognito-idp:ListUsers',
+        'cognito-idp:ListUsersInGroup',
+        'cognito-idp:AdminListGroupsForUser',
+        'cognito-idp:AdminCreateUser',
+        'cognito-idp:AdminAddUserToGroup',
+        'cognito-idp:AdminRemoveUserFromGroup',
+        'cognito-idp:AdminDisableUser',
+        'cognito-idp:AdminEnableUser',
+        'cognito-idp:AdminSetUserPassword',
+        'cognito-idp:AdminUserGlobalSignOut',
+        'cognito-idp:AdminSetUserMFAPreference',
+      ],
+      resources: [adminUserPool.userPoolArn],
+    }));
 
     const adminHandler = new lambda.Function(this, 'AdminHandler', {
       functionName: 'AskUSDA-AdminHandler',
       runtime: lambda.Runtime.NODEJS_20_X,
       handler: 'index.handler',
-      code: lambda.Code.fromAsset('lambda/admin-api', {
+      code: lambdaCodeWithShared('admin-api'),
+      role: adminLambdaRole,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 256,
+      environment: {
+        CONVERSATION_TABLE: conversationHistoryTable.tableName,
+        ESCALATION_TABLE: escalationTable.tableName,
+        DATE_INDEX: 'date-timestamp-index',
+        FEEDBACK_INDEX: 'feedback-timestamp-index',
+        SESSION_INDEX: 'sessionId-timestamp-index',
+        ESCALATION_STATUS_INDEX: 'status-timestamp-index',
+        CURSOR_SECRET_ARN: cursorSigningSecret.secretArn,
+        USER_POOL_ID: adminUserPool.userPoolId,
+        CONFIG_TABLE: runtimeConfigTable.tableName,
+        GUARDRAIL_EVENTS_TABLE: guardrailEventsTable.tableName,
+        SESSION_TABLE: sessionMemoryTable.tableName,
+        METRICS_TABLE: metricsRollupTable.tableName,
+        CONVERSATION_SEARCH_ENDPOINT: conversationSearchCollection.collectionEndpoint,
+        CONVERSATION_SEARCH_INDEX: 'askusda-conversations',
+        RATE_LIMIT_TABLE: rateLimitTable.tableName,
+        ESCALATION_DATE_INDEX: 'DateTimestampIndex',
+        EXPORT_JOBS_TABLE: exportJobsTable.tableName,
+        EXPORT_BUCKET: exportBucket.bucketName,
+        AUDIT_TABLE: auditTable.tableName,
+        // Leading zero bits required by the public POST /escalations proof-of-work; '0' disables it
+        ESCALATION_CHALLENGE_DIFFICULTY: String(this.node.tryGetContext('escalationChallengeDifficulty') ?? '0'),
+      },
+    });
+
+    // ==================== Metrics Aggregator Lambda ====================
+    // Applies each conversation insert/feedback update to the rollups. Invoke with
+    // {"action":"backfill"} to rebuild them from existing items (see docs/APIDoc.md).
+    const metricsAggregator = new lambda.Function(this, 'MetricsAggregator', {
+      functionName: 'AskUSDA-MetricsAggregator',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.handler',
+      code: lambdaCodeWithShared('metrics-aggregator'),
+      timeout: cdk.Duration.minutes(15), // Backfill scans the whole conversation table
+      memorySize: 256,
+      environment: {
+        CONVERSATION_TABLE: conversationHistoryTable.tableName,
+        ESCALATION_TABLE: escalationTable.tableName,
+        METRICS_TABLE: metricsRollupTable.tableName,
+      },
+    });
+
+    conversationHistoryTable.grantReadData(metricsAggregator);
+    conversationHistoryTable.grantStreamRead(metricsAggregator);
+    escalationTable.grantReadData(metricsAggregator);
+    escalationTable.grantStreamRead(metricsAggregator);
+    metricsRollupTable.grantReadWriteData(metricsAggregator);
+
+    for (const sourceTable of [conversationHistoryTable, escalationTable]) {
+      metricsAggregator.addEventSource(new lambdaEventSources.DynamoEventSource(sourceTable, {
+        startingPosition: lambda.StartingPosition.TRIM_HORIZON,
+        batchSize: 100,
+        retryAttempts: 10,
+        reportBatchItemFailures: true,
+      }));
+    }
+
+    // ==================== Conversation Indexer Lambda ====================
+    // Mirrors Conversation History into a search index in the conversation search collection for
+    // GET /conversations/search. Invoke with {"action":"reindex"} to index existing items.
+    const conversationIndexer = new lambda.Function(this, 'ConversationIndexer', {
+      functionName: 'AskUSDA-ConversationIndexer',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.handler',
+      code: lambdaCodeWithShared('conversation-indexer'),
+      timeout: cdk.Duration.minutes(15), // Reindex scans the whole conversation table
+      memorySize: 256,
+      environment: {
+        CONVERSATION_TABLE: conversationHistoryTable.tableName,
+        CONVERSATION_SEARCH_ENDPOINT: conversationSearchCollection.collectionEndpoint,
+        CONVERSATION_SEARCH_INDEX: 'askusda-conversations',
+      },
+    });
+
+    conversationHistoryTable.grantReadData(conversationIndexer);
+    conversationHistoryTable.grantStreamRead(conversationIndexer);
+    conversationSearchCollection.grantDataAccess(conversationIndexer.role!);
+
+    conversationIndexer.addEventSource(new lambdaEventSources.DynamoEventSource(conversationHistoryTable, {
+      startingPosition: lambda.StartingPosition.TRIM_HORIZON,
+      batchSize: 100,
+      retryAttempts: 10,
+      reportBatchItemFailures: true,
+    }));
+
+    // ==================== Export Worker Lambda ====================
+    // Writes exports too large for a direct download (POST /export-jobs) to the export bucket.
+    // Started by the admin API with an asynchronous invoke of { "exportId": "..." }.
+    const exportWorker = new lambda.Function(this, 'ExportWorker', {
+      functionName: 'AskUSDA-ExportWorker',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.handler',
+      code: lambdaCodeWithShared('export-worker'),
+      timeout: cdk.Duration.minutes(15), // Up to a year of conversations
+      memorySize: 1024,
+      retryAttempts: 0, // A failed job is reported to the dashboard; the admin starts a new one
+      environment: {
+        EXPORT_JOBS_TABLE: exportJobsTable.tableName,
+        EXPORT_BUCKET: exportBucket.bucketName,
+        CONVERSATION_TABLE: conversationHistoryTable.tableName,
+        ESCALATION_TABLE: escalationTable.tableName,
+        DATE_INDEX: 'date-timestamp-index',
+        FEEDBACK_INDEX: 'feedback-timestamp-index',
+        ESCALATION_DATE_INDEX: 'DateTimestampIndex',
+      },
+    });
+
+    conversationHistoryTable.grantReadData(exportWorker);
+    escalationTable.grantReadData(exportWorker);
+    exportJobsTable.grantReadWriteData(exportWorker);
+    exportBucket.grantPut(exportWorker);
+    exportWorker.grantInvoke(adminLambdaRole);
+    adminHandler.addEnvironment('EXPORT_WORKER_FUNCTION', exportWorker.functionName);
+
+    // ==================== Escalation Notifier Lambda ====================
+    // Emails staff about new escalations and the requester on receipt/resolution.
+    // Configure with cdk context: notificationFromEmail (SES-verified sender, required to enable),
+    // staffNotificationEmails (comma-separated), dashboardUrl (defaults to the Amplify app).
+    const amplifyAppId = this.node.tryGetContext('amplifyAppId');
+    const dashboardUrl = this.node.tryGetContext('dashboardUrl')
+      || (amplifyAppId ? `https://master.${amplifyAppId}.amplifyapp.com/dashboard/` : '');
+
+    const escalationNotifier = new lambda.Function(this, 'EscalationNotifier', {
+      functionName: 'AskUSDA-EscalationNotifier',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.handler',
+      code: lambda.Code.fromAsset('lambda/escalation-notifier', {
         bundling: {
           image: lambda.Runtime.NODEJS_20_X.bundlingImage,
           command: [
@@ -600,17 +1029,34 @@ exports.handler = async (event) => {
           ],
         },
       }),
-      role: adminLambdaRole,
       timeout: cdk.Duration.seconds(30),
       memorySize: 256,
       environment: {
-        CONVERSATION_TABLE: conversationHistoryTable.tableName,
+        MAIL_TRANSPORT: 'ses',
+        NOTIFICATION_FROM_EMAIL: this.node.tryGetContext('notificationFromEmail') || '',
+        STAFF_NOTIFICATION_EMAILS: this.node.tryGetContext('staffNotificationEmails') || '',
+        DASHBOARD_URL: dashboardUrl,
         ESCALATION_TABLE: escalationTable.tableName,
-        DATE_INDEX: 'date-timestamp-index',
-        FEEDBACK_INDEX: 'feedback-timestamp-index',
       },
     });
 
+    escalationTable.grantStreamRead(escalationNotifier);
+    // Marks each notification as sent on the escalation item so retried records do not resend it
+    escalationTable.grant(escalationNotifier, 'dynamodb:UpdateItem');
+
+    escalationNotifier.addToRolePolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['ses:SendEmail'],
+      resources: [`arn:aws:ses:${cdk.Aws.REGION}:${cdk.Aws.ACCOUNT_ID}:identity/*`],
+    }));
+
+    escalationNotifier.addEventSource(new lambdaEventSources.DynamoEventSource(escalationTable, {
+      startingPosition: lambda.StartingPosition.LATEST, // Never email about escalations from before deployment
+      batchSize: 10,
+      retryAttempts: 3,
+      reportBatchItemFailures: true,
+    }));
+
     // ==================== Admin HTTP API Gateway ====================
     const adminApi = new apigatewayv2.HttpApi(this, 'AdminApi', {
       apiName: 'AskUSDA-AdminAPI',
@@ -620,6 +1066,8 @@ exports.handler = async (event) => {
         allowMethods: [
           apigatewayv2.CorsHttpMethod.GET,
           apigatewayv2.CorsHttpMethod.POST,
+          apigatewayv2.CorsHttpMethod.PUT,
+          apigatewayv2.CorsHttpMethod.PATCH,
           apigatewayv2.CorsHttpMethod.DELETE,
           apigatewayv2.CorsHttpMethod.OPTIONS,
         ],
@@ -667,11 +1115,125 @@ exports.handler = async (event) => {
 
     adminApi.addRoutes({
       path: '/escalations/{id}',
+      methods: [apigatewayv2.HttpMethod.GET, apigatewayv2.HttpMethod.PATCH, apigatewayv2.HttpMethod.DELETE],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/conversations/search',
+      methods: [apigatewayv2.HttpMethod.GET],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    // Conversation management: soft delete, redact, and bulk delete by range and filters
+    adminApi.addRoutes({
+      path: '/conversations/{id}',
       methods: [apigatewayv2.HttpMethod.DELETE],
       integration: adminIntegration,
       authorizer: jwtAuthorizer,
     });
 
+    adminApi.addRoutes({
+      path: '/conversations/{id}/redact',
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/conversations/bulk-delete',
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/exports/{dataset}',
+      methods: [apigatewayv2.HttpMethod.GET],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/export-jobs',
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/export-jobs/{id}',
+      methods: [apigatewayv2.HttpMethod.GET],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/config',
+      methods: [apigatewayv2.HttpMethod.GET, apigatewayv2.HttpMethod.PUT],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/guardrail-events',
+      methods: [apigatewayv2.HttpMethod.GET],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/audit',
+      methods: [apigatewayv2.HttpMethod.GET],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    // Admin user management (administrators only - see lambda/shared/roles.js)
+    adminApi.addRoutes({
+      path: '/users',
+      methods: [apigatewayv2.HttpMethod.GET, apigatewayv2.HttpMethod.POST],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/users/{username}/disable',
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/users/{username}/enable',
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/users/{username}/reset-password',
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/users/{username}/reset-mfa',
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
+    adminApi.addRoutes({
+      path: '/users/{username}/role',
+      methods: [apigatewayv2.HttpMethod.PUT],
+      integration: adminIntegration,
+      authorizer: jwtAuthorizer,
+    });
+
     // Public routes (no auth required - for submitting feedback/escalations from chatbot)
     adminApi.addRoutes({
       path: '/feedback',
@@ -685,6 +1247,13 @@ exports.handler = async (event) => {
       integration: adminIntegration,
     });
 
+    // Proof-of-work challenge for POST /escalations (takes precedence over /escalations/{id})
+    adminApi.addRoutes({
+      path: '/escalations/challenge',
+      methods: [apigatewayv2.HttpMethod.GET],
+      integration: adminIntegration,
+    });
+
     // ==================== Stack Outputs ====================
     new cdk.CfnOutput(this, 'WebSocketUrl', {
       value: webSocketStage.url,
@@ -710,6 +1279,12 @@ exports.handler = async (event) => {
       exportName: 'AskUSDA-OpenSearchEndpoint',
     });
 
+    new cdk.CfnOutput(this, 'ConversationSearchEndpoint', {
+      value: conversationSearchCollection.collectionEndpoint,
+      description: 'OpenSearch Serverless collection endpoint for conversation search',
+      exportName: 'AskUSDA-ConversationSearchEndpoint',
+    });
+
     new cdk.CfnOutput(this, 'UsdaGovDataSourceId', {
       value: usdaGovDataSource.attrDataSourceId,
       description: 'USDA.gov Data Source ID',
@@ -746,6 +1321,12 @@ exports.handler = async (event) => {
       exportName: 'AskUSDA-EscalationTable',
     });
 
+    new cdk.CfnOutput(this, 'AdminAuditTableName', {
+      value: auditTable.tableName,
+      description: 'DynamoDB Admin Audit Log Table',
+      exportName: 'AskUSDA-AdminAuditTable',
+    });
+
     // Cognito Outputs
     new cdk.CfnOutput(this, 'AdminUserPoolId', {
       value: adminUserPool.userPoolId,
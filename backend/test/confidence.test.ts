@@ -0,0 +1,37 @@
+const { scoreConfidence, renderFallbackMessage } = require('../lambda/websocket-handler/confidence');
+
+describe('scoreConfidence', () => {
+  const results = [{ score: 0.4 }, { score: 0.9 }, { score: 0.6 }, { score: 0.1 }];
+
+  test('scores no results as zero', () => {
+    expect(scoreConfidence([], { scoringStrategy: 'max', topK: 3 })).toBe(0);
+  });
+
+  test('max takes the best score whatever the order', () => {
+    expect(scoreConfidence(results, { scoringStrategy: 'max', topK: 1 })).toBe(0.9);
+  });
+
+  test('mean averages the top-k scores', () => {
+    expect(scoreConfidence(results, { scoringStrategy: 'mean', topK: 3 })).toBeCloseTo((0.9 + 0.6 + 0.4) / 3);
+  });
+
+  test('weighted counts the best results most', () => {
+    const expected = (0.9 + 0.6 / 2 + 0.4 / 3) / (1 + 1 / 2 + 1 / 3);
+    expect(scoreConfidence(results, { scoringStrategy: 'weighted', topK: 3 })).toBeCloseTo(expected);
+  });
+
+  test('uses at least one result when topK is zero', () => {
+    expect(scoreConfidence(results, { scoringStrategy: 'mean', topK: 0 })).toBe(0.9);
+  });
+
+  test('falls back to max for an unknown strategy', () => {
+    expect(scoreConfidence(results, { scoringStrategy: 'median', topK: 3 })).toBe(0.9);
+  });
+});
+
+describe('renderFallbackMessage', () => {
+  test('fills every placeholder, with the confidence as a percentage', () => {
+    expect(renderFallbackMessage('"{question}" scored {confidence} ({confidence})', 'SNAP?', 0.456))
+      .toBe('"SNAP?" scored 46% (46%)');
+  });
+});
@@ -0,0 +1,39 @@
+const { InvalidCursorError, signCursor, verifyCursor } = require('../lambda/admin-api/cursors');
+
+describe('signed cursors', () => {
+  const key = 'test-signing-key';
+  const positions = { pos: { conversationId: 'c-1', timestamp: '2025-01-05T10:15:00.000Z' }, neg: 'done' };
+
+  test('round-trips the positions for the same key and scope', () => {
+    const cursor = signCursor(key, 'feedback:all', positions);
+    expect(verifyCursor(key, 'feedback:all', cursor)).toEqual(positions);
+  });
+
+  test('rejects a cursor signed with another key', () => {
+    const cursor = signCursor('other-key', 'feedback:all', positions);
+    expect(() => verifyCursor(key, 'feedback:all', cursor)).toThrow(InvalidCursorError);
+  });
+
+  test('rejects a cursor from another listing', () => {
+    const cursor = signCursor(key, 'escalations:pending', positions);
+    expect(() => verifyCursor(key, 'feedback:all', cursor)).toThrow(InvalidCursorError);
+  });
+
+  test('rejects a tampered payload', () => {
+    const [, signature] = signCursor(key, 'feedback:all', positions).split('.');
+    const forged = Buffer.from(JSON.stringify({ scope: 'feedback:all', positions: { pos: null } })).toString('base64url');
+    expect(() => verifyCursor(key, 'feedback:all', `${forged}.${signature}`)).toThrow(InvalidCursorError);
+  });
+
+  test('rejects malformed cursors', () => {
+    for (const cursor of [undefined, '', 'no-signature', '.sig', ['a.b'], 'bm90IGpzb24.c2ln']) {
+      expect(() => verifyCursor(key, 'feedback:all', cursor)).toThrow(InvalidCursorError);
+    }
+  });
+
+  test('rejects a correctly signed payload that is not JSON', () => {
+    const payload = Buffer.from('not json').toString('base64url');
+    const signature = require('crypto').createHmac('sha256', key).update(payload).digest('base64url');
+    expect(() => verifyCursor(key, 'feedback:all', `${payload}.${signature}`)).toThrow(InvalidCursorError);
+  });
+});
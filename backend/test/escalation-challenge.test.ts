@@ -0,0 +1,24 @@
+const { createHash } = require('crypto');
+const { leadingZeroBits, solvesChallenge } = require('../lambda/admin-api/escalation-challenge');
+
+describe('escalation proof-of-work', () => {
+  test('counts leading zero bits across bytes', () => {
+    expect(leadingZeroBits(Buffer.from([0xff]))).toBe(0);
+    expect(leadingZeroBits(Buffer.from([0x01]))).toBe(7);
+    expect(leadingZeroBits(Buffer.from([0x00, 0x00, 0x20]))).toBe(18);
+    expect(leadingZeroBits(Buffer.from([0x00, 0x00]))).toBe(16);
+  });
+
+  test('checks the hash of the challenge and solution against the difficulty', () => {
+    const challenge = 'test-challenge';
+    for (const solution of ['0', '1', '2', '3']) {
+      const bits = leadingZeroBits(createHash('sha256').update(`${challenge}:${solution}`).digest());
+      expect(solvesChallenge(challenge, solution, bits)).toBe(true);
+      expect(solvesChallenge(challenge, solution, bits + 1)).toBe(false);
+    }
+  });
+
+  test('any solution meets a difficulty of zero', () => {
+    expect(solvesChallenge('test-challenge', 'anything', 0)).toBe(true);
+  });
+});
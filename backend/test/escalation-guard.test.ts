@@ -0,0 +1,153 @@
+const {
+  RATE_LIMITS,
+  validateEscalation,
+  guardEscalation,
+  claimDuplicateKey,
+  resolveTranscriptSession,
+} = require('../lambda/shared/escalation-guard');
+import { FakeDocClient, fakeDocClient } from './fake-doc-client';
+
+
+describe('validateEscalation', () => {
+  const body = { name: '  Jane   Doe ', email: ' Jane@Example.COM ', phone: '+1 (555) 010-2030', question: 'How do I apply for a farm loan?' };
+
+  test('normalizes a valid request', () => {
+    expect(validateEscalation(body)).toEqual({
+      valid: true,
+      fieldErrors: {},
+      values: { name: 'Jane Doe', email: 'jane@example.com', phone: '+1 (555) 010-2030', question: 'How do I apply for a farm loan?' },
+    });
+  });
+
+  test('reports every missing required field', () => {
+    const { valid, fieldErrors } = validateEscalation({});
+    expect(valid).toBe(false);
+    expect(Object.keys(fieldErrors).sort()).toEqual(['email', 'name', 'question']);
+  });
+
+  test('rejects a malformed email and phone number', () => {
+    const { fieldErrors } = validateEscalation({ ...body, email: 'jane@example', phone: '12-34' });
+    expect(fieldErrors).toEqual({ email: 'Enter a valid email address', phone: 'Enter a valid phone number' });
+  });
+
+  test('enforces the question length', () => {
+    expect(validateEscalation({ ...body, question: 'Help' }).fieldErrors.question).toMatch(/at least/);
+    expect(validateEscalation({ ...body, question: 'x'.repeat(2001) }).fieldErrors.question).toMatch(/at most/);
+  });
+
+  test('ignores non-string values', () => {
+    expect(validateEscalation({ ...body, name: ['Jane'] }).fieldErrors.name).toBe('Name is required');
+  });
+});
+
+describe('guardEscalation', () => {
+  const body = { name: 'Jane Doe', email: 'jane@example.com', question: 'How do I apply for a farm loan?' };
+  const guard = (docClient: FakeDocClient, extra = {}) =>
+    guardEscalation({ docClient, tableName: 'rate-limits', body, escalationId: 'esc-new', sourceIp: '203.0.113.7', connectionId: 'conn-1', ...extra });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('rejects an invalid body without touching the table', async () => {
+    const docClient = fakeDocClient();
+    const result = await guard(docClient, { body: {} });
+    expect(result).toMatchObject({ ok: false, status: 400, code: 'VALIDATION_FAILED' });
+    expect(docClient.sent).toHaveLength(0);
+  });
+
+  test('only validates when no table is configured', async () => {
+    const docClient = fakeDocClient();
+    expect(await guard(docClient, { tableName: undefined })).toMatchObject({ ok: true });
+    expect(docClient.sent).toHaveLength(0);
+  });
+
+  test('counts the IP and connection, then claims the duplicate key', async () => {
+    const docClient = fakeDocClient(name => (name === 'UpdateCommand' ? { Attributes: { count: 1 } } : {}));
+    expect(await guard(docClient)).toMatchObject({ ok: true, values: { email: 'jane@example.com' } });
+    expect(docClient.sent.map(c => c.name)).toEqual(['UpdateCommand', 'UpdateCommand', 'PutCommand']);
+    expect(docClient.sent[0].input).toMatchObject({ Key: { key: expect.stringMatching(/^rate#escalation#ip#203\.0\.113\.7#\d+$/) } });
+    expect(docClient.sent[1].input).toMatchObject({ Key: { key: expect.stringMatching(/^rate#escalation#connection#conn-1#\d+$/) } });
+  });
+
+  test('returns 429 once a window is over its limit', async () => {
+    const docClient = fakeDocClient(() => ({ Attributes: { count: RATE_LIMITS.ip.limit + 1 } }));
+    const result = await guard(docClient);
+    expect(result).toMatchObject({ ok: false, status: 429, code: 'RATE_LIMITED' });
+    expect(result.retryAfterSeconds).toBeGreaterThan(0);
+    expect(result.retryAfterSeconds).toBeLessThanOrEqual(RATE_LIMITS.ip.windowSeconds);
+    expect(docClient.sent).toHaveLength(1);
+  });
+
+  test('returns 409 with the earlier escalation for a resubmission', async () => {
+    const docClient = fakeDocClient(name => {
+      if (name === 'UpdateCommand') return { Attributes: { count: 1 } };
+      throw Object.assign(new Error('taken'), { name: 'ConditionalCheckFailedException', Item: { escalationId: { S: 'esc-old' } } });
+    });
+    expect(await guard(docClient)).toMatchObject({ ok: false, status: 409, code: 'DUPLICATE', escalationId: 'esc-old' });
+  });
+});
+
+describe('claimDuplicateKey', () => {
+  test('treats case and whitespace changes in the question as the same request', async () => {
+    const docClient = fakeDocClient();
+    await claimDuplicateKey(docClient, 'rate-limits', { email: 'jane@example.com', question: 'Farm  loan help' }, 'esc-1');
+    await claimDuplicateKey(docClient, 'rate-limits', { email: 'jane@example.com', question: 'farm loan HELP' }, 'esc-2');
+    await claimDuplicateKey(docClient, 'rate-limits', { email: 'john@example.com', question: 'farm loan help' }, 'esc-3');
+    const [first, second, third] = docClient.sent.map(c => (c.input.Item as { key: string }).key);
+    expect(first).toBe(second);
+    expect(third).not.toBe(first);
+  });
+
+  test('rethrows other errors', async () => {
+    const docClient = fakeDocClient(() => {
+      throw new Error('throttled');
+    });
+    await expect(claimDuplicateKey(docClient, 'rate-limits', { email: 'a@b.co', question: 'question text' }, 'esc-1'))
+      .rejects.toThrow('throttled');
+  });
+});
+
+describe('resolveTranscriptSession', () => {
+  const stored = { conversationId: 'conv-1', sessionId: 'session-1', connectionId: 'conn-1' };
+  const resolve = (body: Record<string, unknown>, item: Record<string, unknown> | null = stored, connectionId = 'conn-2') =>
+    resolveTranscriptSession({
+      docClient: fakeDocClient(() => ({ Items: item ? [item] : [] })),
+      conversationTable: 'conversations',
+      body,
+      connectionId,
+    });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('links the stored session when the requester names it', async () => {
+    expect(await resolve({ conversationId: 'conv-1', sessionId: 'session-1' })).toBe('session-1');
+  });
+
+  test('links the stored session for the connection that asked', async () => {
+    expect(await resolve({ conversationId: 'conv-1' }, stored, 'conn-1')).toBe('session-1');
+  });
+
+  test('links nothing for someone else\'s conversation', async () => {
+    expect(await resolve({ conversationId: 'conv-1', sessionId: 'session-2' })).toBe('');
+  });
+
+  test('links nothing when the requester opts out or names no conversation', async () => {
+    expect(await resolve({ conversationId: 'conv-1', sessionId: 'session-1', attachTranscript: false })).toBe('');
+    expect(await resolve({ sessionId: 'session-1' })).toBe('');
+  });
+
+  test('links nothing for a deleted conversation', async () => {
+    expect(await resolve({ conversationId: 'conv-1', sessionId: 'session-1' }, { ...stored, deletedAt: '2025-01-01T00:00:00Z' })).toBe('');
+  });
+});
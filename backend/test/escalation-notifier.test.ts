@@ -0,0 +1,203 @@
+const templates = require('../lambda/escalation-notifier/templates');
+const { createMailer } = require('../lambda/escalation-notifier/mailer');
+const nodemailer = require('nodemailer');
+const { SESv2Client } = require('@aws-sdk/client-sesv2');
+const { DynamoDBDocumentClient } = require('@aws-sdk/lib-dynamodb');
+const { marshall } = require('@aws-sdk/util-dynamodb');
+import { FakeDocClient, fakeDocClient } from './fake-doc-client';
+
+interface SentMail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const escalation = {
+  escalationId: 'esc/1&2',
+  timestamp: '2025-01-05T10:15:00.000Z',
+  name: '<b>Jane</b> Doe',
+  email: 'jane+"x"@example.com',
+  phone: '',
+  question: 'Is <script>alert(1)</script> & "this" safe?',
+  status: 'pending',
+};
+
+describe('notification templates', () => {
+  test('escapes the requester\'s name, email and question in the staff email', () => {
+    const { subject, text, html } = templates.newEscalationStaff(escalation, 'https://admin.example.gov/dashboard?escalation=esc%2F1%262');
+    expect(subject).toBe('New AskUSDA support request from <b>Jane</b> Doe');
+    expect(html).toContain('&lt;b&gt;Jane&lt;/b&gt; Doe');
+    expect(html).toContain('jane+&quot;x&quot;@example.com');
+    expect(html).toContain('Is &lt;script&gt;alert(1)&lt;/script&gt; &amp; &quot;this&quot; safe?');
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<b>Jane</b>');
+    expect(text).toContain('Question:\nIs <script>alert(1)</script> & "this" safe?');
+    expect(text).toContain('Phone: Not provided');
+  });
+
+  test('links the staff email to the escalation in the dashboard', () => {
+    const link = 'https://admin.example.gov/dashboard?escalation=esc%2F1%262&tab=\'x\'';
+    const { text, html } = templates.newEscalationStaff(escalation, link);
+    expect(text).toContain(`View in dashboard: ${link}`);
+    expect(html).toContain('href="https://admin.example.gov/dashboard?escalation=esc%2F1%262&amp;tab=&#39;x&#39;"');
+  });
+
+  test('escapes the requester emails and includes the reference', () => {
+    for (const { html, text } of [templates.escalationReceived(escalation), templates.escalationResolved(escalation)]) {
+      expect(html).toContain('Hello &lt;b&gt;Jane&lt;/b&gt; Doe,');
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('Reference: esc/1&amp;2');
+      expect(text).toContain('Reference: esc/1&2');
+    }
+  });
+});
+
+describe('createMailer', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('uses SES unless configured otherwise', async () => {
+    const send = jest.spyOn(SESv2Client.prototype, 'send').mockResolvedValue({} as never);
+    const mailer = createMailer({ NOTIFICATION_FROM_EMAIL: 'noreply@example.gov' });
+    expect(mailer.name).toBe('ses');
+
+    await mailer.send({ to: ['a@example.gov', 'b@example.gov'], subject: 'Subject', text: 'Text', html: '<p>Html</p>' });
+    expect((send.mock.calls[0][0] as { input: unknown }).input).toMatchObject({
+      FromEmailAddress: 'noreply@example.gov',
+      Destination: { ToAddresses: ['a@example.gov', 'b@example.gov'] },
+      Content: { Simple: { Subject: { Data: 'Subject' }, Body: { Text: { Data: 'Text' }, Html: { Data: '<p>Html</p>' } } } },
+    });
+  });
+
+  test('uses SMTP against a local mail catcher when MAIL_TRANSPORT is smtp', async () => {
+    const sendMail = jest.fn((mail: SentMail) => Promise.resolve({}));
+    const createTransport = jest.spyOn(nodemailer, 'createTransport').mockReturnValue({ sendMail });
+    const mailer = createMailer({ MAIL_TRANSPORT: 'smtp', NOTIFICATION_FROM_EMAIL: 'noreply@example.gov', SMTP_HOST: 'mailhog' });
+    expect(mailer.name).toBe('smtp');
+    expect(createTransport).toHaveBeenCalledWith({ host: 'mailhog', port: 1025, secure: false });
+
+    await mailer.send({ to: ['a@example.gov', 'b@example.gov'], subject: 'Subject', text: 'Text', html: '<p>Html</p>' });
+    expect(sendMail).toHaveBeenCalledWith({
+      from: 'noreply@example.gov',
+      to: 'a@example.gov, b@example.gov',
+      subject: 'Subject',
+      text: 'Text',
+      html: '<p>Html</p>',
+    });
+  });
+
+  test('passes SMTP credentials when given', () => {
+    const createTransport = jest.spyOn(nodemailer, 'createTransport').mockReturnValue({ sendMail: jest.fn() });
+    createMailer({ MAIL_TRANSPORT: 'smtp', SMTP_HOST: 'smtp.example.gov', SMTP_PORT: '465', SMTP_USER: 'user', SMTP_PASS: 'pass' });
+    expect(createTransport).toHaveBeenCalledWith({ host: 'smtp.example.gov', port: 465, secure: true, auth: { user: 'user', pass: 'pass' } });
+  });
+
+  test('rejects an unknown transport', () => {
+    expect(() => createMailer({ MAIL_TRANSPORT: 'pigeon' })).toThrow('Unknown MAIL_TRANSPORT: pigeon');
+  });
+});
+
+describe('escalation notifier handler', () => {
+  // The handler reads its configuration when loaded; mail goes to the SMTP stand-in below
+  Object.assign(process.env, {
+    ESCALATION_TABLE: 'escalations',
+    NOTIFICATION_FROM_EMAIL: 'noreply@example.gov',
+    STAFF_NOTIFICATION_EMAILS: 'staff1@example.gov, staff2@example.gov',
+    DASHBOARD_URL: 'https://admin.example.gov/dashboard',
+    MAIL_TRANSPORT: 'smtp',
+  });
+  const { handler } = require('../lambda/escalation-notifier/index');
+
+  const sendMail = jest.fn((mail: SentMail) => Promise.resolve({}));
+  let docClient: FakeDocClient;
+
+  // Stream record of the escalation table
+  function streamRecord(eventName: string, newItem: object, oldItem?: object) {
+    return {
+      eventID: 'event-1',
+      eventName,
+      dynamodb: {
+        NewImage: marshall(newItem),
+        ...(oldItem && { OldImage: marshall(oldItem) }),
+        SequenceNumber: '100',
+      },
+    };
+  }
+
+  // Update expressions sent for the notification flags, e.g. "SET staffNotifiedFor"
+  function flagUpdates() {
+    return docClient.sent.map(c => {
+      const [verb] = String(c.input.UpdateExpression).split(' ');
+      return `${verb} ${(c.input.ExpressionAttributeNames as Record<string, string>)['#flag']}`;
+    });
+  }
+
+  beforeEach(() => {
+    sendMail.mockReset();
+    sendMail.mockImplementation(() => Promise.resolve({}));
+    jest.spyOn(nodemailer, 'createTransport').mockReturnValue({ sendMail });
+    docClient = fakeDocClient();
+    jest.spyOn(DynamoDBDocumentClient.prototype, 'send').mockImplementation(command => docClient.send(command as never));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('emails staff with the dashboard link and confirms receipt to the requester', async () => {
+    expect(await handler({ Records: [streamRecord('INSERT', escalation)] })).toEqual({ batchItemFailures: [] });
+
+    const [staff, receipt] = sendMail.mock.calls.map(([mail]) => mail);
+    expect(staff.to).toBe('staff1@example.gov, staff2@example.gov');
+    expect(staff.text).toContain('View in dashboard: https://admin.example.gov/dashboard?escalation=esc%2F1%262');
+    expect(receipt.to).toBe(escalation.email);
+    expect(receipt.subject).toBe('We received your USDA support request');
+
+    expect(flagUpdates()).toEqual(['SET staffNotifiedFor', 'SET receiptNotifiedFor']);
+    expect(docClient.sent[0].input).toMatchObject({
+      TableName: 'escalations',
+      Key: { escalationId: escalation.escalationId, timestamp: escalation.timestamp },
+      ExpressionAttributeValues: { ':marker': escalation.timestamp },
+    });
+  });
+
+  test('skips emails already flagged on the item', async () => {
+    docClient = fakeDocClient(() => {
+      throw Object.assign(new Error('flagged'), { name: 'ConditionalCheckFailedException' });
+    });
+    expect(await handler({ Records: [streamRecord('INSERT', escalation)] })).toEqual({ batchItemFailures: [] });
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  test('releases the flag and retries the record when a send fails', async () => {
+    sendMail.mockImplementationOnce(() => Promise.reject(new Error('SMTP down')));
+    expect(await handler({ Records: [streamRecord('INSERT', escalation)] })).toEqual({ batchItemFailures: [{ itemIdentifier: '100' }] });
+    expect(flagUpdates()).toEqual(['SET staffNotifiedFor', 'REMOVE staffNotifiedFor']);
+    expect(sendMail).toHaveBeenCalledTimes(1);
+  });
+
+  test('keeps the flag for a requester address that cannot be delivered to', async () => {
+    sendMail
+      .mockImplementationOnce(() => Promise.resolve({}))
+      .mockImplementationOnce(() => Promise.reject(Object.assign(new Error('bad address'), { name: 'MessageRejected' })));
+    expect(await handler({ Records: [streamRecord('INSERT', escalation)] })).toEqual({ batchItemFailures: [] });
+    expect(flagUpdates()).toEqual(['SET staffNotifiedFor', 'SET receiptNotifiedFor']);
+  });
+
+  test('tells the requester once when their request is resolved', async () => {
+    const resolved = { ...escalation, status: 'resolved', updatedAt: '2025-01-06T09:00:00.000Z' };
+    await handler({ Records: [streamRecord('MODIFY', resolved, { ...escalation, status: 'in_progress' })] });
+    expect(sendMail).toHaveBeenCalledTimes(1);
+    expect(sendMail.mock.calls[0][0].subject).toBe('Your USDA support request has been resolved');
+    expect(docClient.sent[0].input).toMatchObject({ ExpressionAttributeValues: { ':marker': resolved.updatedAt } });
+
+    await handler({ Records: [streamRecord('MODIFY', { ...resolved, assignee: 'agent@example.gov' }, resolved)] });
+    expect(sendMail).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,54 @@
+const { ESCALATION_TRANSITIONS, ESCALATION_STATUSES, resolveNextStatus } = require('../lambda/admin-api/escalation-workflow');
+
+describe('escalation status transitions', () => {
+  test('every transition targets a known active status', () => {
+    for (const targets of Object.values(ESCALATION_TRANSITIONS) as string[][]) {
+      for (const target of targets) {
+        expect(ESCALATION_TRANSITIONS).toHaveProperty(target);
+      }
+    }
+    expect(ESCALATION_STATUSES).toContain('archived');
+  });
+
+  test('allows a listed transition', () => {
+    expect(resolveNextStatus({ currentStatus: 'assigned', status: 'in_progress', assignee: 'agent-1' }))
+      .toEqual({ nextStatus: 'in_progress' });
+  });
+
+  test('rejects an unlisted transition and names the allowed ones', () => {
+    expect(resolveNextStatus({ currentStatus: 'pending', status: 'resolved', assignee: 'agent-1' })).toEqual({
+      error: 'Cannot change status from pending to resolved',
+      allowedStatuses: ['assigned', 'closed'],
+    });
+  });
+
+  test('closed escalations cannot be reopened', () => {
+    expect(resolveNextStatus({ currentStatus: 'closed', status: 'pending' }).allowedStatuses).toEqual([]);
+  });
+
+  test('assigning someone to a pending escalation moves it to assigned', () => {
+    expect(resolveNextStatus({ currentStatus: 'pending', assigneeChanged: true, assignee: 'agent-1' }))
+      .toEqual({ nextStatus: 'assigned' });
+  });
+
+  test('assigning someone with an explicit status keeps that status', () => {
+    expect(resolveNextStatus({ currentStatus: 'pending', status: 'closed', assigneeChanged: true, assignee: 'agent-1' }))
+      .toEqual({ nextStatus: 'closed' });
+  });
+
+  test('keeps the current status when only the note changes', () => {
+    expect(resolveNextStatus({ currentStatus: 'resolved', assignee: 'agent-1' })).toEqual({ nextStatus: 'resolved' });
+  });
+
+  test('requires an assignee for assigned and in_progress', () => {
+    expect(resolveNextStatus({ currentStatus: 'pending', status: 'assigned' }))
+      .toEqual({ error: 'An assignee is required for status assigned' });
+    expect(resolveNextStatus({ currentStatus: 'in_progress', assigneeChanged: true, assignee: null }))
+      .toEqual({ error: 'An assignee is required for status in_progress' });
+  });
+
+  test('allows unassigning by moving back to pending', () => {
+    expect(resolveNextStatus({ currentStatus: 'assigned', status: 'pending', assigneeChanged: true, assignee: null }))
+      .toEqual({ nextStatus: 'pending' });
+  });
+});
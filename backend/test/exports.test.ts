@@ -0,0 +1,122 @@
+const { formatExportHeader, formatExportRow, getExportFileName, iterateExportItems } = require('../lambda/shared/exports');
+import { FakeDocClient, fakeDocClient } from './fake-doc-client';
+
+describe('export formatting', () => {
+  const conversation = {
+    conversationId: 'c-1',
+    timestamp: '2025-01-05T10:15:00.000Z',
+    question: 'Loan "rates", please',
+    answer: 'Line one\nline two',
+    feedback: 'neg',
+    feedbackReasons: ['incorrect', 'outdated'],
+    citations: JSON.stringify([{ source: 'a.pdf', score: 0.91234 }, { source: 'b.pdf' }]),
+  };
+
+  test('starts CSV files with a BOM and the header row, NDJSON with nothing', () => {
+    expect(formatExportHeader('feedback', 'csv')).toBe(
+      '\ufeffconversationId,timestamp,feedback,feedbackTs,feedbackReasons,feedbackComment,question,answerPreview,outcome,confidence\r\n'
+    );
+    expect(formatExportHeader('feedback', 'ndjson')).toBe('');
+  });
+
+  test('quotes CSV cells and flattens lists and citations', () => {
+    const line = formatExportRow('conversations', 'csv', conversation);
+    expect(line).toBe(
+      'c-1,2025-01-05T10:15:00.000Z,,"Loan ""rates"", please",,"Line one\nline two",answered,,,neg,incorrect; outdated,,,,2,a.pdf; b.pdf,0.912; \r\n'
+    );
+  });
+
+  test('prefixes formula-like text so spreadsheets do not evaluate it', () => {
+    const line = formatExportRow('escalations', 'csv', { escalationId: 'e-1', timestamp: 't', name: '=HYPERLINK("x")', phone: '+1 555 0100' });
+    expect(line.split(',')[3]).toBe('"\'=HYPERLINK(""x"")"');
+    expect(line).toContain(",'+1 555 0100,");
+  });
+
+  test('writes one JSON record per line for NDJSON', () => {
+    const record = JSON.parse(formatExportRow('conversations', 'ndjson', conversation));
+    expect(record).toMatchObject({ conversationId: 'c-1', outcome: 'answered', citationCount: 2, feedbackReasons: 'incorrect; outdated' });
+    expect(formatExportRow('conversations', 'ndjson', conversation).endsWith('}\n')).toBe(true);
+  });
+
+  test('survives citations that are not valid JSON', () => {
+    expect(JSON.parse(formatExportRow('conversations', 'ndjson', { ...conversation, citations: '{' })).citationCount).toBe(0);
+  });
+
+  test('names the file after the dataset, range and format', () => {
+    expect(getExportFileName({ dataset: 'feedback', from: '2025-01-01', to: '2025-01-31', format: 'ndjson' }))
+      .toBe('askusda-feedback-2025-01-01-to-2025-01-31.ndjson');
+  });
+});
+
+describe('iterateExportItems', () => {
+  const tables = {
+    conversationTable: 'conversations',
+    escalationTable: 'escalations',
+    dateIndex: 'date-index',
+    feedbackIndex: 'feedback-index',
+    escalationDateIndex: 'escalation-date-index',
+  };
+
+  // Document client that answers queries from items keyed by index partition, one page per item
+  function partitionDocClient(partitions: Record<string, { timestamp: string; [field: string]: unknown }[]>) {
+    return fakeDocClient((name, input) => {
+      const values = input.ExpressionAttributeValues as Record<string, string>;
+      const items = (partitions[values[':pk']] || [])
+        .filter(item => item.timestamp >= values[':start'] && item.timestamp <= values[':end']);
+      const offset = (input.ExclusiveStartKey as { offset: number } | undefined)?.offset ?? 0;
+      return {
+        Items: items.slice(offset, offset + 1),
+        LastEvaluatedKey: offset + 1 < items.length ? { offset: offset + 1 } : undefined,
+      };
+    });
+  }
+
+  async function collect(docClient: FakeDocClient, request: Record<string, unknown>) {
+    const items = [];
+    for await (const item of iterateExportItems(docClient, tables, request)) items.push(item);
+    return items;
+  }
+
+  test('merges the feedback partitions oldest first and applies the reason filter', async () => {
+    const docClient = partitionDocClient({
+      pos: [{ conversationId: 'p-1', timestamp: '2025-01-01T01:00:00Z' }, { conversationId: 'p-2', timestamp: '2025-01-01T03:00:00Z' }],
+      neg: [
+        { conversationId: 'n-1', timestamp: '2025-01-01T02:00:00Z', feedbackReasons: ['outdated'] },
+        { conversationId: 'n-2', timestamp: '2025-01-01T04:00:00Z', feedbackReasons: ['incorrect'] },
+      ],
+    });
+    const request = { dataset: 'feedback', start: '2025-01-01T00:00:00Z', end: '2025-01-02T00:00:00.000Z' };
+
+    expect((await collect(docClient, request)).map(i => i.conversationId)).toEqual(['p-1', 'n-1', 'p-2', 'n-2']);
+    expect((await collect(docClient, { ...request, filters: { reason: 'outdated' } })).map(i => i.conversationId)).toEqual(['n-1']);
+  });
+
+  test('reads each date partition of the range and skips deleted conversations', async () => {
+    const docClient = partitionDocClient({
+      '2025-01-01': [{ conversationId: 'c-1', timestamp: '2025-01-01T23:00:00.000Z' }],
+      '2025-01-02': [
+        { conversationId: 'c-2', timestamp: '2025-01-02T01:00:00.000Z', deletedAt: '2025-01-03T00:00:00Z' },
+        { conversationId: 'c-3', timestamp: '2025-01-02T02:00:00.000Z', outcome: 'blocked' },
+      ],
+      '2025-01-03': [{ conversationId: 'c-4', timestamp: '2025-01-03T00:00:00.000Z' }],
+    });
+    const request = { dataset: 'conversations', start: '2025-01-01T00:00:00.000Z', end: '2025-01-03T00:00:00.000Z' };
+
+    expect((await collect(docClient, request)).map(i => i.conversationId)).toEqual(['c-1', 'c-3']);
+    expect(docClient.sent.every(c => c.input.IndexName === 'date-index' && c.input.TableName === 'conversations')).toBe(true);
+    expect((await collect(docClient, { ...request, filters: { outcomes: ['answered'] } })).map(i => i.conversationId)).toEqual(['c-1']);
+  });
+
+  test('filters escalations by status', async () => {
+    const docClient = partitionDocClient({
+      '2025-01-01': [
+        { escalationId: 'e-1', timestamp: '2025-01-01T01:00:00.000Z' },
+        { escalationId: 'e-2', timestamp: '2025-01-01T02:00:00.000Z', status: 'closed' },
+      ],
+    });
+    const request = { dataset: 'escalations', start: '2025-01-01T00:00:00.000Z', end: '2025-01-02T00:00:00.000Z', filters: { statuses: ['pending'] } };
+
+    expect((await collect(docClient, request)).map(i => i.escalationId)).toEqual(['e-1']);
+    expect(docClient.sent[0].input).toMatchObject({ TableName: 'escalations', IndexName: 'escalation-date-index' });
+  });
+});
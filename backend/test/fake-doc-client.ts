@@ -0,0 +1,28 @@
+// Stand-in for the DynamoDB document client the Lambdas take: records each command sent and
+// answers with whatever the handler returns (or throws).
+
+export type CommandInput = Record<string, unknown>;
+
+export interface SentCommand {
+  name: string;
+  input: CommandInput;
+}
+
+export type CommandHandler = (name: string, input: CommandInput) => unknown;
+
+export interface FakeDocClient {
+  sent: SentCommand[];
+  send: (command: { input: CommandInput }) => Promise<unknown>;
+}
+
+export function fakeDocClient(handler: CommandHandler = () => ({})): FakeDocClient {
+  const sent: SentCommand[] = [];
+  return {
+    sent,
+    send: async command => {
+      const name = command.constructor.name;
+      sent.push({ name, input: command.input });
+      return handler(name, command.input);
+    },
+  };
+}
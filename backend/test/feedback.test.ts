@@ -0,0 +1,90 @@
+const {
+  FEEDBACK_REASON_VALUES,
+  MAX_FEEDBACK_COMMENT_LENGTH,
+  validateFeedbackDetails,
+  ownsConversation,
+  buildFeedbackUpdate,
+} = require('../lambda/shared/feedback');
+
+describe('validateFeedbackDetails', () => {
+  test('returns no details when none were sent', () => {
+    expect(validateFeedbackDetails('pos', {})).toEqual({ details: null });
+    expect(validateFeedbackDetails('neg')).toEqual({ details: null });
+  });
+
+  test('only accepts details with negative feedback', () => {
+    expect(validateFeedbackDetails('pos', { reasons: ['incorrect'] }).error).toMatch(/only accepted with negative/);
+  });
+
+  test('dedupes reasons and trims the comment', () => {
+    expect(validateFeedbackDetails('neg', { reasons: ['incorrect', 'outdated', 'incorrect'], comment: '  Old rates  ' }))
+      .toEqual({ details: { reasons: ['incorrect', 'outdated'], comment: 'Old rates' } });
+  });
+
+  test('accepts a comment without reasons', () => {
+    expect(validateFeedbackDetails('neg', { comment: 'Wrong office' })).toEqual({ details: { reasons: [], comment: 'Wrong office' } });
+  });
+
+  test('rejects unknown reasons and non-list reasons', () => {
+    for (const reasons of [['rude'], 'incorrect', [FEEDBACK_REASON_VALUES[0], 42]]) {
+      expect(validateFeedbackDetails('neg', { reasons }).error).toMatch(/^reasons must be a list of/);
+    }
+  });
+
+  test('rejects a non-string or overlong comment', () => {
+    expect(validateFeedbackDetails('neg', { comment: 5 }).error).toBe('comment must be a string');
+    expect(validateFeedbackDetails('neg', { comment: 'x'.repeat(MAX_FEEDBACK_COMMENT_LENGTH + 1) }).error).toMatch(/at most/);
+  });
+});
+
+
+describe('ownsConversation', () => {
+  const stored = { conversationId: 'c-1', connectionId: 'conn-1', sessionId: 's-1' };
+
+  test('accepts the connection that received the answer', () => {
+    expect(ownsConversation(stored, { connectionId: 'conn-1' })).toBe(true);
+  });
+
+  test('accepts the session the conversation was answered in', () => {
+    expect(ownsConversation(stored, { connectionId: 'conn-2', sessionId: 's-1' })).toBe(true);
+  });
+
+  test('rejects other connections and sessions', () => {
+    expect(ownsConversation(stored, { connectionId: 'conn-2', sessionId: 's-2' })).toBe(false);
+    expect(ownsConversation(stored, {})).toBe(false);
+  });
+
+  test('does not match an empty session on both sides', () => {
+    expect(ownsConversation({ ...stored, sessionId: '' }, { sessionId: '' })).toBe(false);
+  });
+
+  test('rejects unknown and deleted conversations', () => {
+    expect(ownsConversation(null, { connectionId: 'conn-1' })).toBe(false);
+    expect(ownsConversation({ ...stored, deletedAt: '2025-01-06T00:00:00.000Z' }, { connectionId: 'conn-1' })).toBe(false);
+  });
+});
+
+describe('buildFeedbackUpdate', () => {
+  test('positive feedback clears earlier details', () => {
+    const update = buildFeedbackUpdate('pos', null);
+    expect(update.UpdateExpression).toBe('SET feedback = :feedback, feedbackTs = :feedbackTs REMOVE feedbackReasons, feedbackComment');
+    expect(update.ExpressionAttributeValues[':feedback']).toBe('pos');
+  });
+
+  test('negative feedback without details keeps the ones already given', () => {
+    expect(buildFeedbackUpdate('neg', null).UpdateExpression).toBe('SET feedback = :feedback, feedbackTs = :feedbackTs');
+  });
+
+  test('stores the reasons and comment given', () => {
+    const update = buildFeedbackUpdate('neg', { reasons: ['outdated'], comment: 'Old rates' });
+    expect(update.UpdateExpression).toBe('SET feedback = :feedback, feedbackTs = :feedbackTs, feedbackReasons = :reasons, feedbackComment = :comment');
+    expect(update.ExpressionAttributeValues).toMatchObject({ ':reasons': ['outdated'], ':comment': 'Old rates' });
+  });
+
+  test('removes the parts left empty', () => {
+    expect(buildFeedbackUpdate('neg', { reasons: [], comment: 'Old rates' }).UpdateExpression)
+      .toBe('SET feedback = :feedback, feedbackTs = :feedbackTs, feedbackComment = :comment REMOVE feedbackReasons');
+    expect(buildFeedbackUpdate('neg', { reasons: ['incorrect'], comment: '' }).UpdateExpression)
+      .toBe('SET feedback = :feedback, feedbackTs = :feedbackTs, feedbackReasons = :reasons REMOVE feedbackComment');
+  });
+});
@@ -0,0 +1,109 @@
+const {
+  getContribution,
+  getEscalationContribution,
+  diffCounts,
+  getRecordUpdates,
+} = require('../lambda/metrics-aggregator/rollups');
+
+const conversation = {
+  conversationId: 'c-1',
+  timestamp: '2025-01-05T10:15:00.000Z',
+  date: '2025-01-05',
+  outcome: 'answered',
+  responseTimeMs: 1500,
+};
+
+describe('getContribution', () => {
+  test('counts nothing for a missing or deleted conversation', () => {
+    for (const item of [null, { ...conversation, deletedAt: '2025-01-06T00:00:00.000Z' }]) {
+      const counts = getContribution(item);
+      expect(Object.values(counts).every(value => value === 0)).toBe(true);
+    }
+  });
+
+  test('counts the conversation, its outcome and response time bucket', () => {
+    const counts = getContribution(conversation);
+    expect(counts).toMatchObject({
+      conversations: 1,
+      outcome_answered: 1,
+      responseTimeSum: 1500,
+      responseTimeCount: 1,
+      rt_1to2s: 1,
+      rt_lt1s: 0,
+      feedbackPos: 0,
+      feedbackNeg: 0,
+    });
+  });
+
+  test('treats conversations recorded before outcomes as answered', () => {
+    expect(getContribution({ ...conversation, outcome: undefined }).outcome_answered).toBe(1);
+  });
+
+  test('counts known thumbs-down reasons only', () => {
+    const counts = getContribution({ ...conversation, feedback: 'neg', feedbackReasons: ['outdated', 'made_up'] });
+    expect(counts.feedbackNeg).toBe(1);
+    expect(counts.feedbackReason_outdated).toBe(1);
+    expect(counts).not.toHaveProperty('feedbackReason_made_up');
+  });
+});
+
+describe('diffCounts', () => {
+  test('subtracts over every counter either side touches', () => {
+    expect(diffCounts({ a: 1, b: 2 }, { b: 3, c: 1 })).toEqual({ a: -1, b: 1, c: 1 });
+  });
+});
+
+describe('getRecordUpdates', () => {
+  test('adds a new conversation to the total, day and hour rollups', () => {
+    const updates = getRecordUpdates({ eventName: 'INSERT', oldItem: null, newItem: conversation });
+    expect(updates.map((u: { key: unknown }) => u.key)).toEqual([
+      { granularity: 'TOTAL', bucket: 'ALL' },
+      { granularity: 'DAY', bucket: '2025-01-05' },
+      { granularity: 'HOUR', bucket: '2025-01-05T10' },
+    ]);
+    expect(updates[0].delta.conversations).toBe(1);
+  });
+
+  test('moves only the feedback counters when feedback changes', () => {
+    const [total] = getRecordUpdates({
+      eventName: 'MODIFY',
+      oldItem: { ...conversation, feedback: 'pos' },
+      newItem: { ...conversation, feedback: 'neg', feedbackReasons: ['incorrect'] },
+    });
+    const changed = Object.fromEntries(Object.entries(total.delta).filter(([, value]) => value !== 0));
+    expect(changed).toEqual({ feedbackPos: -1, feedbackNeg: 1, feedbackReason_incorrect: 1 });
+  });
+
+  test('removes a soft-deleted conversation from every rollup', () => {
+    const updates = getRecordUpdates({
+      eventName: 'MODIFY',
+      oldItem: conversation,
+      newItem: { ...conversation, deletedAt: '2025-01-06T00:00:00.000Z' },
+    });
+    expect(updates).toHaveLength(3);
+    expect(updates.every((u: { delta: Record<string, number> }) => u.delta.conversations === -1)).toBe(true);
+  });
+
+  test('keeps expired conversations in the daily and hourly history', () => {
+    const updates = getRecordUpdates({ eventName: 'REMOVE', oldItem: conversation, newItem: null });
+    expect(updates).toHaveLength(1);
+    expect(updates[0].key).toEqual({ granularity: 'TOTAL', bucket: 'ALL' });
+    expect(updates[0].delta.conversations).toBe(-1);
+  });
+
+  test('skips records that change no counter', () => {
+    expect(getRecordUpdates({ eventName: 'MODIFY', oldItem: conversation, newItem: { ...conversation, retrievalQuery: 'x' } })).toEqual([]);
+  });
+
+  test('moves an escalation between status counters', () => {
+    const [update] = getRecordUpdates({
+      eventName: 'MODIFY',
+      oldItem: { escalationId: 'e-1' },
+      newItem: { escalationId: 'e-1', status: 'resolved' },
+      isEscalation: true,
+    });
+    expect(update.key).toEqual({ granularity: 'TOTAL', bucket: 'ESCALATIONS' });
+    expect(update.delta).toEqual({ escalations: 0, status_pending: -1, status_resolved: 1 });
+    expect(getEscalationContribution(null)).toEqual({});
+  });
+});
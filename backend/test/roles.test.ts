@@ -0,0 +1,38 @@
+const { getRoles, hasPermission, getRolesWith, describeDenial } = require('../lambda/shared/roles');
+
+describe('admin roles', () => {
+  test('reads groups from a verified token list', () => {
+    expect(getRoles({ 'cognito:groups': ['support_agent', 'analyst'] })).toEqual(['analyst', 'support_agent']);
+  });
+
+  test('reads groups from the JWT authorizer string form', () => {
+    expect(getRoles({ 'cognito:groups': '[analyst support_agent]' })).toEqual(['analyst', 'support_agent']);
+    expect(getRoles({ 'cognito:groups': 'administrator' })).toEqual(['administrator']);
+  });
+
+  test('ignores unknown groups and missing claims', () => {
+    expect(getRoles({ 'cognito:groups': ['owners', 'viewer'] })).toEqual(['viewer']);
+    expect(getRoles({ 'cognito:groups': '[administrators]' })).toEqual([]);
+    expect(getRoles({})).toEqual([]);
+    expect(getRoles(undefined)).toEqual([]);
+  });
+
+  test('grants a permission when any role has it', () => {
+    expect(hasPermission(['viewer', 'analyst'], 'data:export')).toBe(true);
+    expect(hasPermission(['viewer', 'support_agent'], 'data:export')).toBe(false);
+    expect(hasPermission([], 'dashboard:read')).toBe(false);
+  });
+
+  test('keeps user management and the audit log to administrators', () => {
+    expect(getRolesWith('users:manage')).toEqual(['administrator']);
+    expect(getRolesWith('audit:read')).toEqual(['administrator']);
+    expect(getRolesWith('livechat:agent')).toEqual(['support_agent', 'administrator']);
+    expect(getRolesWith('dashboard:read')).toEqual(['viewer', 'analyst', 'support_agent', 'administrator']);
+  });
+
+  test('explains a denial with the roles that would be allowed', () => {
+    expect(describeDenial(['viewer'], 'data:export'))
+      .toBe('Your role (viewer) does not allow you to export data. Required: analyst or administrator.');
+    expect(describeDenial([], 'dashboard:read')).toMatch(/not been assigned a role/);
+  });
+});
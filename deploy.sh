@@ -19,6 +19,11 @@ STACK_NAME="AskUSDA-Backend"
 AWS_REGION=${AWS_REGION:-$(aws configure get region || echo "us-east-1")}
 AWS_ACCOUNT_ID=$(aws sts get-caller-identity --query Account --output text)
 AMPLIFY_APP_NAME="AskUSDA-Frontend"
+# Escalation email notifications (optional): SES-verified sender and comma-separated staff list
+NOTIFICATION_FROM_EMAIL=${NOTIFICATION_FROM_EMAIL:-}
+STAFF_NOTIFICATION_EMAILS=${STAFF_NOTIFICATION_EMAILS:-}
+# Proof-of-work difficulty (leading zero bits) for the public POST /escalations route; 0 disables it
+ESCALATION_CHALLENGE_DIFFICULTY=${ESCALATION_CHALLENGE_DIFFICULTY:-0}
 CODEBUILD_PROJECT_NAME="${PROJECT_NAME}-deployment"
 REPOSITORY_URL="https://github.com/ASUCICREPO/AskUSDA.git" # IMPORTANT: repo url from which codebuild runs
 
@@ -193,6 +198,18 @@ ENV_VARS_ARRAY='{
     "name": "CDK_DEFAULT_ACCOUNT",
     "value": "'"$AWS_ACCOUNT_ID"'",
     "type": "PLAINTEXT"
+  },{
+    "name": "NOTIFICATION_FROM_EMAIL",
+    "value": "'"$NOTIFICATION_FROM_EMAIL"'",
+    "type": "PLAINTEXT"
+  },{
+    "name": "STAFF_NOTIFICATION_EMAILS",
+    "value": "'"$STAFF_NOTIFICATION_EMAILS"'",
+    "type": "PLAINTEXT"
+  },{
+    "name": "ESCALATION_CHALLENGE_DIFFICULTY",
+    "value": "'"$ESCALATION_CHALLENGE_DIFFICULTY"'",
+    "type": "PLAINTEXT"
   }'
 
 ENVIRONMENT=$(cat <<EOF
@@ -2,11 +2,14 @@
 
 import { useState, FormEvent, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { useAdminAuth } from '../context/AdminAuthContext';
+import { useAdminAuth, SignInResult } from '../context/AdminAuthContext';
+
+// Sign-in steps, in the order Cognito asks for them
+type SignInStep = 'password' | 'newPassword' | 'mfaSetup' | 'mfaCode';
 
 export default function AdminLoginPage() {
   const router = useRouter();
-  const { signIn, completeNewPassword, isAuthenticated, isLoading: authLoading } = useAdminAuth();
+  const { signIn, completeNewPassword, startMfaSetup, verifyMfaSetup, submitMfaCode, isAuthenticated, isLoading: authLoading } = useAdminAuth();
   
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
@@ -15,7 +18,10 @@ export default function AdminLoginPage() {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [needsNewPassword, setNeedsNewPassword] = useState(false);
+  const [step, setStep] = useState<SignInStep>('password');
+  const [mfaCode, setMfaCode] = useState('');
+  const [mfaSecret, setMfaSecret] = useState('');
+  const [mfaUri, setMfaUri] = useState('');
 
   // Redirect if already authenticated
   useEffect(() => {
@@ -24,20 +30,37 @@ export default function AdminLoginPage() {
     }
   }, [isAuthenticated, authLoading, router]);
 
+  // Go to the dashboard, or on to the next step Cognito asked for
+  const handleResult = async (result: SignInResult, fallbackError: string) => {
+    if (result.success) {
+      router.push('/dashboard');
+    } else if (result.newPasswordRequired) {
+      setStep('newPassword');
+    } else if (result.mfaSetupRequired) {
+      const setup = await startMfaSetup();
+      if (setup.success) {
+        setMfaSecret(setup.secretCode || '');
+        setMfaUri(setup.otpauthUri || '');
+        setMfaCode('');
+        setStep('mfaSetup');
+      } else {
+        setError(setup.error || 'Failed to start authenticator setup');
+      }
+    } else if (result.mfaCodeRequired) {
+      setMfaCode('');
+      setStep('mfaCode');
+    } else {
+      setError(result.error || fallbackError);
+    }
+  };
+
   const handleSignIn = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
     setIsLoading(true);
 
     const result = await signIn(username, password);
-    
-    if (result.success) {
-      router.push('/dashboard');
-    } else if (result.newPasswordRequired) {
-      setNeedsNewPassword(true);
-    } else {
-      setError(result.error || 'Sign in failed');
-    }
+    await handleResult(result, 'Sign in failed');
     
     setIsLoading(false);
   };
@@ -58,16 +81,35 @@ export default function AdminLoginPage() {
 
     setIsLoading(true);
     const result = await completeNewPassword(newPassword);
+    await handleResult(result, 'Failed to set new password');
     
-    if (result.success) {
-      router.push('/dashboard');
-    } else {
-      setError(result.error || 'Failed to set new password');
+    setIsLoading(false);
+  };
+
+  const handleMfaCode = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!/^\d{6}$/.test(mfaCode)) {
+      setError('Enter the 6-digit code from your authenticator app');
+      return;
     }
-    
+
+    setIsLoading(true);
+    const result = step === 'mfaSetup' ? await verifyMfaSetup(mfaCode) : await submitMfaCode(mfaCode);
+    await handleResult(result, 'Failed to verify the code');
+
     setIsLoading(false);
   };
 
+  // Start over from the password step (e.g. after the sign-in session expired)
+  const restartSignIn = () => {
+    setError('');
+    setPassword('');
+    setMfaCode('');
+    setStep('password');
+  };
+
   if (authLoading) {
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center">
@@ -95,7 +137,7 @@ export default function AdminLoginPage() {
 
         {/* Login Card */}
         <div className="bg-white rounded-2xl shadow-2xl p-8">
-          {!needsNewPassword ? (
+          {step === 'password' ? (
             <form onSubmit={handleSignIn} className="space-y-5">
               {/* Email */}
               <div>
@@ -208,7 +250,7 @@ export default function AdminLoginPage() {
                 )}
               </button>
             </form>
-          ) : (
+          ) : step === 'newPassword' ? (
             /* New Password Form */
             <form onSubmit={handleNewPassword} className="space-y-5">
               <div className="text-center mb-4">
@@ -334,6 +376,88 @@ export default function AdminLoginPage() {
                 )}
               </button>
             </form>
+          ) : (
+            /* MFA Form: set up an authenticator app, or enter its code */
+            <form onSubmit={handleMfaCode} className="space-y-5">
+              <div className="text-center mb-4">
+                <h2 className="text-lg font-semibold text-gray-800">
+                  {step === 'mfaSetup' ? 'Set Up Two-Factor Authentication' : 'Two-Factor Authentication'}
+                </h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  {step === 'mfaSetup'
+                    ? 'Add AskUSDA Admin to an authenticator app (such as Google Authenticator, Microsoft Authenticator or Authy), then enter the code it shows'
+                    : 'Enter the 6-digit code from your authenticator app'}
+                </p>
+              </div>
+
+              {step === 'mfaSetup' && (
+                <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+                  <p className="text-xs font-medium text-gray-700">Setup key</p>
+                  <p className="font-mono text-sm text-gray-900 break-all select-all">
+                    {mfaSecret.match(/.{1,4}/g)?.join(' ')}
+                  </p>
+                  <a href={mfaUri} className="inline-block text-sm font-medium text-[#002d72] hover:underline">
+                    Open in authenticator app
+                  </a>
+                </div>
+              )}
+
+              {/* Code */}
+              <div>
+                <label htmlFor="mfaCode" className="block text-sm font-medium text-gray-700 mb-1.5">
+                  Authentication Code
+                </label>
+                <input
+                  id="mfaCode"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(e.target.value.replace(/\D/g, ''))}
+                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#002d72] focus:border-transparent outline-none transition-all font-mono tracking-widest text-center text-lg"
+                  placeholder="123456"
+                  required
+                  autoFocus
+                />
+              </div>
+
+              {/* Error Message */}
+              {error && (
+                <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-100 rounded-lg text-red-600 text-sm">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <circle cx="12" cy="12" r="10" />
+                    <line x1="12" y1="8" x2="12" y2="12" />
+                    <line x1="12" y1="16" x2="12.01" y2="16" />
+                  </svg>
+                  <span>{error}</span>
+                </div>
+              )}
+
+              {/* Submit Button */}
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full py-3 bg-[#002d72] hover:bg-[#001f4d] text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isLoading ? (
+                  <>
+                    <div className="h-5 w-5 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                    Verifying...
+                  </>
+                ) : (
+                  'Verify & Continue'
+                )}
+              </button>
+
+              <button
+                type="button"
+                onClick={restartSignIn}
+                className="w-full text-sm text-gray-500 hover:text-gray-700"
+              >
+                Back to sign in
+              </button>
+            </form>
           )}
         </div>
 
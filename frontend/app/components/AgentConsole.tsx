@@ -0,0 +1,335 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+
+interface HandoffMessage {
+  from: "user" | "agent";
+  author?: string;
+  text: string;
+  timestamp: string;
+}
+
+interface Handoff {
+  connectionId: string;
+  handoffId: string;
+  sessionId: string | null;
+  name: string | null;
+  status: "waiting" | "active";
+  requestedAt: string;
+  agentEmail: string | null;
+  context: Array<{ question: string; answer: string }>; // Recent bot exchanges before the handoff
+  messages: HandoffMessage[];
+}
+
+interface AgentSocketMessage {
+  type: "handoffQueue" | "handoffClaimed" | "handoffMessage" | "handoffStatus" | "error";
+  handoffs?: Handoff[];
+  handoff?: Handoff;
+  connectionId?: string;
+  from?: "user" | "agent";
+  author?: string;
+  text?: string;
+  timestamp?: string;
+  status?: string;
+  endedBy?: "user" | "agent";
+  message?: string;
+}
+
+interface AgentConsoleProps {
+  idToken: string;
+  agentEmail: string;
+}
+
+const WEBSOCKET_URL = process.env.NEXT_PUBLIC_WEBSOCKET_URL || "";
+
+// Live chat console: agents go online over the chat WebSocket (authenticated with their
+// Cognito ID token), see waiting users in real time, claim them and reply.
+export default function AgentConsole({ idToken, agentEmail }: AgentConsoleProps) {
+  const [isOnline, setIsOnline] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [handoffs, setHandoffs] = useState<Handoff[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const wsRef = useRef<WebSocket | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const send = useCallback((payload: Record<string, unknown>) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify(payload));
+    }
+  }, []);
+
+  // Handle incoming WebSocket messages
+  const handleSocketMessage = useCallback((data: AgentSocketMessage) => {
+    switch (data.type) {
+      case "handoffQueue":
+        setHandoffs(data.handoffs || []);
+        break;
+
+      case "handoffClaimed":
+        if (data.handoff) {
+          const claimed = data.handoff;
+          setHandoffs((prev) => [...prev.filter((h) => h.connectionId !== claimed.connectionId), claimed]);
+          setSelectedId(claimed.connectionId);
+        }
+        break;
+
+      case "handoffMessage":
+        if (data.connectionId && data.text) {
+          const entry: HandoffMessage = {
+            from: data.from || "user",
+            author: data.author,
+            text: data.text,
+            timestamp: data.timestamp || new Date().toISOString(),
+          };
+          setHandoffs((prev) =>
+            prev.map((h) => (h.connectionId === data.connectionId ? { ...h, messages: [...h.messages, entry] } : h))
+          );
+        }
+        break;
+
+      case "handoffStatus":
+        if (data.status === "ended" && data.connectionId) {
+          setHandoffs((prev) => prev.filter((h) => h.connectionId !== data.connectionId));
+          setSelectedId((prev) => (prev === data.connectionId ? null : prev));
+          setError(data.endedBy === "user" ? "The user left the chat." : null);
+        }
+        break;
+
+      case "error":
+        setError(data.message || "Something went wrong");
+        break;
+    }
+  }, []);
+
+  // Go online - the token is checked by the WebSocket handler on $connect
+  const connect = useCallback(() => {
+    if (!WEBSOCKET_URL || wsRef.current) return;
+
+    setIsConnecting(true);
+    setError(null);
+    const ws = new WebSocket(`${WEBSOCKET_URL}?token=${encodeURIComponent(idToken)}`);
+
+    ws.onopen = () => {
+      setIsOnline(true);
+      setIsConnecting(false);
+      ws.send(JSON.stringify({ action: "listHandoffs" }));
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        handleSocketMessage(JSON.parse(event.data));
+      } catch (err) {
+        console.error("Failed to parse agent WebSocket message:", err);
+      }
+    };
+
+    ws.onerror = () => {
+      setError("Could not connect to live chat. Try signing in again.");
+    };
+
+    ws.onclose = () => {
+      setIsOnline(false);
+      setIsConnecting(false);
+      setHandoffs([]);
+      setSelectedId(null);
+      wsRef.current = null;
+    };
+
+    wsRef.current = ws;
+  }, [idToken, handleSocketMessage]);
+
+  // Go offline - the server puts this agent's active chats back in the queue
+  const disconnect = () => {
+    wsRef.current?.close();
+  };
+
+  // Close the connection when leaving the dashboard
+  useEffect(() => {
+    return () => {
+      wsRef.current?.close();
+    };
+  }, []);
+
+  const selected = handoffs.find((h) => h.connectionId === selectedId) || null;
+  const isMine = (h: Handoff) => h.status === "active" && h.agentEmail === agentEmail;
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [selected?.messages.length]);
+
+  const handleSend = () => {
+    if (!selected || !draft.trim()) return;
+    send({ action: "agentMessage", connectionId: selected.connectionId, message: draft.trim() });
+    setDraft("");
+  };
+
+  const waiting = handoffs.filter((h) => h.status === "waiting");
+  const mine = handoffs.filter(isMine);
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white shadow-sm">
+      <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <h2 className="text-lg font-semibold text-gray-900">Live Chat</h2>
+          <span className={`h-2 w-2 rounded-full ${isOnline ? "bg-green-500" : isConnecting ? "animate-pulse bg-yellow-400" : "bg-gray-300"}`} />
+          {isOnline && waiting.length > 0 && (
+            <span className="rounded-full bg-amber-100 px-2.5 py-0.5 text-xs font-medium text-amber-800">
+              {waiting.length} waiting
+            </span>
+          )}
+        </div>
+        {WEBSOCKET_URL ? (
+          <button
+            onClick={isOnline ? disconnect : connect}
+            disabled={isConnecting}
+            className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors disabled:opacity-50 ${
+              isOnline ? "bg-gray-100 text-gray-700 hover:bg-gray-200" : "bg-[#002d72] text-white hover:bg-[#001f4d]"
+            }`}
+          >
+            {isOnline ? "Go Offline" : isConnecting ? "Connecting..." : "Go Online"}
+          </button>
+        ) : (
+          <span className="text-sm text-gray-500">WebSocket URL not configured</span>
+        )}
+      </div>
+
+      {error && (
+        <div className="border-b border-red-100 bg-red-50 px-6 py-2 text-sm text-red-700">{error}</div>
+      )}
+
+      {!isOnline ? (
+        <p className="px-6 py-8 text-center text-sm text-gray-500">
+          Go online to receive live chat requests from AskUSDA users.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3">
+          {/* Queue */}
+          <div className="border-b border-gray-200 md:border-b-0 md:border-r">
+            <p className="px-4 pt-4 text-xs font-semibold uppercase tracking-wider text-gray-500">My Chats</p>
+            {mine.length === 0 ? (
+              <p className="px-4 py-2 text-sm text-gray-400">None</p>
+            ) : (
+              <ul className="py-2">
+                {mine.map((h) => (
+                  <li key={h.connectionId}>
+                    <button
+                      onClick={() => setSelectedId(h.connectionId)}
+                      className={`w-full px-4 py-2 text-left text-sm hover:bg-gray-50 ${selectedId === h.connectionId ? "bg-blue-50" : ""}`}
+                    >
+                      <span className="font-medium text-gray-900">{h.name || "Chat user"}</span>
+                      <span className="block text-xs text-gray-500">{h.messages.length} messages</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <p className="px-4 pt-2 text-xs font-semibold uppercase tracking-wider text-gray-500">Waiting</p>
+            {waiting.length === 0 ? (
+              <p className="px-4 py-2 pb-4 text-sm text-gray-400">No one is waiting</p>
+            ) : (
+              <ul className="py-2">
+                {waiting.map((h) => (
+                  <li key={h.connectionId} className="flex items-center justify-between gap-2 px-4 py-2">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium text-gray-900">
+                        {h.context[h.context.length - 1]?.question || h.name || "Chat user"}
+                      </p>
+                      <p className="text-xs text-gray-500">Since {new Date(h.requestedAt).toLocaleTimeString()}</p>
+                    </div>
+                    <button
+                      onClick={() => send({ action: "claimHandoff", connectionId: h.connectionId })}
+                      className="flex-shrink-0 rounded-lg bg-[#002d72] px-3 py-1.5 text-xs font-medium text-white hover:bg-[#001f4d]"
+                    >
+                      Claim
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Conversation */}
+          <div className="flex h-[420px] flex-col md:col-span-2">
+            {!selected ? (
+              <p className="m-auto text-sm text-gray-500">Claim a waiting chat or select one of yours.</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+                  <p className="text-sm font-medium text-gray-900">{selected.name || "Chat user"}</p>
+                  {isMine(selected) && (
+                    <button
+                      onClick={() => send({ action: "endHandoff", connectionId: selected.connectionId })}
+                      className="rounded-lg px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50"
+                    >
+                      End Chat
+                    </button>
+                  )}
+                </div>
+
+                <div className="flex-1 space-y-3 overflow-y-auto bg-gray-50 p-4">
+                  {/* What the bot already told the user */}
+                  {selected.context.length > 0 && (
+                    <div className="rounded-lg border border-gray-200 bg-white p-3 text-xs text-gray-600">
+                      <p className="mb-2 font-semibold uppercase tracking-wider text-gray-500">Before handoff</p>
+                      {selected.context.map((turn, index) => (
+                        <div key={index} className="mb-2 last:mb-0">
+                          <p><span className="font-semibold">User:</span> {turn.question}</p>
+                          <p className="line-clamp-3"><span className="font-semibold">AskUSDA:</span> {turn.answer}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {selected.messages.map((message, index) => (
+                    <div key={`${message.timestamp}-${index}`} className={`flex ${message.from === "agent" ? "justify-end" : "justify-start"}`}>
+                      <div
+                        className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm ${
+                          message.from === "agent" ? "bg-[#002d72] text-white" : "bg-white text-gray-800 shadow-sm"
+                        }`}
+                      >
+                        <p className="whitespace-pre-wrap">{message.text}</p>
+                        <p className={`mt-1 text-[10px] ${message.from === "agent" ? "text-white/60" : "text-gray-400"}`}>
+                          {message.from === "agent" ? message.author : "User"} · {new Date(message.timestamp).toLocaleTimeString()}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                  <div ref={messagesEndRef} />
+                </div>
+
+                {isMine(selected) && (
+                  <div className="flex gap-2 border-t border-gray-200 p-3">
+                    <input
+                      type="text"
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          e.preventDefault();
+                          handleSend();
+                        }
+                      }}
+                      maxLength={2000}
+                      placeholder="Type a reply..."
+                      className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-800 outline-none focus:border-[#002d72] focus:ring-2 focus:ring-[#002d72]/20"
+                    />
+                    <button
+                      onClick={handleSend}
+                      disabled={!draft.trim()}
+                      className="rounded-lg bg-[#002d72] px-4 py-2 text-sm font-medium text-white hover:bg-[#001f4d] disabled:opacity-50"
+                    >
+                      Send
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import { useState, useEffect, useCallback, Fragment, FormEvent } from "react";
+import { useAdminAuth } from "../context/AdminAuthContext";
+
+interface AuditEntry {
+  auditId: string;
+  timestamp: string;
+  actor: string;
+  actorSub: string | null;
+  actorRoles: string[];
+  action: string;
+  targetType: string;
+  targetId: string;
+  before: unknown;
+  after: unknown;
+  details: unknown;
+  request: {
+    method: string | null;
+    path: string | null;
+    sourceIp: string | null;
+    userAgent: string | null;
+    requestId: string | null;
+  } | null;
+}
+
+interface AuditFilters {
+  from: string;
+  to: string;
+  actor: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+}
+
+const ADMIN_API_URL = process.env.NEXT_PUBLIC_ADMIN_API_URL || "";
+const PAGE_SIZE = 25;
+
+// Mirrors AUDIT_ACTIONS in backend/lambda/admin-api/index.js
+const ACTION_LABELS: Record<string, string> = {
+  "escalation.update": "Escalation updated",
+  "escalation.archive": "Escalation archived",
+  "conversation.delete": "Conversation deleted",
+  "conversation.redact": "Conversation redacted",
+  "conversation.bulk_delete": "Conversations bulk deleted",
+  "config.update": "Configuration changed",
+  "export.download": "Export downloaded",
+  "export.create": "Export job created",
+  "user.invite": "User invited",
+  "user.disable": "User disabled",
+  "user.enable": "User enabled",
+  "user.reset_password": "Password reset",
+  "user.reset_mfa": "MFA reset",
+  "user.role_change": "Role changed",
+  "access.denied": "Access denied",
+};
+
+const TARGET_TYPE_LABELS: Record<string, string> = {
+  escalation: "Escalation",
+  conversation: "Conversation",
+  bulk_delete: "Bulk delete",
+  config: "Configuration",
+  export: "Export",
+  user: "User",
+  route: "API route",
+};
+
+// Today's date (YYYY-MM-DD) in the browser's timezone
+function localToday(): string {
+  return new Intl.DateTimeFormat("en-CA", { year: "numeric", month: "2-digit", day: "2-digit" }).format(new Date());
+}
+
+// Last 30 days, matching the API's default
+function defaultFilters(): AuditFilters {
+  const to = localToday();
+  const from = new Date(Date.parse(`${to}T00:00:00Z`) - 29 * 86400000).toISOString().substring(0, 10);
+  return { from, to, actor: "", action: "", targetType: "", targetId: "" };
+}
+
+// Before/after snapshots and details as indented JSON
+function formatJson(value: unknown): string {
+  return value === null || value === undefined ? "—" : JSON.stringify(value, null, 2);
+}
+
+// Administrative actions recorded by the admin API (who did what to which record, and when),
+// filterable by date, actor, action and target. Administrators only.
+export default function AuditLog() {
+  const { authFetch } = useAdminAuth();
+  const [draft, setDraft] = useState<AuditFilters>(defaultFilters);
+  const [filters, setFilters] = useState<AuditFilters>(draft);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the first page for the applied filters, or the next page after a cursor
+  const loadEntries = useCallback(async (cursor: string | null) => {
+    if (!ADMIN_API_URL) return;
+    setIsLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams({
+      from: filters.from,
+      to: filters.to,
+      tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      limit: String(PAGE_SIZE),
+    });
+    if (filters.actor.trim()) params.set("actor", filters.actor.trim());
+    if (filters.action) params.set("action", filters.action);
+    if (filters.targetType) params.set("targetType", filters.targetType);
+    if (filters.targetType && filters.targetId.trim()) params.set("targetId", filters.targetId.trim());
+    if (cursor) params.set("cursor", cursor);
+
+    try {
+      const res = await authFetch(`${ADMIN_API_URL}/audit?${params}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to load the audit log");
+      setEntries((prev) => (cursor ? [...prev, ...data.entries] : data.entries));
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      console.error("Error fetching audit log:", err);
+      setError(err instanceof Error ? err.message : "Failed to load the audit log");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, authFetch]);
+
+  useEffect(() => {
+    loadEntries(null);
+  }, [loadEntries]);
+
+  const applyFilters = (e: FormEvent) => {
+    e.preventDefault();
+    setExpandedId(null);
+    setFilters({ ...draft });
+  };
+
+  const inputClass = "mt-1 w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-800";
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-200 px-6 py-4">
+        <h2 className="text-lg font-semibold text-gray-900">Audit Log</h2>
+        <p className="text-sm text-gray-500">Every change made through the admin dashboard or API, newest first. Entries cannot be edited or deleted.</p>
+      </div>
+
+      <form onSubmit={applyFilters} className="grid grid-cols-2 gap-3 border-b border-gray-200 px-6 py-4 md:grid-cols-6">
+        <label className="text-xs font-medium text-gray-600">
+          From
+          <input type="date" value={draft.from} max={draft.to} onChange={(e) => setDraft({ ...draft, from: e.target.value })} className={inputClass} />
+        </label>
+        <label className="text-xs font-medium text-gray-600">
+          To
+          <input type="date" value={draft.to} min={draft.from} onChange={(e) => setDraft({ ...draft, to: e.target.value })} className={inputClass} />
+        </label>
+        <label className="text-xs font-medium text-gray-600">
+          Actor (email)
+          <input type="text" value={draft.actor} onChange={(e) => setDraft({ ...draft, actor: e.target.value })} placeholder="Anyone" className={inputClass} />
+        </label>
+        <label className="text-xs font-medium text-gray-600">
+          Action
+          <select value={draft.action} onChange={(e) => setDraft({ ...draft, action: e.target.value })} className={inputClass}>
+            <option value="">Any</option>
+            {Object.entries(ACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-600">
+          Target
+          <select value={draft.targetType} onChange={(e) => setDraft({ ...draft, targetType: e.target.value })} className={inputClass}>
+            <option value="">Any</option>
+            {Object.entries(TARGET_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-end gap-2">
+          <label className="flex-1 text-xs font-medium text-gray-600">
+            Target ID
+            <input
+              type="text"
+              value={draft.targetId}
+              onChange={(e) => setDraft({ ...draft, targetId: e.target.value })}
+              disabled={!draft.targetType}
+              placeholder={draft.targetType ? "Any" : "Choose a target"}
+              className={`${inputClass} disabled:bg-gray-50`}
+            />
+          </label>
+          <button
+            type="submit"
+            className="rounded-lg bg-[#002d72] px-3 py-1.5 text-sm font-medium text-white hover:bg-[#001f4d]"
+          >
+            Apply
+          </button>
+        </div>
+      </form>
+
+      {error && <p className="border-b border-gray-200 bg-red-50 px-6 py-3 text-sm text-red-700">{error}</p>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-gray-200 bg-gray-50">
+              <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                Time
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                Actor
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                Action
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                Target
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                Source IP
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {entries.length === 0 && !isLoading ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-sm text-gray-500">No audit entries match these filters</td>
+              </tr>
+            ) : (
+              entries.map((entry) => (
+                <Fragment key={entry.auditId}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === entry.auditId ? null : entry.auditId)}
+                    className="cursor-pointer transition-colors hover:bg-gray-50"
+                  >
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-600">
+                      {new Date(entry.timestamp).toLocaleString("en-US", {
+                        month: "short",
+                        day: "numeric",
+                        year: "numeric",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                        second: "2-digit",
+                      })}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">
+                      {entry.actor}
+                      {entry.actorRoles.length > 0 && <span className="ml-1 text-xs text-gray-500">({entry.actorRoles.join(", ")})</span>}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4">
+                      <span
+                        className={`inline-flex rounded-full px-3 py-1 text-xs font-medium ${
+                          entry.action === "access.denied" ? "bg-red-100 text-red-700" : "bg-blue-50 text-[#002d72]"
+                        }`}
+                      >
+                        {ACTION_LABELS[entry.action] || entry.action}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {TARGET_TYPE_LABELS[entry.targetType] || entry.targetType}{" "}
+                      <span className="break-all font-mono text-xs">{entry.targetId}</span>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 font-mono text-xs text-gray-600">{entry.request?.sourceIp || "—"}</td>
+                  </tr>
+                  {expandedId === entry.auditId && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={5} className="px-6 py-4">
+                        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                          {[
+                            { label: "Before", value: entry.before },
+                            { label: "After", value: entry.after },
+                            { label: "Details", value: entry.details },
+                          ].map(({ label, value }) => (
+                            <div key={label}>
+                              <h4 className="mb-1 text-xs font-semibold uppercase tracking-wider text-gray-500">{label}</h4>
+                              <pre className="max-h-64 overflow-auto rounded-lg border border-gray-200 bg-white p-3 text-xs text-gray-700">{formatJson(value)}</pre>
+                            </div>
+                          ))}
+                        </div>
+                        <p className="mt-3 text-xs text-gray-500">
+                          {entry.request?.method} {entry.request?.path} · Request ID {entry.request?.requestId || "—"} · {entry.request?.userAgent || "Unknown client"}
+                        </p>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {(isLoading || nextCursor) && (
+        <div className="border-t border-gray-200 px-6 py-4 text-center">
+          {isLoading ? (
+            <span className="text-sm text-gray-500">Loading...</span>
+          ) : (
+            <button
+              onClick={() => loadEntries(nextCursor)}
+              className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -48,25 +48,33 @@ interface Citation {
 interface Message {
   id: string;
   text: string;
-  sender: "user" | "bot";
+  sender: "user" | "bot" | "agent"; // "agent" - a USDA representative during a live handoff
   timestamp: Date;
   citations?: Citation[];
   isStreaming?: boolean;
   feedback?: "positive" | "negative" | null;
+  feedbackDetailsSent?: boolean; // Reasons/comment were sent for a thumbs-down
   conversationId?: string;
   sessionId?: string;
   responseTimeMs?: number;
   question?: string; // The user's question that prompted this response
 }
 
+// Follow-up details being written for a thumbs-down
+interface FeedbackDraft {
+  messageId: string;
+  reasons: string[];
+  comment: string;
+}
+
 interface WebSocketMessage {
-  type: "stream" | "response" | "typing" | "error" | "feedbackConfirmation" | "conversationId" | "message" | "escalationConfirmation";
+  type: "stream" | "response" | "typing" | "error" | "feedbackConfirmation" | "conversationId" | "message" | "escalationConfirmation" | "escalationError" | "handoffStatus" | "agentMessage";
   chunk?: string;
   isComplete?: boolean;
   message?: string;
   citations?: Citation[];
   blocked?: boolean;
-  status?: boolean;
+  status?: "waiting" | "active" | "ended" | "unavailable"; // Live agent handoff state
   feedback?: "positive" | "negative";
   conversationId?: string;
   sessionId?: string;
@@ -74,11 +82,26 @@ interface WebSocketMessage {
   isTyping?: boolean;
   success?: boolean;
   escalationId?: string;
+  code?: string; // escalationError: VALIDATION_FAILED, RATE_LIMITED, DUPLICATE or SERVER_ERROR
+  fieldErrors?: Record<string, string>; // escalationError: message per invalid form field
   question?: string; // The original question (echoed back from server)
+  retrievalQuery?: string; // Question rewritten with conversation context for retrieval
   maxConfidence?: number; // Maximum confidence score from retrieval
+  confidence?: number; // Confidence score from the configured scoring strategy
+  configVersion?: number; // Retrieval config version used by the backend
   lowConfidence?: boolean; // Flag indicating if response was low confidence
 }
 
+// Reasons offered after a thumbs-down (mirrors FEEDBACK_REASONS in backend/lambda/shared/feedback.js)
+const FEEDBACK_REASONS = [
+  { value: "incorrect", label: "Incorrect" },
+  { value: "outdated", label: "Outdated" },
+  { value: "not_relevant", label: "Not relevant" },
+  { value: "missing_sources", label: "Missing sources" },
+  { value: "hard_to_understand", label: "Hard to understand" },
+];
+const MAX_FEEDBACK_COMMENT_LENGTH = 1000;
+
 const suggestedQuestions = [
   "How do I apply for farm loans?",
   "What USDA programs are available?",
@@ -172,6 +195,12 @@ export default function ChatBot() {
   const [isTyping, setIsTyping] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  // Live agent handoff: "waiting" for a representative to claim the chat, "active" once one has
+  const [handoffStatus, setHandoffStatus] = useState<"none" | "waiting" | "active">("none");
+  // Support form errors returned by the server (shown inline under each field)
+  const [supportFieldErrors, setSupportFieldErrors] = useState<Record<string, string>>({});
+  const [supportError, setSupportError] = useState<string | null>(null);
+  const [feedbackDraft, setFeedbackDraft] = useState<FeedbackDraft | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const wsRef = useRef<WebSocket | null>(null);
@@ -190,6 +219,10 @@ export default function ChatBot() {
 
   // Reset chat to initial state
   const resetChat = useCallback(() => {
+    if (handoffStatus !== "none" && wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ action: "endHandoff" }));
+    }
+    setHandoffStatus("none");
     setMessages([
       {
         id: "1",
@@ -208,7 +241,7 @@ export default function ChatBot() {
       window.speechSynthesis.cancel();
     }
     setSpeakingMessageId(null);
-  }, []);
+  }, [handoffStatus]);
 
   // Initialize speech recognition (speech-to-text)
   useEffect(() => {
@@ -369,6 +402,7 @@ export default function ChatBot() {
       console.log("WebSocket disconnected");
       setIsConnected(false);
       setIsConnecting(false);
+      setHandoffStatus("none"); // The server ends the handoff when the connection closes
       wsRef.current = null;
     };
 
@@ -409,7 +443,7 @@ export default function ChatBot() {
             source: c.source
           })));
         }
-        console.log('Threshold: 0.8');
+        console.log('Confidence score:', data.confidence, '(config version', data.configVersion + ')');
         console.log('Decision:', data.lowConfidence ? 'LOW CONFIDENCE MESSAGE SHOWN' : 'ACTUAL RESPONSE SHOWN');
         console.log('=== END CONFIDENCE CHECK ===');
 
@@ -475,16 +509,55 @@ export default function ChatBot() {
         }
 
         if (data.isComplete) {
-          // Mark streaming as complete
-          if (streamingMessageIdRef.current) {
+          // Final frame carries citations and conversation metadata for the streamed answer
+          const streamedMessageId = streamingMessageIdRef.current;
+          if (data.blocked && data.message) {
+            // Output guardrail intervened - replace whatever was streamed with the blocked message
+            const blockedMessage = data.message;
+            if (streamedMessageId) {
+              setMessages((prev) =>
+                prev.map((msg) =>
+                  msg.id === streamedMessageId
+                    ? { ...msg, text: blockedMessage, isStreaming: false }
+                    : msg
+                )
+              );
+            } else {
+              setMessages((prev) => [
+                ...prev,
+                {
+                  id: Date.now().toString(),
+                  text: blockedMessage,
+                  sender: "bot",
+                  timestamp: new Date(),
+                },
+              ]);
+            }
+          } else if (streamedMessageId) {
             setMessages((prev) =>
               prev.map((msg) =>
-                msg.id === streamingMessageIdRef.current
-                  ? { ...msg, isStreaming: false }
+                msg.id === streamedMessageId
+                  ? {
+                      ...msg,
+                      isStreaming: false,
+                      citations: data.citations,
+                      conversationId: data.conversationId,
+                      sessionId: data.sessionId,
+                      responseTimeMs: data.responseTimeMs,
+                      question: data.question,
+                    }
                   : msg
               )
             );
           }
+
+          if (data.sessionId) {
+            setSessionId(data.sessionId);
+          }
+
+          currentStreamingMessageRef.current = "";
+          streamingMessageIdRef.current = null;
+          setIsTyping(false);
         }
         break;
 
@@ -542,9 +615,48 @@ export default function ChatBot() {
         console.log("Feedback confirmed:", data.feedback, "for", data.conversationId);
         break;
 
+      case "handoffStatus":
+        setHandoffStatus(data.status === "waiting" || data.status === "active" ? data.status : "none");
+        if (data.message) {
+          const statusText = data.message;
+          setMessages((prev) => [
+            ...prev,
+            {
+              id: Date.now().toString(),
+              text: statusText,
+              sender: "bot",
+              timestamp: new Date(),
+            },
+          ]);
+        }
+        setIsTyping(false);
+        break;
+
+      case "agentMessage":
+        if (data.message) {
+          const agentText = data.message;
+          setMessages((prev) => [
+            ...prev,
+            {
+              id: Date.now().toString(),
+              text: agentText,
+              sender: "agent",
+              timestamp: new Date(),
+            },
+          ]);
+        }
+        break;
+
+      case "escalationError":
+        setSupportFieldErrors(data.fieldErrors || {});
+        setSupportError(data.message || "Failed to submit support request");
+        break;
+
       case "escalationConfirmation":
         if (data.success) {
           setShowSupportModal(false);
+          setSupportFieldErrors({});
+          setSupportError(null);
           setMessages((prev) => [
             ...prev,
             {
@@ -559,7 +671,7 @@ export default function ChatBot() {
     }
   }, []);
 
-  // Send feedback to backend (this also saves the conversation - only conversations with feedback are stored)
+  // Send feedback to backend (the conversation itself is stored server-side when the answer is generated)
   const handleFeedback = useCallback((messageId: string, feedback: "positive" | "negative") => {
     const message = messages.find(msg => msg.id === messageId);
     if (!message?.conversationId) {
@@ -574,23 +686,57 @@ export default function ChatBot() {
       )
     );
 
-    // Send to backend via WebSocket - include all data needed to save the conversation
+    // Ask what was wrong with a thumbs-down (optional - the rating is already saved)
+    setFeedbackDraft(feedback === "negative" ? { messageId, reasons: [], comment: "" } : null);
+
+    // Send to backend via WebSocket
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       wsRef.current.send(
         JSON.stringify({
           action: "submitFeedback",
           feedback,
           conversationId: message.conversationId,
-          question: message.question,
-          answer: message.text,
           sessionId: message.sessionId || sessionId,
-          responseTimeMs: message.responseTimeMs,
-          citations: message.citations,
         })
       );
     }
   }, [messages, sessionId]);
 
+  // Toggle one reason in the open thumbs-down panel
+  const toggleFeedbackReason = (reason: string) => {
+    setFeedbackDraft((prev) =>
+      prev && {
+        ...prev,
+        reasons: prev.reasons.includes(reason) ? prev.reasons.filter((r) => r !== reason) : [...prev.reasons, reason],
+      }
+    );
+  };
+
+  // Send the reasons and comment for a thumbs-down
+  const submitFeedbackDetails = () => {
+    if (!feedbackDraft) return;
+    const message = messages.find((msg) => msg.id === feedbackDraft.messageId);
+    if (!message?.conversationId) return;
+
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(
+        JSON.stringify({
+          action: "submitFeedback",
+          feedback: "negative",
+          reasons: feedbackDraft.reasons,
+          comment: feedbackDraft.comment.trim(),
+          conversationId: message.conversationId,
+          sessionId: message.sessionId || sessionId,
+        })
+      );
+    }
+
+    setMessages((prev) =>
+      prev.map((msg) => (msg.id === feedbackDraft.messageId ? { ...msg, feedbackDetailsSent: true } : msg))
+    );
+    setFeedbackDraft(null);
+  };
+
   // Connect when chat opens
   useEffect(() => {
     if (isOpen && !wsRef.current) {
@@ -620,6 +766,17 @@ export default function ChatBot() {
     setMessages((prev) => [...prev, userMessage]);
     setInputValue("");
 
+    // During a live handoff messages go to the representative instead of the bot
+    if (handoffStatus === "active" && wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(
+        JSON.stringify({
+          action: "agentMessage",
+          message: text.trim(),
+        })
+      );
+      return;
+    }
+
     // Send via WebSocket if connected
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       setIsTyping(true);
@@ -657,16 +814,53 @@ export default function ChatBot() {
     handleSendMessage(question);
   };
 
+  // Ask for a live USDA representative
+  const handleRequestAgent = () => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(
+        JSON.stringify({
+          action: "requestAgent",
+          sessionId: sessionId || undefined,
+        })
+      );
+    }
+  };
+
+  // Leave the live handoff (or stop waiting) and go back to the bot
+  const handleEndHandoff = () => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ action: "endHandoff" }));
+    }
+  };
+
+  // Open the support form with no errors left over from an earlier attempt
+  const openSupportModal = () => {
+    setSupportFieldErrors({});
+    setSupportError(null);
+    setShowSupportModal(true);
+  };
+
+  // Support form input styling, highlighted when the server rejected the field
+  const supportInputClass = (field: string) =>
+    `w-full rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2 ${
+      supportFieldErrors[field]
+        ? "border-red-400 focus:border-red-500 focus:ring-red-500/20"
+        : "border-gray-300 focus:border-[#002d72] focus:ring-[#002d72]/20"
+    }`;
+
   // Handle support form submission
   const handleSupportSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
+    setSupportFieldErrors({});
+    setSupportError(null);
     
     const supportData = {
       name: formData.get("name") as string,
       email: formData.get("email") as string,
       phone: formData.get("phone") as string,
       question: formData.get("question") as string,
+      attachTranscript: formData.get("attachTranscript") === "on",
     };
 
     if (wsRef.current?.readyState === WebSocket.OPEN) {
@@ -675,8 +869,12 @@ export default function ChatBot() {
           action: "submitEscalation",
           ...supportData,
           sessionId: sessionId || undefined,
+          // Proves the session is ours so the transcript can be attached
+          conversationId: [...messages].reverse().find((m) => m.conversationId)?.conversationId,
         })
       );
+    } else {
+      setSupportError("Not connected. Please try again in a moment.");
     }
   };
 
@@ -747,9 +945,33 @@ export default function ChatBot() {
               </div>
             </button>
             <div className="flex items-center gap-2">
+              {/* Live agent button */}
+              {isConnected && handoffStatus === "none" && (
+                <button
+                  onClick={handleRequestAgent}
+                  className="flex h-8 w-8 items-center justify-center rounded-full text-white/80 transition-colors hover:bg-white/20 hover:text-white"
+                  aria-label="Chat with a representative"
+                  title="Chat with a representative"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="18"
+                    height="18"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M19 21v-2a4 4 0 0 0-4-4H9a4 4 0 0 0-4 4v2" />
+                    <circle cx="12" cy="7" r="4" />
+                  </svg>
+                </button>
+              )}
               {/* Support button */}
               <button
-                onClick={() => setShowSupportModal(true)}
+                onClick={openSupportModal}
                 className="flex h-8 w-8 items-center justify-center rounded-full text-white/80 transition-colors hover:bg-white/20 hover:text-white"
                 aria-label="Contact support"
                 title="Contact support"
@@ -802,6 +1024,21 @@ export default function ChatBot() {
             </div>
           </div>
 
+          {/* Live agent handoff banner */}
+          {handoffStatus !== "none" && (
+            <div className="flex items-center justify-between border-b border-blue-100 bg-blue-50 px-4 py-2 text-xs text-[#002d72]">
+              <span className="font-medium">
+                {handoffStatus === "waiting" ? "Waiting for a USDA representative..." : "Chatting with a USDA representative"}
+              </span>
+              <button
+                onClick={handleEndHandoff}
+                className="rounded-md px-2 py-1 font-medium hover:bg-blue-100"
+              >
+                {handoffStatus === "waiting" ? "Cancel" : "End chat"}
+              </button>
+            </div>
+          )}
+
           {/* Messages Area */}
           <div className="flex-1 overflow-y-auto bg-gray-50 p-4">
             <div className="space-y-4">
@@ -817,6 +1054,9 @@ export default function ChatBot() {
                         : "bg-white text-gray-800 shadow-sm"
                     }`}
                   >
+                    {message.sender === "agent" && (
+                      <p className="mb-1 text-xs font-semibold text-[#002d72]">USDA Representative</p>
+                    )}
                     <div
                       className={`prose prose-sm max-w-none overflow-wrap-anywhere ${
                         message.sender === "user"
@@ -970,7 +1210,7 @@ export default function ChatBot() {
                           {message.feedback ? (
                             <div className="flex items-center gap-2">
                               <span className="text-xs text-gray-500">
-                                Thanks for your feedback!
+                                {message.feedbackDetailsSent ? "Thanks, this helps us improve!" : "Thanks for your feedback!"}
                               </span>
                               {message.feedback === "positive" ? (
                                 <svg
@@ -1048,6 +1288,58 @@ export default function ChatBot() {
                             </div>
                           )}
                         </div>
+
+                        {/* Thumbs-down follow-up: what was wrong (optional) */}
+                        {feedbackDraft?.messageId === message.id && (
+                          <div className="mt-2 rounded-lg border border-gray-200 bg-white p-3">
+                            <p className="mb-2 text-xs font-medium text-gray-700">What went wrong? (optional)</p>
+                            <div className="mb-2 flex flex-wrap gap-1.5">
+                              {FEEDBACK_REASONS.map((reason) => {
+                                const selected = feedbackDraft.reasons.includes(reason.value);
+                                return (
+                                  <button
+                                    key={reason.value}
+                                    type="button"
+                                    onClick={() => toggleFeedbackReason(reason.value)}
+                                    aria-pressed={selected}
+                                    className={`rounded-full border px-2.5 py-1 text-xs transition-colors ${
+                                      selected
+                                        ? "border-[#002d72] bg-[#002d72] text-white"
+                                        : "border-gray-300 text-gray-600 hover:bg-gray-50"
+                                    }`}
+                                  >
+                                    {reason.label}
+                                  </button>
+                                );
+                              })}
+                            </div>
+                            <textarea
+                              value={feedbackDraft.comment}
+                              onChange={(e) => setFeedbackDraft({ ...feedbackDraft, comment: e.target.value })}
+                              maxLength={MAX_FEEDBACK_COMMENT_LENGTH}
+                              rows={2}
+                              placeholder="Tell us more (optional)"
+                              className="w-full rounded-lg border border-gray-300 px-2 py-1.5 text-xs text-gray-800 outline-none focus:border-[#002d72] focus:ring-2 focus:ring-[#002d72]/20"
+                            />
+                            <div className="mt-2 flex justify-end gap-2">
+                              <button
+                                type="button"
+                                onClick={() => setFeedbackDraft(null)}
+                                className="rounded-lg px-3 py-1 text-xs text-gray-500 hover:bg-gray-100"
+                              >
+                                Skip
+                              </button>
+                              <button
+                                type="button"
+                                onClick={submitFeedbackDetails}
+                                disabled={feedbackDraft.reasons.length === 0 && !feedbackDraft.comment.trim()}
+                                className="rounded-lg bg-[#002d72] px-3 py-1 text-xs font-medium text-white hover:bg-[#001f4d] disabled:opacity-50"
+                              >
+                                Send
+                              </button>
+                            </div>
+                          </div>
+                        )}
                       </div>
                     )}
                     {/* Speaker button for bot messages without conversationId (like welcome message or demo mode) */}
@@ -1201,13 +1493,21 @@ export default function ChatBot() {
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder={isListening ? "Listening..." : "Type your question..."}
-                disabled={isTyping}
+                placeholder={
+                  isListening
+                    ? "Listening..."
+                    : handoffStatus === "waiting"
+                      ? "Waiting for a representative..."
+                      : handoffStatus === "active"
+                        ? "Message the representative..."
+                        : "Type your question..."
+                }
+                disabled={isTyping || handoffStatus === "waiting"}
                 className="flex-1 rounded-full border border-gray-300 px-4 py-2.5 text-sm text-gray-800 placeholder-gray-400 outline-none transition-colors focus:border-[#002d72] focus:ring-2 focus:ring-[#002d72]/20 disabled:bg-gray-50 disabled:cursor-not-allowed"
               />
               <button
                 onClick={() => handleSendMessage(inputValue)}
-                disabled={!inputValue.trim() || isTyping}
+                disabled={!inputValue.trim() || isTyping || handoffStatus === "waiting"}
                 className="flex h-10 w-10 items-center justify-center rounded-full bg-[#002d72] text-white transition-colors hover:bg-[#001f4d] disabled:cursor-not-allowed disabled:opacity-50"
                 aria-label="Send message"
               >
@@ -1268,7 +1568,13 @@ export default function ChatBot() {
               Need help? Fill out this form and our team will get back to you soon.
             </p>
 
-            <form onSubmit={handleSupportSubmit} className="space-y-4">
+            <form onSubmit={handleSupportSubmit} className="space-y-4" noValidate>
+              {supportError && (
+                <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700" role="alert">
+                  {supportError}
+                </div>
+              )}
+
               <div>
                 <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
                   Name *
@@ -1278,9 +1584,12 @@ export default function ChatBot() {
                   id="name"
                   name="name"
                   required
-                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-[#002d72] focus:outline-none focus:ring-2 focus:ring-[#002d72]/20"
+                  maxLength={100}
+                  aria-invalid={Boolean(supportFieldErrors.name)}
+                  className={supportInputClass("name")}
                   placeholder="Your name"
                 />
+                {supportFieldErrors.name && <p className="mt-1 text-xs text-red-600">{supportFieldErrors.name}</p>}
               </div>
 
               <div>
@@ -1292,9 +1601,12 @@ export default function ChatBot() {
                   id="email"
                   name="email"
                   required
-                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-[#002d72] focus:outline-none focus:ring-2 focus:ring-[#002d72]/20"
+                  maxLength={254}
+                  aria-invalid={Boolean(supportFieldErrors.email)}
+                  className={supportInputClass("email")}
                   placeholder="your.email@example.com"
                 />
+                {supportFieldErrors.email && <p className="mt-1 text-xs text-red-600">{supportFieldErrors.email}</p>}
               </div>
 
               <div>
@@ -1305,9 +1617,12 @@ export default function ChatBot() {
                   type="tel"
                   id="phone"
                   name="phone"
-                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-[#002d72] focus:outline-none focus:ring-2 focus:ring-[#002d72]/20"
+                  maxLength={30}
+                  aria-invalid={Boolean(supportFieldErrors.phone)}
+                  className={supportInputClass("phone")}
                   placeholder="(555) 123-4567"
                 />
+                {supportFieldErrors.phone && <p className="mt-1 text-xs text-red-600">{supportFieldErrors.phone}</p>}
               </div>
 
               <div>
@@ -1319,11 +1634,28 @@ export default function ChatBot() {
                   name="question"
                   required
                   rows={4}
-                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-[#002d72] focus:outline-none focus:ring-2 focus:ring-[#002d72]/20"
+                  maxLength={2000}
+                  aria-invalid={Boolean(supportFieldErrors.question)}
+                  className={supportInputClass("question")}
                   placeholder="Please describe your question or issue..."
                 />
+                {supportFieldErrors.question && <p className="mt-1 text-xs text-red-600">{supportFieldErrors.question}</p>}
               </div>
 
+              {/* Opt-out of sharing the chat so far (only offered once there is a conversation) */}
+              {sessionId && (
+                <label htmlFor="attachTranscript" className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    id="attachTranscript"
+                    name="attachTranscript"
+                    defaultChecked
+                    className="mt-0.5 h-4 w-4 rounded border-gray-300 text-[#002d72] focus:ring-[#002d72]/20"
+                  />
+                  <span>Include this chat conversation so our team can see what you&apos;ve already asked</span>
+                </label>
+              )}
+
               <div className="flex gap-3">
                 <button
                   type="button"
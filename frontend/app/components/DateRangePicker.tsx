@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+
+export type Granularity = "day" | "week" | "month";
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD in timezone
+  to: string;
+  timezone: string;
+  granularity: Granularity;
+  compare: boolean; // Also load the previous period of the same length
+}
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+type Preset = "7d" | "30d" | "90d" | "this_month" | "last_month" | "custom";
+
+const PRESETS: Array<{ value: Preset; label: string }> = [
+  { value: "7d", label: "Last 7 days" },
+  { value: "30d", label: "Last 30 days" },
+  { value: "90d", label: "Last 90 days" },
+  { value: "this_month", label: "This month" },
+  { value: "last_month", label: "Last month" },
+  { value: "custom", label: "Custom" },
+];
+
+const TIMEZONES = [
+  { value: "America/New_York", label: "Eastern (ET)" },
+  { value: "America/Chicago", label: "Central (CT)" },
+  { value: "America/Denver", label: "Mountain (MT)" },
+  { value: "America/Los_Angeles", label: "Pacific (PT)" },
+  { value: "America/Anchorage", label: "Alaska (AKT)" },
+  { value: "Pacific/Honolulu", label: "Hawaii (HT)" },
+  { value: "UTC", label: "UTC" },
+];
+
+// Longest range the metrics API accepts (mirrors MAX_RANGE_DAYS in backend/lambda/admin-api/metrics-range.js)
+const MAX_RANGE_DAYS = 366;
+
+// Today's date (YYYY-MM-DD) in a timezone
+function todayIn(timezone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" }).format(new Date());
+}
+
+// Calendar date arithmetic on YYYY-MM-DD strings
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().substring(0, 10);
+}
+
+// from/to for a preset, ending today in the timezone
+function presetDates(preset: Preset, timezone: string): { from: string; to: string } | null {
+  const today = todayIn(timezone);
+  switch (preset) {
+    case "7d":
+      return { from: addDays(today, -6), to: today };
+    case "30d":
+      return { from: addDays(today, -29), to: today };
+    case "90d":
+      return { from: addDays(today, -89), to: today };
+    case "this_month":
+      return { from: `${today.substring(0, 7)}-01`, to: today };
+    case "last_month": {
+      const lastDay = addDays(`${today.substring(0, 7)}-01`, -1);
+      return { from: `${lastDay.substring(0, 7)}-01`, to: lastDay };
+    }
+    default:
+      return null;
+  }
+}
+
+// Last 7 days, by day, in the browser's timezone when it is one of the US zones offered
+export function defaultDateRange(): DateRange {
+  const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const timezone = TIMEZONES.some((z) => z.value === browserZone) ? browserZone : "America/New_York";
+  return { ...presetDates("7d", timezone)!, timezone, granularity: "day", compare: false };
+}
+
+// "Mar 1 – Mar 31, 2025" (or across years "Dec 1, 2024 – Jan 31, 2025")
+export function formatRangeLabel(range: { from: string; to: string }): string {
+  const format = (date: string, withYear: boolean) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      ...(withYear && { year: "numeric" }),
+      timeZone: "UTC",
+    });
+  const sameYear = range.from.substring(0, 4) === range.to.substring(0, 4);
+  return `${format(range.from, !sameYear)} – ${format(range.to, true)}`;
+}
+
+// Date range, granularity, timezone and comparison controls that drive every dashboard panel
+export default function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  const [preset, setPreset] = useState<Preset>("7d");
+  const [customFrom, setCustomFrom] = useState(value.from);
+  const [customTo, setCustomTo] = useState(value.to);
+  const [customError, setCustomError] = useState<string | null>(null);
+
+  const selectPreset = (next: Preset) => {
+    setPreset(next);
+    setCustomError(null);
+    const dates = presetDates(next, value.timezone);
+    if (dates) {
+      onChange({ ...value, ...dates });
+    } else {
+      setCustomFrom(value.from);
+      setCustomTo(value.to);
+    }
+  };
+
+  const applyCustom = () => {
+    if (!customFrom || !customTo || customFrom > customTo) {
+      setCustomError("Choose a start date on or before the end date");
+      return;
+    }
+    const days = (Date.parse(customTo) - Date.parse(customFrom)) / 86400000 + 1;
+    if (days > MAX_RANGE_DAYS) {
+      setCustomError(`Choose at most ${MAX_RANGE_DAYS} days`);
+      return;
+    }
+    setCustomError(null);
+    onChange({ ...value, from: customFrom, to: customTo });
+  };
+
+  // Presets follow "today" in the new timezone; a custom range keeps its dates
+  const changeTimezone = (timezone: string) => {
+    const dates = presetDates(preset, timezone);
+    onChange({ ...value, timezone, ...(dates || {}) });
+  };
+
+  const selectClass = "rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-700";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select value={preset} onChange={(e) => selectPreset(e.target.value as Preset)} className={selectClass}>
+        {PRESETS.map((p) => (
+          <option key={p.value} value={p.value}>{p.label}</option>
+        ))}
+      </select>
+
+      {preset === "custom" && (
+        <>
+          <input
+            type="date"
+            value={customFrom}
+            max={customTo || undefined}
+            onChange={(e) => setCustomFrom(e.target.value)}
+            className={selectClass}
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="date"
+            value={customTo}
+            min={customFrom || undefined}
+            onChange={(e) => setCustomTo(e.target.value)}
+            className={selectClass}
+          />
+          <button
+            onClick={applyCustom}
+            className="rounded-lg bg-[#002d72] px-3 py-1.5 text-sm font-medium text-white hover:bg-[#001f4d]"
+          >
+            Apply
+          </button>
+        </>
+      )}
+
+      <select
+        value={value.granularity}
+        onChange={(e) => onChange({ ...value, granularity: e.target.value as Granularity })}
+        className={selectClass}
+        aria-label="Group by"
+      >
+        <option value="day">By day</option>
+        <option value="week">By week</option>
+        <option value="month">By month</option>
+      </select>
+
+      <select
+        value={value.timezone}
+        onChange={(e) => changeTimezone(e.target.value)}
+        className={selectClass}
+        aria-label="Timezone"
+      >
+        {TIMEZONES.map((z) => (
+          <option key={z.value} value={z.value}>{z.label}</option>
+        ))}
+      </select>
+
+      <label className="flex cursor-pointer items-center gap-2 text-gray-600">
+        <input
+          type="checkbox"
+          checked={value.compare}
+          onChange={(e) => onChange({ ...value, compare: e.target.checked })}
+          className="h-4 w-4 rounded border-gray-300 text-[#002d72] focus:ring-[#002d72]"
+        />
+        Compare to previous period
+      </label>
+
+      {customError && <span className="text-xs text-red-600">{customError}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { DateRange } from "./DateRangePicker";
+import { useAdminAuth } from "../context/AdminAuthContext";
+
+type ExportDataset = "conversations" | "feedback" | "escalations";
+type ExportFormat = "csv" | "ndjson";
+
+// Dashboard filters carried into the export (same values as the list filters)
+export interface ExportFilters {
+  feedback: string; // all | positive | negative | none
+  reason: string; // all | a feedback reason
+  escalationStatus: string; // active | a status
+}
+
+interface ExportJob {
+  exportId: string;
+  status: "pending" | "running" | "completed" | "failed";
+  fileName: string;
+  rowCount: number | null;
+  error: string | null;
+  downloadUrl?: string;
+}
+
+interface ExportMenuProps {
+  dateRange: DateRange;
+  filters: ExportFilters;
+}
+
+const ADMIN_API_URL = process.env.NEXT_PUBLIC_ADMIN_API_URL || "";
+const JOB_POLL_INTERVAL_MS = 3000;
+
+const DATASETS: Array<{ value: ExportDataset; label: string }> = [
+  { value: "conversations", label: "Conversations" },
+  { value: "feedback", label: "Feedback" },
+  { value: "escalations", label: "Escalations" },
+];
+
+const FEEDBACK_PARAMS: Record<string, string> = { positive: "pos", negative: "neg", none: "none" };
+
+// Export parameters for a dataset: the date range plus the filters that apply to it
+function exportParams(dataset: ExportDataset, format: ExportFormat, range: DateRange, filters: ExportFilters): Record<string, string> {
+  const params: Record<string, string> = { format, from: range.from, to: range.to, tz: range.timezone };
+  const feedback = FEEDBACK_PARAMS[filters.feedback];
+  if (dataset === "conversations" && feedback) {
+    params.feedback = feedback;
+  }
+  if (dataset === "feedback" && feedback && feedback !== "none") {
+    params.feedback = feedback;
+    if (feedback === "neg" && filters.reason !== "all") params.reason = filters.reason;
+  }
+  if (dataset === "escalations" && filters.escalationStatus !== "active") {
+    params.status = filters.escalationStatus;
+  }
+  return params;
+}
+
+// File name from a Content-Disposition header
+function fileNameFrom(disposition: string | null, fallback: string): string {
+  const match = disposition?.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+}
+
+// Save a downloaded file through a temporary link
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Export the current date range and filters as CSV or NDJSON. Small exports download directly;
+// larger ones become export jobs, polled until the file is ready to download.
+export default function ExportMenu({ dateRange, filters }: ExportMenuProps) {
+  const { authFetch } = useAdminAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [dataset, setDataset] = useState<ExportDataset>("conversations");
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [isExporting, setIsExporting] = useState(false);
+  const [job, setJob] = useState<ExportJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Stop polling when the dashboard unmounts
+  useEffect(() => () => {
+    if (pollRef.current) clearTimeout(pollRef.current);
+  }, []);
+
+  const pollJob = (exportId: string) => {
+    pollRef.current = setTimeout(async () => {
+      try {
+        const res = await authFetch(`${ADMIN_API_URL}/export-jobs/${encodeURIComponent(exportId)}`);
+        if (!res.ok) throw new Error("Failed to check export status");
+        const next: ExportJob = await res.json();
+        setJob(next);
+        if (next.status === "pending" || next.status === "running") {
+          pollJob(exportId);
+        } else {
+          setIsExporting(false);
+        }
+      } catch (err) {
+        console.error("Error checking export:", err);
+        setError("Could not check the export status");
+        setIsExporting(false);
+      }
+    }, JOB_POLL_INTERVAL_MS);
+  };
+
+  // Too large to download directly: generate the file in the background
+  const startJob = async (params: Record<string, string>) => {
+    const res = await authFetch(`${ADMIN_API_URL}/export-jobs`, {
+      method: "POST",
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ dataset, ...params }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to start export");
+    setJob(data);
+    pollJob(data.exportId);
+  };
+
+  const runExport = async () => {
+    if (!ADMIN_API_URL) return;
+    if (pollRef.current) clearTimeout(pollRef.current);
+    setIsExporting(true);
+    setError(null);
+    setJob(null);
+
+    const params = exportParams(dataset, format, dateRange, filters);
+    try {
+      const res = await authFetch(`${ADMIN_API_URL}/exports/${dataset}?${new URLSearchParams(params)}`);
+      if (res.status === 413) {
+        await startJob(params);
+        return;
+      }
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Export failed");
+      }
+      const fallback = `askusda-${dataset}-${dateRange.from}-to-${dateRange.to}.${format}`;
+      saveBlob(await res.blob(), fileNameFrom(res.headers.get("Content-Disposition"), fallback));
+      setIsExporting(false);
+    } catch (err) {
+      console.error("Error exporting:", err);
+      setError(err instanceof Error ? err.message : "Export failed");
+      setIsExporting(false);
+    }
+  };
+
+  const selectClass = "w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-700";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="16"
+          height="16"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+          <polyline points="7 10 12 15 17 10" />
+          <line x1="12" y1="15" x2="12" y2="3" />
+        </svg>
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-72 rounded-lg border border-gray-200 bg-white p-4 shadow-lg">
+          <div className="space-y-3">
+            <label className="block text-xs font-medium text-gray-500">
+              Data
+              <select value={dataset} onChange={(e) => setDataset(e.target.value as ExportDataset)} className={`mt-1 ${selectClass}`}>
+                {DATASETS.map((d) => (
+                  <option key={d.value} value={d.value}>{d.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs font-medium text-gray-500">
+              Format
+              <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={`mt-1 ${selectClass}`}>
+                <option value="csv">CSV (spreadsheets)</option>
+                <option value="ndjson">NDJSON (one JSON record per line)</option>
+              </select>
+            </label>
+            <p className="text-xs text-gray-500">
+              Uses the selected date range and the current {dataset === "escalations" ? "status" : "feedback"} filter.
+            </p>
+            <button
+              onClick={runExport}
+              disabled={isExporting}
+              className="w-full rounded-lg bg-[#002d72] px-3 py-2 text-sm font-medium text-white hover:bg-[#001f4d] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isExporting ? "Exporting..." : "Download"}
+            </button>
+
+            {job && (job.status === "pending" || job.status === "running") && (
+              <p className="text-xs text-gray-600">
+                This export is large, so it is being generated in the background. Keep this page open; a download link will appear here.
+              </p>
+            )}
+            {job?.status === "completed" && job.downloadUrl && (
+              <a
+                href={job.downloadUrl}
+                className="block rounded-lg bg-green-50 px-3 py-2 text-sm font-medium text-green-700 hover:bg-green-100"
+              >
+                Download {job.fileName}
+                {job.rowCount !== null && <span className="block text-xs font-normal">{job.rowCount.toLocaleString()} rows · link expires in 15 minutes</span>}
+              </a>
+            )}
+            {job?.status === "failed" && (
+              <p className="text-xs text-red-600">{job.error || "The export failed"}</p>
+            )}
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
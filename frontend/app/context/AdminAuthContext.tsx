@@ -1,21 +1,75 @@
 'use client';
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
 
 interface AdminUser {
   username: string;
   email?: string;
   accessToken: string;
   idToken: string;
+  refreshToken?: string; // Absent in sessions stored before token refresh existed
+}
+
+// Cognito groups of the admin pool, lowest to highest access
+export type AdminRole = 'viewer' | 'analyst' | 'support_agent' | 'administrator';
+
+export type AdminPermission =
+  | 'dashboard:read'
+  | 'data:export'
+  | 'escalations:update'
+  | 'escalations:archive'
+  | 'conversations:manage'
+  | 'config:update'
+  | 'livechat:agent'
+  | 'users:manage'
+  | 'audit:read';
+
+// What each role may do (mirrors ROLE_PERMISSIONS in backend/lambda/shared/roles.js, which the API enforces)
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  viewer: ['dashboard:read'],
+  analyst: ['dashboard:read', 'data:export'],
+  support_agent: ['dashboard:read', 'escalations:update', 'livechat:agent'],
+  administrator: ['dashboard:read', 'data:export', 'escalations:update', 'escalations:archive', 'conversations:manage', 'config:update', 'livechat:agent', 'users:manage', 'audit:read'],
+};
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  viewer: 'Viewer',
+  analyst: 'Analyst',
+  support_agent: 'Support Agent',
+  administrator: 'Administrator',
+};
+
+// Outcome of a sign-in step: signed in, the next challenge Cognito asked for, or an error
+export interface SignInResult {
+  success: boolean;
+  error?: string;
+  newPasswordRequired?: boolean;
+  mfaSetupRequired?: boolean; // No authenticator app yet: call startMfaSetup
+  mfaCodeRequired?: boolean; // Enter the authenticator app code: call submitMfaCode
+}
+
+// Authenticator app setup details (the secret, and an otpauth:// link that opens the app)
+export interface MfaSetup {
+  success: boolean;
+  error?: string;
+  secretCode?: string;
+  otpauthUri?: string;
 }
 
 interface AdminAuthContextType {
   user: AdminUser | null;
+  roles: AdminRole[]; // From the ID token's cognito:groups claim
+  can: (permission: AdminPermission) => boolean;
   isLoading: boolean;
   isAuthenticated: boolean;
-  signIn: (username: string, password: string) => Promise<{ success: boolean; error?: string; newPasswordRequired?: boolean }>;
+  signIn: (username: string, password: string) => Promise<SignInResult>;
   signOut: () => void;
-  completeNewPassword: (newPassword: string) => Promise<{ success: boolean; error?: string }>;
+  // fetch for the Admin API: sends the current ID token and renews the session on a 401
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>;
+  completeNewPassword: (newPassword: string) => Promise<SignInResult>;
+  startMfaSetup: () => Promise<MfaSetup>;
+  verifyMfaSetup: (code: string) => Promise<SignInResult>;
+  submitMfaCode: (code: string) => Promise<SignInResult>;
 }
 
 const AdminAuthContext = createContext<AdminAuthContextType | undefined>(undefined);
@@ -28,15 +82,81 @@ const AWS_REGION = process.env.NEXT_PUBLIC_AWS_REGION || 'us-east-1';
 // Cognito Auth API URL
 const COGNITO_URL = `https://cognito-idp.${AWS_REGION}.amazonaws.com/`;
 
-// Helper to decode JWT and check expiration
+// Account name shown in authenticator apps
+const MFA_ISSUER = 'AskUSDA Admin';
+
+// Renew the session this long before the ID token expires, and retry this often if renewal fails
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const REFRESH_RETRY_MS = 30 * 1000;
+
+// Helper to decode a JWT's expiry (ms since epoch; 0 if it can't be decoded)
+const getTokenExpiry = (token: string): number => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return payload.exp * 1000; // Convert to milliseconds
+  } catch {
+    return 0;
+  }
+};
+
+// Helper to check expiration
 const isTokenExpired = (token: string): boolean => {
+  // Add 60 second buffer to avoid edge cases
+  return Date.now() >= getTokenExpiry(token) - 60000;
+};
+
+// Tokens Cognito issues when sign-in completes
+interface AuthenticationResult {
+  AccessToken: string;
+  IdToken: string;
+  RefreshToken?: string;
+}
+
+// Fields used from Cognito responses (errors carry __type and message)
+interface CognitoResponse {
+  __type?: string;
+  message?: string;
+  ChallengeName?: string;
+  Session?: string;
+  SecretCode?: string; // AssociateSoftwareToken
+  Status?: string; // VerifySoftwareToken
+  UserMFASettingList?: string[]; // GetUser
+  AuthenticationResult?: AuthenticationResult;
+}
+
+// Call a Cognito user pool API action; Cognito reports errors in the body's __type
+const cognitoRequest = async (action: string, body: object): Promise<{ ok: boolean; data: CognitoResponse }> => {
+  const response = await fetch(COGNITO_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-amz-json-1.1',
+      'X-Amz-Target': `AWSCognitoIdentityProviderService.${action}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  return { ok: response.ok && !data.__type, data };
+};
+
+// Message for a rejected MFA code or expired sign-in session
+const getMfaError = (data: CognitoResponse, fallback: string): string => {
+  if (data.__type?.includes('CodeMismatchException') || data.__type?.includes('EnableSoftwareTokenMFAException')) {
+    return 'Invalid code. Check your authenticator app and try again.';
+  }
+  if (data.__type?.includes('NotAuthorizedException')) {
+    return 'Your sign-in has expired. Go back and sign in again.';
+  }
+  return data.message || fallback;
+};
+
+// Admin roles in an ID token's cognito:groups claim
+const getTokenRoles = (token: string): AdminRole[] => {
   try {
-    const payload = JSON.parse(atob(token.split('.')[1]));
-    const exp = payload.exp * 1000; // Convert to milliseconds
-    // Add 60 second buffer to avoid edge cases
-    return Date.now() >= exp - 60000;
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    const groups: string[] = payload['cognito:groups'] || [];
+    return (Object.keys(ROLE_PERMISSIONS) as AdminRole[]).filter((role) => groups.includes(role));
   } catch {
-    return true; // If we can't decode, assume expired
+    return [];
   }
 };
 
@@ -49,48 +169,175 @@ export function AdminAuthProvider({ children }: AdminAuthProviderProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [pendingSession, setPendingSession] = useState<string | null>(null);
   const [pendingUsername, setPendingUsername] = useState<string | null>(null);
+  // Signed in with a password but no authenticator app yet: held until MFA is set up
+  const [pendingTokens, setPendingTokens] = useState<AuthenticationResult | null>(null);
+
+  // Latest session, for timers and requests that outlive a render
+  const userRef = useRef<AdminUser | null>(null);
+  // Renewal in flight, shared by concurrent callers
+  const refreshRef = useRef<Promise<string | null> | null>(null);
+
+  // Keep the session in state and localStorage (null clears it)
+  const saveUser = useCallback((adminUser: AdminUser | null) => {
+    userRef.current = adminUser;
+    setUser(adminUser);
+    if (adminUser) {
+      localStorage.setItem('adminUser', JSON.stringify(adminUser));
+    } else {
+      localStorage.removeItem('adminUser');
+    }
+  }, []);
+
+  // Renew the ID and access tokens with the refresh token; resolves to the new ID token, or null
+  // if renewal failed. A rejected refresh token (expired or revoked) ends the session.
+  const refreshSession = useCallback((): Promise<string | null> => {
+    if (refreshRef.current) return refreshRef.current;
+    const current = userRef.current;
+    if (!current?.refreshToken) return Promise.resolve(null);
+
+    refreshRef.current = (async () => {
+      try {
+        const { ok, data } = await cognitoRequest('InitiateAuth', {
+          AuthFlow: 'REFRESH_TOKEN_AUTH',
+          ClientId: COGNITO_CLIENT_ID,
+          AuthParameters: {
+            REFRESH_TOKEN: current.refreshToken,
+          },
+        });
+        // Signed out while the request was in flight
+        if (userRef.current !== current) return null;
+        if (!ok || !data.AuthenticationResult) {
+          console.error('Session refresh failed:', data.__type, data.message);
+          if (data.__type?.includes('NotAuthorizedException')) saveUser(null);
+          return null;
+        }
+        const authResult = data.AuthenticationResult;
+        saveUser({
+          ...current,
+          accessToken: authResult.AccessToken,
+          idToken: authResult.IdToken,
+          refreshToken: authResult.RefreshToken || current.refreshToken, // Only returned when rotated
+        });
+        return authResult.IdToken;
+      } catch (error) {
+        console.error('Session refresh error:', error);
+        return null;
+      } finally {
+        refreshRef.current = null;
+      }
+    })();
+    return refreshRef.current;
+  }, [saveUser]);
 
   // Check for existing session on mount
   useEffect(() => {
-    const storedUser = localStorage.getItem('adminUser');
-    if (storedUser) {
-      try {
-        const parsed = JSON.parse(storedUser);
-        // Validate token expiration
-        if (parsed.idToken && !isTokenExpired(parsed.idToken)) {
-          setUser(parsed);
-        } else {
-          // Token expired, clear storage
-          console.log('Stored token expired, clearing session');
+    const restoreSession = async () => {
+      const storedUser = localStorage.getItem('adminUser');
+      if (storedUser) {
+        try {
+          const parsed: AdminUser = JSON.parse(storedUser);
+          // Validate token expiration
+          if (parsed.idToken && !isTokenExpired(parsed.idToken)) {
+            saveUser(parsed);
+          } else if (parsed.refreshToken) {
+            // Token expired while the dashboard was closed; renew it
+            userRef.current = parsed;
+            if (!(await refreshSession())) saveUser(null);
+          } else {
+            // Token expired, clear storage
+            console.log('Stored token expired, clearing session');
+            saveUser(null);
+          }
+        } catch {
           localStorage.removeItem('adminUser');
         }
-      } catch {
-        localStorage.removeItem('adminUser');
+      }
+      setIsLoading(false);
+    };
+    restoreSession();
+  }, [saveUser, refreshSession]);
+
+  // Renew the session shortly before the ID token expires, retrying while renewal fails
+  useEffect(() => {
+    if (!user?.refreshToken) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = (delay: number) => {
+      timer = setTimeout(async () => {
+        const idToken = await refreshSession();
+        if (!idToken && !cancelled && userRef.current) schedule(REFRESH_RETRY_MS);
+      }, Math.max(delay, 0));
+    };
+    schedule(getTokenExpiry(user.idToken) - REFRESH_MARGIN_MS - Date.now());
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user, refreshSession]);
+
+  // Store the tokens of a completed sign-in
+  const completeSignIn = (authResult: AuthenticationResult, username: string): SignInResult => {
+    saveUser({
+      username,
+      accessToken: authResult.AccessToken,
+      idToken: authResult.IdToken,
+      refreshToken: authResult.RefreshToken,
+    });
+    setPendingSession(null);
+    setPendingUsername(null);
+    setPendingTokens(null);
+    return { success: true };
+  };
+
+  // Finish a sign-in step: keep Cognito's session for the next challenge, or store the tokens.
+  // MFA is optional on the pool (see backend-stack.ts), so a user without an authenticator app is
+  // signed in by password alone; their tokens are held back until they set one up.
+  const handleAuthResponse = async (data: CognitoResponse, username: string): Promise<SignInResult> => {
+    if (data.ChallengeName && data.Session) {
+      setPendingSession(data.Session);
+      setPendingUsername(username);
+      switch (data.ChallengeName) {
+        case 'NEW_PASSWORD_REQUIRED':
+          return { success: false, newPasswordRequired: true };
+        case 'MFA_SETUP':
+          return { success: false, mfaSetupRequired: true };
+        case 'SOFTWARE_TOKEN_MFA':
+          return { success: false, mfaCodeRequired: true };
+        default:
+          return { success: false, error: `Unsupported sign-in challenge: ${data.ChallengeName}` };
       }
     }
-    setIsLoading(false);
-  }, []);
 
-  const signIn = async (username: string, password: string): Promise<{ success: boolean; error?: string; newPasswordRequired?: boolean }> => {
+    // Success - extract tokens
+    const authResult = data.AuthenticationResult;
+    if (authResult) {
+      const { ok, data: cognitoUser } = await cognitoRequest('GetUser', { AccessToken: authResult.AccessToken });
+      if (!ok) {
+        return { success: false, error: cognitoUser.message || 'Failed to load your account' };
+      }
+      if (!cognitoUser.UserMFASettingList?.includes('SOFTWARE_TOKEN_MFA')) {
+        setPendingSession(null);
+        setPendingUsername(username);
+        setPendingTokens(authResult);
+        return { success: false, mfaSetupRequired: true };
+      }
+      return completeSignIn(authResult, username);
+    }
+
+    return { success: false, error: 'Unexpected response from authentication service' };
+  };
+
+  const signIn = async (username: string, password: string): Promise<SignInResult> => {
     try {
-      const response = await fetch(COGNITO_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-amz-json-1.1',
-          'X-Amz-Target': 'AWSCognitoIdentityProviderService.InitiateAuth',
+      const { data } = await cognitoRequest('InitiateAuth', {
+        AuthFlow: 'USER_PASSWORD_AUTH',
+        ClientId: COGNITO_CLIENT_ID,
+        AuthParameters: {
+          USERNAME: username,
+          PASSWORD: password,
         },
-        body: JSON.stringify({
-          AuthFlow: 'USER_PASSWORD_AUTH',
-          ClientId: COGNITO_CLIENT_ID,
-          AuthParameters: {
-            USERNAME: username,
-            PASSWORD: password,
-          },
-        }),
       });
 
-      const data = await response.json();
-
       if (data.__type) {
         // Error response
         if (data.__type.includes('NotAuthorizedException')) {
@@ -102,97 +349,209 @@ export function AdminAuthProvider({ children }: AdminAuthProviderProps) {
         return { success: false, error: data.message || 'Authentication failed' };
       }
 
-      // Check for NEW_PASSWORD_REQUIRED challenge
-      if (data.ChallengeName === 'NEW_PASSWORD_REQUIRED') {
-        setPendingSession(data.Session);
-        setPendingUsername(username);
-        return { success: false, newPasswordRequired: true };
-      }
-
-      // Success - extract tokens
-      const authResult = data.AuthenticationResult;
-      if (authResult) {
-        const adminUser: AdminUser = {
-          username,
-          accessToken: authResult.AccessToken,
-          idToken: authResult.IdToken,
-        };
-        setUser(adminUser);
-        localStorage.setItem('adminUser', JSON.stringify(adminUser));
-        return { success: true };
-      }
-
-      return { success: false, error: 'Unexpected response from authentication service' };
+      return await handleAuthResponse(data, username);
     } catch (error) {
       console.error('Sign in error:', error);
       return { success: false, error: 'Network error. Please try again.' };
     }
   };
 
-  const completeNewPassword = async (newPassword: string): Promise<{ success: boolean; error?: string }> => {
+  const completeNewPassword = async (newPassword: string): Promise<SignInResult> => {
     if (!pendingSession || !pendingUsername) {
       return { success: false, error: 'No pending password change' };
     }
 
     try {
-      const response = await fetch(COGNITO_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-amz-json-1.1',
-          'X-Amz-Target': 'AWSCognitoIdentityProviderService.RespondToAuthChallenge',
+      const { data } = await cognitoRequest('RespondToAuthChallenge', {
+        ChallengeName: 'NEW_PASSWORD_REQUIRED',
+        ClientId: COGNITO_CLIENT_ID,
+        Session: pendingSession,
+        ChallengeResponses: {
+          USERNAME: pendingUsername,
+          NEW_PASSWORD: newPassword,
         },
-        body: JSON.stringify({
-          ChallengeName: 'NEW_PASSWORD_REQUIRED',
-          ClientId: COGNITO_CLIENT_ID,
-          Session: pendingSession,
-          ChallengeResponses: {
-            USERNAME: pendingUsername,
-            NEW_PASSWORD: newPassword,
-          },
-        }),
       });
 
-      const data = await response.json();
-
       if (data.__type) {
         return { success: false, error: data.message || 'Failed to set new password' };
       }
 
-      const authResult = data.AuthenticationResult;
-      if (authResult) {
-        const adminUser: AdminUser = {
-          username: pendingUsername,
-          accessToken: authResult.AccessToken,
-          idToken: authResult.IdToken,
-        };
-        setUser(adminUser);
-        localStorage.setItem('adminUser', JSON.stringify(adminUser));
-        setPendingSession(null);
-        setPendingUsername(null);
-        return { success: true };
+      // New users go on to set up MFA
+      return await handleAuthResponse(data, pendingUsername);
+    } catch (error) {
+      console.error('Complete new password error:', error);
+      return { success: false, error: 'Network error. Please try again.' };
+    }
+  };
+
+  // Cognito credentials for authenticator setup: the held tokens of a user signed in without MFA,
+  // or the session of an MFA_SETUP challenge
+  const getMfaSetupCredentials = () => (pendingTokens ? { AccessToken: pendingTokens.AccessToken } : { Session: pendingSession });
+
+  // Get a new authenticator app secret for the signing-in user. This replaces any authenticator
+  // registered before (e.g. after an administrator reset their MFA).
+  const startMfaSetup = async (): Promise<MfaSetup> => {
+    if ((!pendingSession && !pendingTokens) || !pendingUsername) {
+      return { success: false, error: 'No pending sign-in' };
+    }
+
+    try {
+      const { ok, data } = await cognitoRequest('AssociateSoftwareToken', getMfaSetupCredentials());
+      if (!ok || !data.SecretCode) {
+        return { success: false, error: getMfaError(data, 'Failed to start authenticator setup') };
       }
+      if (data.Session) setPendingSession(data.Session);
 
-      return { success: false, error: 'Unexpected response' };
+      const label = encodeURIComponent(`${MFA_ISSUER}:${pendingUsername}`);
+      return {
+        success: true,
+        secretCode: data.SecretCode,
+        otpauthUri: `otpauth://totp/${label}?secret=${data.SecretCode}&issuer=${encodeURIComponent(MFA_ISSUER)}`,
+      };
     } catch (error) {
-      console.error('Complete new password error:', error);
+      console.error('MFA setup error:', error);
+      return { success: false, error: 'Network error. Please try again.' };
+    }
+  };
+
+  // Confirm the app with its first code and turn MFA on, then finish signing in
+  const verifyMfaSetup = async (code: string): Promise<SignInResult> => {
+    if ((!pendingSession && !pendingTokens) || !pendingUsername) {
+      return { success: false, error: 'No pending sign-in' };
+    }
+
+    try {
+      const verify = await cognitoRequest('VerifySoftwareToken', {
+        ...getMfaSetupCredentials(),
+        UserCode: code,
+        FriendlyDeviceName: MFA_ISSUER,
+      });
+      if (!verify.ok || verify.data.Status !== 'SUCCESS') {
+        return { success: false, error: getMfaError(verify.data, 'Failed to verify the code') };
+      }
+
+      if (pendingTokens) {
+        const enable = await cognitoRequest('SetUserMFAPreference', {
+          AccessToken: pendingTokens.AccessToken,
+          SoftwareTokenMfaSettings: { Enabled: true, PreferredMfa: true },
+        });
+        if (!enable.ok) {
+          return { success: false, error: enable.data.message || 'Failed to turn on two-factor authentication' };
+        }
+        return completeSignIn(pendingTokens, pendingUsername);
+      }
+
+      const { ok, data } = await cognitoRequest('RespondToAuthChallenge', {
+        ChallengeName: 'MFA_SETUP',
+        ClientId: COGNITO_CLIENT_ID,
+        Session: verify.data.Session,
+        ChallengeResponses: {
+          USERNAME: pendingUsername,
+        },
+      });
+      if (!ok) {
+        return { success: false, error: getMfaError(data, 'Failed to complete sign in') };
+      }
+      return await handleAuthResponse(data, pendingUsername);
+    } catch (error) {
+      console.error('MFA verification error:', error);
       return { success: false, error: 'Network error. Please try again.' };
     }
   };
 
-  const signOut = () => {
-    setUser(null);
-    localStorage.removeItem('adminUser');
+  // SOFTWARE_TOKEN_MFA: answer with the current authenticator app code
+  const submitMfaCode = async (code: string): Promise<SignInResult> => {
+    if (!pendingSession || !pendingUsername) {
+      return { success: false, error: 'No pending sign-in' };
+    }
+
+    try {
+      const { ok, data } = await cognitoRequest('RespondToAuthChallenge', {
+        ChallengeName: 'SOFTWARE_TOKEN_MFA',
+        ClientId: COGNITO_CLIENT_ID,
+        Session: pendingSession,
+        ChallengeResponses: {
+          USERNAME: pendingUsername,
+          SOFTWARE_TOKEN_MFA_CODE: code,
+        },
+      });
+      if (!ok) {
+        return { success: false, error: getMfaError(data, 'Failed to verify the code') };
+      }
+      return await handleAuthResponse(data, pendingUsername);
+    } catch (error) {
+      console.error('MFA code error:', error);
+      return { success: false, error: 'Network error. Please try again.' };
+    }
   };
 
+  // End the session here, then on Cognito: GlobalSignOut revokes the refresh tokens of all of the
+  // user's sessions. If the access token has already expired, revoke this session's refresh token.
+  // ID tokens already issued stay valid for the Admin API until they expire.
+  const signOut = useCallback(() => {
+    const current = userRef.current;
+    saveUser(null);
+    if (!current) return;
+
+    (async () => {
+      try {
+        const globalSignOut = await cognitoRequest('GlobalSignOut', { AccessToken: current.accessToken });
+        if (globalSignOut.ok) return;
+        if (!current.refreshToken) {
+          console.error('Global sign out failed:', globalSignOut.data.__type, globalSignOut.data.message);
+          return;
+        }
+        const revoke = await cognitoRequest('RevokeToken', { Token: current.refreshToken, ClientId: COGNITO_CLIENT_ID });
+        if (!revoke.ok) {
+          console.error('Token revocation failed:', revoke.data.__type, revoke.data.message);
+        }
+      } catch (error) {
+        console.error('Sign out error:', error);
+      }
+    })();
+  }, [saveUser]);
+
+  // Admin API request with the current ID token (renewed first if it has expired)
+  const authFetch = useCallback(async (input: string, init: RequestInit = {}): Promise<Response> => {
+    const send = (idToken: string) => {
+      const headers = new Headers(init.headers);
+      headers.set('Authorization', idToken);
+      return fetch(input, { ...init, headers });
+    };
+
+    let idToken = userRef.current?.idToken || '';
+    if (idToken && isTokenExpired(idToken)) {
+      idToken = (await refreshSession()) || idToken;
+    }
+    const response = await send(idToken);
+    if (response.status !== 401) return response;
+
+    // Token rejected (expired while the tab slept, or the user was signed out elsewhere); renew once
+    const renewed = await refreshSession();
+    if (renewed) return send(renewed);
+    signOut();
+    return response;
+  }, [refreshSession, signOut]);
+
+  // Used to hide actions the API would refuse; the API checks every request itself
+  const roles = user ? getTokenRoles(user.idToken) : [];
+  const can = (permission: AdminPermission) => roles.some((role) => ROLE_PERMISSIONS[role].includes(permission));
+
   return (
     <AdminAuthContext.Provider
       value={{
         user,
+        roles,
+        can,
         isLoading,
         isAuthenticated: !!user,
         signIn,
         signOut,
+        authFetch,
         completeNewPassword,
+        startMfaSetup,
+        verifyMfaSetup,
+        submitMfaCode,
       }}
     >
       {children}
@@ -3,7 +3,28 @@
 import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import ReactMarkdown from "react-markdown";
-import { useAdminAuth } from "../context/AdminAuthContext";
+import { useAdminAuth, ROLE_LABELS } from "../context/AdminAuthContext";
+import AgentConsole from "../components/AgentConsole";
+import DateRangePicker, { DateRange, defaultDateRange, formatRangeLabel } from "../components/DateRangePicker";
+import ExportMenu from "../components/ExportMenu";
+import AuditLog from "../components/AuditLog";
+
+type EscalationStatus = "pending" | "assigned" | "in_progress" | "resolved" | "closed" | "archived";
+
+interface EscalationNote {
+  noteId: string;
+  text: string;
+  author: string;
+  timestamp: string;
+}
+
+interface EscalationHistoryEntry {
+  timestamp: string;
+  actor: string;
+  action: "status" | "assignee";
+  from: string | null;
+  to: string | null;
+}
 
 interface EscalationRequest {
   id: string;
@@ -12,6 +33,12 @@ interface EscalationRequest {
   phone: string;
   question: string;
   requestDate: string;
+  status: EscalationStatus;
+  assignee: string | null;
+  notes: EscalationNote[];
+  history: EscalationHistoryEntry[];
+  updatedAt: string;
+  transcriptAttached: boolean;
 }
 
 interface ConversationMessage {
@@ -27,38 +54,171 @@ interface Citation {
   score: number;
 }
 
+// One question/answer exchange from the chat session attached to an escalation
+interface TranscriptTurn {
+  conversationId: string;
+  timestamp: string;
+  question: string;
+  answer: string;
+  citations: Citation[];
+  confidence: number | null;
+  responseTimeMs?: number;
+  outcome: "answered" | "low_confidence" | "blocked" | "error";
+  guardrailSource: "INPUT" | "OUTPUT" | null;
+  feedback: "pos" | "neg" | null;
+}
+
 interface FeedbackConversation {
   conversationId: string;
   sessionId: string;
   question: string;
+  retrievalQuery?: string;
   answerPreview: string;
   feedback: "pos" | "neg" | null;
+  feedbackReasons?: string[]; // Reasons picked with a thumbs-down
+  feedbackComment?: string | null;
   timestamp: string;
   date: string;
   responseTimeMs?: number;
   citations?: Citation[];
   confidenceScore?: number;
+  confidence?: number | null; // Strategy score (0-1) that the search confidence filter uses
+  configVersion?: number | null;
+  outcome?: "answered" | "low_confidence" | "blocked" | "error";
+  guardrailSource?: "INPUT" | "OUTPUT" | null;
+  guardrailReasons?: string[];
+  redacted?: boolean; // Question and answer text removed by an admin
+}
+
+// One day, week or month of a metrics chart (clipped to the selected range)
+interface MetricsPeriod {
+  date: string; // First day
+  endDate: string; // Last day
+  label: string;
+  dayName?: string; // Daily granularity only
+  count: number;
 }
 
-interface Metrics {
+interface MetricsSummary {
   totalConversations: number;
-  conversationsToday: number;
   totalFeedback: number;
   positiveFeedback: number;
   negativeFeedback: number;
   noFeedback: number;
   satisfactionRate: number;
   avgResponseTimeMs: number;
-  conversationsByDay: Array<{
+}
+
+interface Metrics extends MetricsSummary {
+  range: { from: string; to: string; timezone: string; granularity: DateRange["granularity"] };
+  conversationsToday: number | null; // null when today is outside the range
+  negativeFeedbackReasons?: Array<{
+    reason: string;
+    label: string;
+    total: number; // All time
+    count: number; // Within the range
+  }>;
+  conversationsByPeriod: MetricsPeriod[];
+  allTime: MetricsSummary;
+  previous: (MetricsSummary & { range: { from: string; to: string }; conversationsByPeriod: MetricsPeriod[] }) | null;
+}
+
+interface GuardrailEvents {
+  range: Metrics["range"];
+  totalEvents: number;
+  bySource: Record<string, number>;
+  byCategory: Record<string, number>;
+  eventsByPeriod: Array<{
     date: string;
+    endDate: string;
     count: number;
-    dayName: string;
+    categories: Record<string, number>;
     label: string;
   }>;
+  samples: Array<{
+    timestamp: string;
+    source: "INPUT" | "OUTPUT";
+    categories: string[];
+    sample: string; // Redacted question that triggered the block
+    conversationId?: string;
+  }>;
 }
 
+// Escalation workflow (mirrors ESCALATION_TRANSITIONS in the admin API)
+const ESCALATION_TRANSITIONS: Record<EscalationStatus, EscalationStatus[]> = {
+  pending: ["assigned", "closed"],
+  assigned: ["pending", "in_progress", "closed"],
+  in_progress: ["assigned", "resolved", "closed"],
+  resolved: ["in_progress", "closed"],
+  closed: [],
+  archived: [],
+};
+
+const ESCALATION_STATUS_STYLES: Record<EscalationStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-amber-100 text-amber-800" },
+  assigned: { label: "Assigned", className: "bg-blue-100 text-blue-800" },
+  in_progress: { label: "In Progress", className: "bg-indigo-100 text-indigo-800" },
+  resolved: { label: "Resolved", className: "bg-green-100 text-green-800" },
+  closed: { label: "Closed", className: "bg-gray-200 text-gray-700" },
+  archived: { label: "Archived", className: "bg-gray-100 text-gray-500" },
+};
+
+// Thumbs-down reasons (mirrors FEEDBACK_REASONS in backend/lambda/shared/feedback.js)
+const FEEDBACK_REASON_LABELS: Record<string, string> = {
+  incorrect: "Incorrect",
+  outdated: "Outdated",
+  not_relevant: "Not relevant",
+  missing_sources: "Missing sources",
+  hard_to_understand: "Hard to understand",
+};
+
 const ADMIN_API_URL = process.env.NEXT_PUBLIC_ADMIN_API_URL || "";
 
+// Change from the previous period, e.g. "+12% vs prev." (null when not comparing)
+function formatChange(current: number, previous: number | undefined): string | null {
+  if (previous === undefined) return null;
+  if (previous === 0) return current === 0 ? "No change" : "New vs prev.";
+  const percent = Math.round(((current - previous) / previous) * 100);
+  return `${percent >= 0 ? "+" : ""}${percent}% vs prev.`;
+}
+
+// Conversation search form (confidence in %, response time in seconds)
+interface ConversationSearch {
+  q: string;
+  from: string;
+  to: string;
+  minConfidence: string;
+  maxConfidence: string;
+  maxResponseSeconds: string;
+  domain: string;
+  outcome: string;
+}
+
+const EMPTY_SEARCH: ConversationSearch = {
+  q: "",
+  from: "",
+  to: "",
+  minConfidence: "",
+  maxConfidence: "",
+  maxResponseSeconds: "",
+  domain: "",
+  outcome: "",
+};
+
+// Query string for GET /conversations/search
+function toSearchQuery(search: ConversationSearch): string {
+  const params = new URLSearchParams();
+  if (search.q.trim()) params.set("q", search.q.trim());
+  if (search.from) params.set("from", search.from);
+  if (search.to) params.set("to", search.to);
+  if (search.minConfidence) params.set("minConfidence", String(Number(search.minConfidence) / 100));
+  if (search.maxConfidence) params.set("maxConfidence", String(Number(search.maxConfidence) / 100));
+  if (search.maxResponseSeconds) params.set("maxResponseMs", String(Math.round(Number(search.maxResponseSeconds) * 1000)));
+  if (search.domain.trim()) params.set("domain", search.domain.trim());
+  if (search.outcome) params.set("outcome", search.outcome);
+  return params.toString();
+}
+
 // Icons for stats
 const statsIcons = {
   conversations: (
@@ -167,24 +327,44 @@ function generateSourceTitle(url: string): string {
 
 export default function AdminPage() {
   const router = useRouter();
-  const { user, isAuthenticated, isLoading: authLoading, signOut } = useAdminAuth();
+  const { user, roles, can, isAuthenticated, isLoading: authLoading, signOut, authFetch } = useAdminAuth();
   
   const [feedbackFilter, setFeedbackFilter] = useState<string>("all");
+  const [feedbackReasonFilter, setFeedbackReasonFilter] = useState<string>("all");
+  // Conversation search: the form being edited and the search the table shows (null = feedback list)
+  const [searchDraft, setSearchDraft] = useState<ConversationSearch>(EMPTY_SEARCH);
+  const [activeSearch, setActiveSearch] = useState<ConversationSearch | null>(null);
+  const [showSearchFilters, setShowSearchFilters] = useState(false);
   const [selectedConversation, setSelectedConversation] = useState<FeedbackConversation | null>(null);
   const [selectedEscalation, setSelectedEscalation] = useState<EscalationRequest | null>(null);
+  const [escalationStatusFilter, setEscalationStatusFilter] = useState<string>("active");
+  const [assigneeDraft, setAssigneeDraft] = useState("");
+  const [noteDraft, setNoteDraft] = useState("");
+  const [isUpdatingEscalation, setIsUpdatingEscalation] = useState(false);
+  const [escalationActionError, setEscalationActionError] = useState<string | null>(null);
+  const [escalationTranscript, setEscalationTranscript] = useState<TranscriptTurn[] | null>(null);
   const [includeNoFeedback, setIncludeNoFeedback] = useState(false);
+  const [dateRange, setDateRange] = useState<DateRange>(defaultDateRange);
+  // Overview (metrics, feedback, escalations) or the audit log (administrators)
+  const [activeTab, setActiveTab] = useState<"overview" | "audit">("overview");
   
   // Data states
   const [metrics, setMetrics] = useState<Metrics | null>(null);
   const [escalationRequests, setEscalationRequests] = useState<EscalationRequest[]>([]);
   const [feedbackConversations, setFeedbackConversations] = useState<FeedbackConversation[]>([]);
+  const [guardrailEvents, setGuardrailEvents] = useState<GuardrailEvents | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // Pagination states
+  // Cursor pagination: *Cursors[page] is the cursor that loads that page (null for the first page)
   const [feedbackPage, setFeedbackPage] = useState(0);
+  const [feedbackCursors, setFeedbackCursors] = useState<(string | null)[]>([null]);
+  const [feedbackNextCursor, setFeedbackNextCursor] = useState<string | null>(null);
   const [feedbackTotal, setFeedbackTotal] = useState(0);
   const [escalationPage, setEscalationPage] = useState(0);
+  const [escalationCursors, setEscalationCursors] = useState<(string | null)[]>([null]);
+  const [escalationNextCursor, setEscalationNextCursor] = useState<string | null>(null);
   const [escalationTotal, setEscalationTotal] = useState(0);
   const ITEMS_PER_PAGE = 10;
 
@@ -195,6 +375,9 @@ export default function AdminPage() {
     }
   }, [isAuthenticated, authLoading, router]);
 
+  const feedbackCursor = feedbackCursors[feedbackPage];
+  const escalationCursor = escalationCursors[escalationPage];
+
   // Fetch data from API
   const fetchData = useCallback(async () => {
     if (!ADMIN_API_URL) {
@@ -203,14 +386,13 @@ export default function AdminPage() {
       return;
     }
 
-    if (!user?.idToken) {
+    if (!isAuthenticated) {
       setError("Not authenticated");
       setIsLoading(false);
       return;
     }
 
     const headers = {
-      'Authorization': user.idToken,
       'Content-Type': 'application/json',
     };
 
@@ -220,80 +402,191 @@ export default function AdminPage() {
 
       // Fetch all data in parallel
       const feedbackFilterParam = feedbackFilter !== "all" ? `&filter=${feedbackFilter === "positive" ? "pos" : "neg"}` : "";
-      const [metricsRes, feedbackRes, escalationsRes] = await Promise.all([
-        fetch(`${ADMIN_API_URL}/metrics?days=7`, { headers }),
-        fetch(`${ADMIN_API_URL}/feedback?limit=${ITEMS_PER_PAGE}&offset=${feedbackPage * ITEMS_PER_PAGE}${feedbackFilterParam}`, { headers }),
-        fetch(`${ADMIN_API_URL}/escalations?limit=${ITEMS_PER_PAGE}&offset=${escalationPage * ITEMS_PER_PAGE}`, { headers }),
+      const feedbackReasonParam = feedbackFilter === "negative" && feedbackReasonFilter !== "all" ? `&reason=${feedbackReasonFilter}` : "";
+      // A search covers every conversation; the feedback filter narrows it like the feedback list
+      const searchFeedbackParam = feedbackFilter !== "all"
+        ? `&feedback=${{ positive: "pos", negative: "neg", none: "none" }[feedbackFilter]}`
+        : "";
+      const feedbackCursorParam = feedbackCursor ? `&cursor=${encodeURIComponent(feedbackCursor)}` : "";
+      const escalationCursorParam = escalationCursor ? `&cursor=${encodeURIComponent(escalationCursor)}` : "";
+      const escalationStatusParam = escalationStatusFilter !== "active" ? `&status=${escalationStatusFilter}` : "";
+      const rangeParams = `from=${dateRange.from}&to=${dateRange.to}&tz=${encodeURIComponent(dateRange.timezone)}&granularity=${dateRange.granularity}`;
+      const [metricsRes, feedbackRes, escalationsRes, guardrailRes] = await Promise.all([
+        authFetch(`${ADMIN_API_URL}/metrics?${rangeParams}${dateRange.compare ? "&compare=true" : ""}`, { headers }),
+        activeSearch
+          ? authFetch(`${ADMIN_API_URL}/conversations/search?limit=${ITEMS_PER_PAGE}&${toSearchQuery(activeSearch)}${searchFeedbackParam}${feedbackReasonParam}${feedbackCursorParam}`, { headers })
+          : authFetch(`${ADMIN_API_URL}/feedback?limit=${ITEMS_PER_PAGE}${feedbackFilterParam}${feedbackReasonParam}${feedbackCursorParam}`, { headers }),
+        authFetch(`${ADMIN_API_URL}/escalations?limit=${ITEMS_PER_PAGE}${escalationStatusParam}${escalationCursorParam}`, { headers }),
+        authFetch(`${ADMIN_API_URL}/guardrail-events?${rangeParams}`, { headers }),
       ]);
 
-      // Check for authentication errors
-      if (metricsRes.status === 401 || feedbackRes.status === 401 || escalationsRes.status === 401) {
-        signOut();
+      // Check for authentication errors (authFetch has already tried to renew the session and signed out)
+      if (metricsRes.status === 401 || feedbackRes.status === 401 || escalationsRes.status === 401 || guardrailRes.status === 401) {
         router.push('/admin');
         return;
       }
 
-      if (!metricsRes.ok || !feedbackRes.ok || !escalationsRes.ok) {
+      // Signed in, but no role that can view the dashboard
+      const forbidden = [metricsRes, feedbackRes, escalationsRes, guardrailRes].find((res) => res.status === 403);
+      if (forbidden) {
+        const data = await forbidden.json().catch(() => ({}));
+        throw new Error(data.error || "You do not have access to the dashboard");
+      }
+
+      if (!metricsRes.ok || !feedbackRes.ok || !escalationsRes.ok || !guardrailRes.ok) {
         throw new Error("Failed to fetch data from API");
       }
 
-      const [metricsData, feedbackData, escalationsData] = await Promise.all([
+      const [metricsData, feedbackData, escalationsData, guardrailData] = await Promise.all([
         metricsRes.json(),
         feedbackRes.json(),
         escalationsRes.json(),
+        guardrailRes.json(),
       ]);
 
       setMetrics(metricsData);
       setFeedbackConversations(feedbackData.conversations || []);
       setFeedbackTotal(feedbackData.total || 0);
+      setFeedbackNextCursor(feedbackData.nextCursor || null);
       setEscalationRequests(escalationsData.escalations || []);
       setEscalationTotal(escalationsData.total || 0);
+      setEscalationNextCursor(escalationsData.nextCursor || null);
+      setGuardrailEvents(guardrailData);
     } catch (err) {
       console.error("Error fetching admin data:", err);
       setError(err instanceof Error ? err.message : "Failed to load data");
     } finally {
       setIsLoading(false);
     }
-  }, [user?.idToken, signOut, router, feedbackPage, escalationPage, feedbackFilter]);
+  }, [isAuthenticated, authFetch, router, feedbackCursor, escalationCursor, feedbackFilter, feedbackReasonFilter, activeSearch, escalationStatusFilter, dateRange]);
 
   // Fetch data on mount (only when authenticated)
   useEffect(() => {
-    if (isAuthenticated && user?.idToken) {
+    if (isAuthenticated) {
       fetchData();
     }
-  }, [isAuthenticated, user?.idToken, fetchData]);
+  }, [isAuthenticated, fetchData]);
 
-  // Delete escalation
-  const handleDeleteEscalation = async (id: string) => {
-    if (!ADMIN_API_URL || !user?.idToken) return;
-    
+  // Load the chat transcript attached to an escalation
+  const fetchEscalationTranscript = useCallback(async (id: string) => {
+    if (!ADMIN_API_URL || !isAuthenticated) return;
+
+    try {
+      const res = await authFetch(`${ADMIN_API_URL}/escalations/${encodeURIComponent(id)}`);
+      if (!res.ok) throw new Error("Failed to load transcript");
+      const data = await res.json();
+      setEscalationTranscript(data.transcript || []);
+    } catch (err) {
+      console.error("Error loading escalation transcript:", err);
+      setEscalationTranscript([]);
+    }
+  }, [isAuthenticated, authFetch]);
+
+  // Open an escalation in the modal with fresh form state
+  const openEscalation = (request: EscalationRequest) => {
+    setSelectedEscalation(request);
+    setAssigneeDraft(request.assignee || "");
+    setNoteDraft("");
+    setEscalationActionError(null);
+    setEscalationTranscript(null);
+    if (request.transcriptAttached) {
+      fetchEscalationTranscript(request.id);
+    }
+  };
+
+  // Deep link from notification emails: /dashboard/?escalation=<id> opens that escalation
+  useEffect(() => {
+    if (!ADMIN_API_URL || !isAuthenticated) return;
+
+    const escalationId = new URLSearchParams(window.location.search).get("escalation");
+    if (!escalationId) return;
+
+    authFetch(`${ADMIN_API_URL}/escalations/${encodeURIComponent(escalationId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.escalation) {
+          setSelectedEscalation(data.escalation);
+          setAssigneeDraft(data.escalation.assignee || "");
+          setEscalationTranscript(data.transcript || []);
+        }
+      })
+      .catch((err) => console.error("Error loading linked escalation:", err));
+  }, [isAuthenticated, authFetch]);
+
+  // Update escalation status, assignee, or add a note
+  const handleUpdateEscalation = async (
+    id: string,
+    changes: { status?: EscalationStatus; assignee?: string | null; note?: string }
+  ) => {
+    if (!ADMIN_API_URL || !isAuthenticated) return;
+
+    setIsUpdatingEscalation(true);
+    setEscalationActionError(null);
+    try {
+      const res = await authFetch(`${ADMIN_API_URL}/escalations/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setEscalationActionError(data.error || "Failed to update escalation");
+        return;
+      }
+
+      const updated: EscalationRequest = data.escalation;
+      setEscalationRequests((prev) => prev.map((e) => (e.id === id ? updated : e)));
+      setSelectedEscalation((prev) => (prev?.id === id ? updated : prev));
+      setAssigneeDraft(updated.assignee || "");
+      if (changes.note) setNoteDraft("");
+    } catch (err) {
+      console.error("Error updating escalation:", err);
+      setEscalationActionError("Failed to update escalation");
+    } finally {
+      setIsUpdatingEscalation(false);
+    }
+  };
+
+  // Archive escalation (kept for the record, hidden from the active list)
+  const handleArchiveEscalation = async (id: string) => {
+    if (!ADMIN_API_URL || !isAuthenticated) return;
+
+    setEscalationActionError(null);
     try {
-      const res = await fetch(`${ADMIN_API_URL}/escalations/${id}`, {
+      const res = await authFetch(`${ADMIN_API_URL}/escalations/${encodeURIComponent(id)}`, {
         method: "DELETE",
         headers: {
-          'Authorization': user.idToken,
           'Content-Type': 'application/json',
         },
       });
 
-      if (res.ok) {
-        setEscalationRequests((prev) => prev.filter((e) => e.id !== id));
-        setEscalationTotal((prev) => prev - 1);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setEscalationActionError(data.error || "Failed to archive escalation");
+        return;
       }
+
+      setEscalationRequests((prev) => prev.filter((e) => e.id !== id));
+      setEscalationTotal((prev) => prev - 1);
+      setSelectedEscalation((prev) => (prev?.id === id ? null : prev));
     } catch (err) {
-      console.error("Error deleting escalation:", err);
+      console.error("Error archiving escalation:", err);
+      setEscalationActionError("Failed to archive escalation");
     }
   };
 
-  // Delete conversation feedback
+  // Soft delete: the conversation leaves the lists, search, exports and metrics
   const handleDeleteConversation = async (conversationId: string) => {
-    if (!ADMIN_API_URL || !user?.idToken) return;
-    
+    if (!ADMIN_API_URL || !isAuthenticated) return;
+    if (!window.confirm("Delete this conversation? It will no longer appear in the dashboard, search, exports or metrics.")) return;
+
     try {
-      const res = await fetch(`${ADMIN_API_URL}/feedback/${conversationId}`, {
+      const res = await authFetch(`${ADMIN_API_URL}/conversations/${encodeURIComponent(conversationId)}`, {
         method: "DELETE",
         headers: {
-          'Authorization': user.idToken,
           'Content-Type': 'application/json',
         },
       });
@@ -301,42 +594,85 @@ export default function AdminPage() {
       if (res.ok) {
         setFeedbackConversations((prev) => prev.filter((c) => c.conversationId !== conversationId));
         setFeedbackTotal((prev) => prev - 1);
+        setSelectedConversation((prev) => (prev?.conversationId === conversationId ? null : prev));
+      } else {
+        const data = await res.json().catch(() => ({}));
+        console.error("Error deleting conversation:", data.error || res.status);
       }
     } catch (err) {
       console.error("Error deleting conversation:", err);
     }
   };
 
+  // Redact: remove the question and answer text but keep the conversation in the metrics
+  const handleRedactConversation = async (conversationId: string) => {
+    if (!ADMIN_API_URL || !isAuthenticated) return;
+    if (!window.confirm("Redact this conversation? The question, answer and feedback comment text are removed permanently.")) return;
+
+    try {
+      const res = await authFetch(`${ADMIN_API_URL}/conversations/${encodeURIComponent(conversationId)}/redact`, {
+        method: "POST",
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (res.ok) {
+        const redact = (c: FeedbackConversation): FeedbackConversation => c.conversationId !== conversationId ? c : {
+          ...c,
+          question: "[redacted]",
+          retrievalQuery: undefined,
+          answerPreview: "[redacted]",
+          feedbackComment: null,
+          redacted: true,
+        };
+        setFeedbackConversations((prev) => prev.map(redact));
+        setSelectedConversation((prev) => (prev ? redact(prev) : prev));
+      } else {
+        const data = await res.json().catch(() => ({}));
+        console.error("Error redacting conversation:", data.error || res.status);
+      }
+    } catch (err) {
+      console.error("Error redacting conversation:", err);
+    }
+  };
+
   const filteredRequests = escalationRequests;
 
   // filteredFeedback is now handled server-side, so we use feedbackConversations directly
 
-  // Build stats from metrics
+  // Build stats from metrics (for the selected range; compared with the previous period when enabled)
+  const previousMetrics = metrics?.previous || undefined;
+  const rangeLabel = metrics ? formatRangeLabel(metrics.range) : formatRangeLabel(dateRange);
   const stats = [
     {
       label: "Total Conversations",
       value: metrics?.totalConversations?.toString() || "0",
-      change: metrics?.conversationsToday ? `+${metrics.conversationsToday} today` : "--",
-      changeType: "positive" as const,
+      change: formatChange(metrics?.totalConversations || 0, previousMetrics?.totalConversations)
+        ?? (metrics?.conversationsToday ? `+${metrics.conversationsToday} today` : "--"),
+      changeType: !previousMetrics || (metrics?.totalConversations || 0) >= previousMetrics.totalConversations ? "positive" as const : "negative" as const,
       icon: statsIcons.conversations,
     },
     {
       label: "Total Upvotes",
       value: metrics?.positiveFeedback?.toString() || "0",
-      change: metrics?.satisfactionRate ? `${metrics.satisfactionRate}% satisfaction` : "--",
-      changeType: "positive" as const,
+      change: formatChange(metrics?.positiveFeedback || 0, previousMetrics?.positiveFeedback)
+        ?? (metrics?.satisfactionRate ? `${metrics.satisfactionRate}% satisfaction` : "--"),
+      changeType: !previousMetrics || (metrics?.positiveFeedback || 0) >= previousMetrics.positiveFeedback ? "positive" as const : "negative" as const,
       icon: statsIcons.upvotes,
     },
     {
       label: "Total Downvotes",
       value: metrics?.negativeFeedback?.toString() || "0",
-      change: metrics?.totalFeedback ? `${metrics.totalFeedback} total feedback` : "--",
-      changeType: "negative" as const,
+      change: formatChange(metrics?.negativeFeedback || 0, previousMetrics?.negativeFeedback)
+        ?? (metrics?.totalFeedback ? `${metrics.totalFeedback} total feedback` : "--"),
+      // Fewer downvotes than before is good news
+      changeType: previousMetrics && (metrics?.negativeFeedback || 0) <= previousMetrics.negativeFeedback ? "positive" as const : "negative" as const,
       icon: statsIcons.downvotes,
     },
     {
       label: "Escalations",
-      value: escalationRequests.length.toString(),
+      value: escalationTotal.toString(),
       change: "--",
       changeType: "positive" as const,
       icon: statsIcons.escalations,
@@ -376,9 +712,36 @@ export default function AdminPage() {
             </div>
             <div>
               <h1 className="text-xl font-bold text-gray-900">AskUSDA</h1>
-              <p className="text-sm text-gray-500">Admin Dashboard</p>
+              <p className="text-sm text-gray-500">
+                Admin Dashboard
+                {roles.length > 0 && <> · {roles.map((role) => ROLE_LABELS[role]).join(", ")}</>}
+              </p>
             </div>
           </div>
+          {can("users:manage") && (
+            <button
+              onClick={() => router.push('/users')}
+              className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
+                <circle cx="9" cy="7" r="4" />
+                <path d="M22 21v-2a4 4 0 0 0-3-3.87" />
+                <path d="M16 3.13a4 4 0 0 1 0 7.75" />
+              </svg>
+              Users
+            </button>
+          )}
           <button
             onClick={fetchData}
             disabled={isLoading}
@@ -428,9 +791,49 @@ export default function AdminPage() {
             Sign Out
           </button>
         </div>
+        {can("audit:read") && (
+          <nav className="mx-auto flex max-w-7xl gap-6 px-6">
+            {([
+              { value: "overview", label: "Overview" },
+              { value: "audit", label: "Audit Log" },
+            ] as const).map((tab) => (
+              <button
+                key={tab.value}
+                onClick={() => setActiveTab(tab.value)}
+                className={`border-b-2 pb-3 text-sm font-medium transition-colors ${
+                  activeTab === tab.value
+                    ? "border-[#002d72] text-[#002d72]"
+                    : "border-transparent text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </nav>
+        )}
+        {/* Date range - drives the stats, charts, feedback reasons and guardrail panels, and exports */}
+        <div className={`mx-auto flex max-w-7xl flex-wrap items-center justify-between gap-2 px-6 pb-4 ${activeTab === "audit" ? "hidden" : ""}`}>
+          <DateRangePicker
+            value={dateRange}
+            onChange={(range) => setDateRange(range)}
+          />
+          {can("data:export") && (
+            <ExportMenu
+              dateRange={dateRange}
+              filters={{ feedback: feedbackFilter, reason: feedbackReasonFilter, escalationStatus: escalationStatusFilter }}
+            />
+          )}
+        </div>
       </header>
 
-      <main className="mx-auto max-w-7xl px-6 py-8">
+      {activeTab === "audit" && (
+        <main className="mx-auto max-w-7xl px-6 py-8">
+          <AuditLog />
+        </main>
+      )}
+
+      {/* The overview stays mounted on the audit tab so its filters and pages are kept */}
+      <main className={`mx-auto max-w-7xl px-6 py-8 ${activeTab === "audit" ? "hidden" : ""}`}>
         {/* Loading State */}
         {isLoading && (
           <div className="mb-8 flex items-center justify-center py-12">
@@ -498,20 +901,18 @@ export default function AdminPage() {
             <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
               <div className="flex items-center justify-between mb-2">
                 <h3 className="text-lg font-semibold text-slate-800">Conversations Over Time</h3>
-                <span className="text-sm text-slate-400">
-                  {metrics.conversationsByDay && metrics.conversationsByDay.length > 0 
-                    ? `${metrics.conversationsByDay[0]?.label} - ${metrics.conversationsByDay[metrics.conversationsByDay.length - 1]?.label}, 2026`
-                    : 'Last 7 days'}
-                </span>
+                <span className="text-sm text-slate-400">{rangeLabel}</span>
               </div>
-              <p className="text-xs text-slate-400 mb-6">Click on a data point to view conversations</p>
+              <p className="text-xs text-slate-400 mb-6">
+                {metrics.previous ? "Dashed line: previous period" : "Click on a data point to view conversations"}
+              </p>
               
-              {metrics.conversationsByDay && metrics.conversationsByDay.length > 0 ? (
+              {metrics.conversationsByPeriod && metrics.conversationsByPeriod.length > 0 ? (
                 <div className="relative h-52">
                   {/* Y-axis labels */}
                   <div className="absolute left-0 top-0 bottom-6 w-6 flex flex-col justify-between text-xs text-slate-400">
                     {(() => {
-                      const maxCount = Math.max(...metrics.conversationsByDay.map(d => d.count), 1);
+                      const maxCount = Math.max(...metrics.conversationsByPeriod.map(d => d.count), ...(metrics.previous?.conversationsByPeriod.map(d => d.count) || []), 1);
                       const steps = [maxCount, Math.round(maxCount * 0.5), 0];
                       return steps.map((val, i) => (
                         <span key={i}>{val}</span>
@@ -537,12 +938,17 @@ export default function AdminPage() {
                         </linearGradient>
                       </defs>
                       {(() => {
-                        const data = metrics.conversationsByDay;
-                        const maxCount = Math.max(...data.map(d => d.count), 1);
+                        const data = metrics.conversationsByPeriod;
+                        const previousData = (metrics.previous?.conversationsByPeriod || []).slice(0, data.length);
+                        const maxCount = Math.max(...data.map(d => d.count), ...previousData.map(d => d.count), 1);
                         const points = data.map((d, i) => ({
                           x: data.length === 1 ? 50 : (i / (data.length - 1)) * 100,
                           y: 100 - (d.count / maxCount) * 100,
                         }));
+                        // Previous period drawn on the same x positions (period 1 against period 1, ...)
+                        const previousPath = previousData.map((d, i) =>
+                          `${i === 0 ? 'M' : 'L'} ${data.length === 1 ? 50 : (i / (data.length - 1)) * 100} ${100 - (d.count / maxCount) * 100}`
+                        ).join(' ');
                         
                         // Create smooth curve path using quadratic bezier
                         let linePath = '';
@@ -570,6 +976,17 @@ export default function AdminPage() {
                           <>
                             {/* Area fill */}
                             <path d={areaPath} fill="url(#areaGradient)" />
+                            {/* Previous period */}
+                            {previousPath && (
+                              <path
+                                d={previousPath}
+                                fill="none"
+                                stroke="#94a3b8"
+                                strokeWidth="1.5"
+                                strokeDasharray="4 3"
+                                vectorEffect="non-scaling-stroke"
+                              />
+                            )}
                             {/* Line */}
                             <path
                               d={simpleLinePath}
@@ -585,10 +1002,13 @@ export default function AdminPage() {
                     
                     {/* Data points (separate div for proper sizing) */}
                     <div className="absolute inset-0">
-                      {metrics.conversationsByDay.map((day, i) => {
-                        const maxCount = Math.max(...metrics.conversationsByDay.map(d => d.count), 1);
-                        const x = metrics.conversationsByDay.length === 1 ? 50 : (i / (metrics.conversationsByDay.length - 1)) * 100;
-                        const y = 100 - (day.count / maxCount) * 100;
+                      {metrics.conversationsByPeriod.map((period, i) => {
+                        const data = metrics.conversationsByPeriod;
+                        const previousPeriod = metrics.previous?.conversationsByPeriod[i];
+                        const maxCount = Math.max(...data.map(d => d.count), ...(metrics.previous?.conversationsByPeriod.slice(0, data.length).map(d => d.count) || []), 1);
+                        const x = data.length === 1 ? 50 : (i / (data.length - 1)) * 100;
+                        const y = 100 - (period.count / maxCount) * 100;
+                        const when = period.date === period.endDate ? `on ${period.date}` : `${period.date} to ${period.endDate}`;
                         return (
                           <div
                             key={i}
@@ -598,7 +1018,7 @@ export default function AdminPage() {
                               top: `${y}%`,
                               transform: 'translate(-50%, -50%)'
                             }}
-                            title={`${day.count} conversations on ${day.date}`}
+                            title={`${period.count} conversations ${when}${previousPeriod ? ` (previous: ${previousPeriod.count})` : ""}`}
                           />
                         );
                       })}
@@ -607,8 +1027,11 @@ export default function AdminPage() {
                   
                   {/* X-axis labels */}
                   <div className="ml-8 flex justify-between mt-2 text-xs text-slate-400">
-                    {metrics.conversationsByDay.map((day, i) => (
-                      <span key={i}>{day.date.split('-')[2]}</span>
+                    {metrics.conversationsByPeriod.map((period, i, data) => (
+                      // Long ranges label every few points so the axis stays readable
+                      <span key={i} className={i % Math.ceil(data.length / 12) === 0 ? "" : "invisible"}>
+                        {metrics.range.granularity === "day" ? period.date.split('-')[2] : period.label}
+                      </span>
                     ))}
                   </div>
                 </div>
@@ -623,11 +1046,7 @@ export default function AdminPage() {
             <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
               <div className="flex items-center justify-between mb-2">
                 <h3 className="text-lg font-semibold text-slate-800">User Satisfaction</h3>
-                <span className="text-sm text-slate-400">
-                  {metrics.conversationsByDay && metrics.conversationsByDay.length > 0 
-                    ? `${metrics.conversationsByDay[0]?.label} - ${metrics.conversationsByDay[metrics.conversationsByDay.length - 1]?.label}, 2026`
-                    : 'Last 7 days'}
-                </span>
+                <span className="text-sm text-slate-400">{rangeLabel}</span>
               </div>
               
               <div className="flex items-center gap-4 mb-6">
@@ -776,12 +1195,166 @@ export default function AdminPage() {
           </div>
         )}
 
+        {/* Negative Feedback Reasons - click a reason to list those conversations */}
+        {!isLoading && metrics?.negativeFeedbackReasons && (
+          <div className="mb-8 rounded-xl border border-gray-200 bg-white shadow-sm">
+            <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+              <h2 className="text-lg font-semibold text-gray-900">Negative Feedback Reasons</h2>
+              <p className="text-sm text-gray-500">{rangeLabel} (all time in brackets)</p>
+            </div>
+            <div className="space-y-3 p-6">
+              {(() => {
+                const maxCount = Math.max(1, ...metrics.negativeFeedbackReasons.map((r) => r.count));
+                return metrics.negativeFeedbackReasons.map((r) => (
+                  <button
+                    key={r.reason}
+                    onClick={() => {
+                      setFeedbackFilter("negative");
+                      setFeedbackReasonFilter(r.reason);
+                      setFeedbackPage(0);
+                      setFeedbackCursors([null]);
+                    }}
+                    className="block w-full text-left"
+                    title={`Show negative feedback marked "${r.label}"`}
+                  >
+                    <div className="flex justify-between text-xs text-gray-600">
+                      <span className="font-medium">{r.label}</span>
+                      <span>{r.count} ({r.total})</span>
+                    </div>
+                    <div className="mt-1 h-2 rounded-full bg-gray-100">
+                      <div className="h-2 rounded-full bg-red-500" style={{ width: `${(r.count / maxCount) * 100}%` }} />
+                    </div>
+                  </button>
+                ));
+              })()}
+            </div>
+          </div>
+        )}
+
+        {/* Guardrail Interventions - blocked messages by filter category with redacted samples */}
+        {!isLoading && guardrailEvents && (
+          <div className="mb-8 rounded-xl border border-gray-200 bg-white shadow-sm">
+            <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+              <h2 className="text-lg font-semibold text-gray-900">Guardrail Interventions</h2>
+              <p className="text-sm text-gray-500">
+                {rangeLabel}: {guardrailEvents.totalEvents} blocked ({guardrailEvents.bySource.INPUT || 0} input, {guardrailEvents.bySource.OUTPUT || 0} output)
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 gap-6 p-6 lg:grid-cols-3">
+              {/* By category */}
+              <div>
+                <h3 className="mb-3 text-sm font-semibold text-gray-700">By Category</h3>
+                {Object.keys(guardrailEvents.byCategory).length === 0 ? (
+                  <p className="text-sm text-gray-500">No interventions in this period</p>
+                ) : (
+                  <div className="space-y-2">
+                    {Object.entries(guardrailEvents.byCategory)
+                      .sort(([, a], [, b]) => b - a)
+                      .map(([category, count]) => {
+                        const maxCount = Math.max(...Object.values(guardrailEvents.byCategory));
+                        return (
+                          <div key={category}>
+                            <div className="flex justify-between text-xs text-gray-600">
+                              <span className="font-medium">{category}</span>
+                              <span>{count}</span>
+                            </div>
+                            <div className="mt-1 h-2 rounded-full bg-gray-100">
+                              <div
+                                className="h-2 rounded-full bg-red-500"
+                                style={{ width: `${(count / maxCount) * 100}%` }}
+                              />
+                            </div>
+                          </div>
+                        );
+                      })}
+                  </div>
+                )}
+
+                <h3 className="mb-3 mt-6 text-sm font-semibold text-gray-700">
+                  By {{ day: "Day", week: "Week", month: "Month" }[guardrailEvents.range.granularity]}
+                </h3>
+                <div className="flex items-end justify-between gap-1 overflow-x-auto pb-1">
+                  {guardrailEvents.eventsByPeriod.map((period) => (
+                    <div
+                      key={period.date}
+                      className="flex min-w-[36px] flex-1 flex-col items-center"
+                      title={Object.entries(period.categories).map(([c, n]) => `${c}: ${n}`).join(", ") || "None"}
+                    >
+                      <span className="text-xs font-semibold text-gray-900">{period.count}</span>
+                      <span className="whitespace-nowrap text-[10px] text-gray-500">{period.label}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Redacted samples */}
+              <div className="lg:col-span-2">
+                <h3 className="mb-3 text-sm font-semibold text-gray-700">Recent Samples (redacted)</h3>
+                {guardrailEvents.samples.length === 0 ? (
+                  <p className="text-sm text-gray-500">No samples</p>
+                ) : (
+                  <div className="max-h-72 divide-y divide-gray-100 overflow-y-auto rounded-lg border border-gray-200">
+                    {guardrailEvents.samples.map((event) => (
+                      <div key={`${event.timestamp}-${event.conversationId}`} className="px-4 py-3">
+                        <div className="mb-1 flex flex-wrap items-center gap-2">
+                          <span className={`rounded px-1.5 py-0.5 text-[10px] font-semibold ${
+                            event.source === "OUTPUT" ? "bg-amber-100 text-amber-800" : "bg-blue-100 text-blue-800"
+                          }`}>
+                            {event.source}
+                          </span>
+                          {event.categories.map((category) => (
+                            <span key={category} className="rounded bg-red-50 px-1.5 py-0.5 text-[10px] font-medium text-red-700">
+                              {category}
+                            </span>
+                          ))}
+                          <span className="ml-auto text-xs text-gray-400">
+                            {new Date(event.timestamp).toLocaleString()}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-700">{event.sample}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Live Chat - agent console for live handoffs from the chatbot */}
+        {user?.idToken && can("livechat:agent") && (
+          <div className="mb-8">
+            <AgentConsole idToken={user.idToken} agentEmail={user.email || ""} />
+          </div>
+        )}
+
         {/* Escalation Requests Table */}
         <div className="rounded-xl border border-gray-200 bg-white shadow-sm">
           <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
             <h2 className="text-lg font-semibold text-gray-900">Escalation Requests</h2>
+            <select
+              value={escalationStatusFilter}
+              onChange={(e) => {
+                setEscalationStatusFilter(e.target.value);
+                setEscalationPage(0); // Reset to first page when filter changes
+                setEscalationCursors([null]);
+              }}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 outline-none focus:border-[#002d72] focus:ring-2 focus:ring-[#002d72]/20"
+            >
+              <option value="active">All Active</option>
+              {(Object.keys(ESCALATION_STATUS_STYLES) as EscalationStatus[]).map((status) => (
+                <option key={status} value={status}>
+                  {ESCALATION_STATUS_STYLES[status].label}
+                </option>
+              ))}
+            </select>
           </div>
 
+          {escalationActionError && !selectedEscalation && (
+            <p className="mx-6 mt-4 rounded-lg bg-red-50 px-3 py-2 text-xs text-red-700">{escalationActionError}</p>
+          )}
+
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead>
@@ -801,6 +1374,9 @@ export default function AdminPage() {
                   <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
                     Date
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                    Status
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
                     Action
                   </th>
@@ -809,7 +1385,7 @@ export default function AdminPage() {
               <tbody className="divide-y divide-gray-200">
                 {filteredRequests.length === 0 ? (
                   <tr>
-                    <td colSpan={6} className="px-6 py-12 text-center">
+                    <td colSpan={7} className="px-6 py-12 text-center">
                       <p className="text-sm text-gray-500">No escalation requests yet</p>
                     </td>
                   </tr>
@@ -843,10 +1419,18 @@ export default function AdminPage() {
                           day: "numeric",
                         })}
                       </td>
+                      <td className="whitespace-nowrap px-6 py-4">
+                        <span className={`rounded-full px-2.5 py-1 text-xs font-medium ${ESCALATION_STATUS_STYLES[request.status].className}`}>
+                          {ESCALATION_STATUS_STYLES[request.status].label}
+                        </span>
+                        {request.assignee && (
+                          <p className="mt-1 text-xs text-gray-500">{request.assignee}</p>
+                        )}
+                      </td>
                       <td className="whitespace-nowrap px-6 py-4">
                         <div className="flex items-center gap-2">
                           <button
-                            onClick={() => setSelectedEscalation(request)}
+                            onClick={() => openEscalation(request)}
                             className="rounded-lg p-2 text-gray-500 transition-colors hover:bg-gray-100 hover:text-[#002d72]"
                             title="View question"
                           >
@@ -855,16 +1439,19 @@ export default function AdminPage() {
                               <circle cx="12" cy="12" r="3" />
                             </svg>
                           </button>
-                          <button
-                            onClick={() => handleDeleteEscalation(request.id)}
-                            className="rounded-lg p-2 text-gray-500 transition-colors hover:bg-red-50 hover:text-red-600"
-                            title="Delete"
-                          >
-                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                              <polyline points="3 6 5 6 21 6" />
-                              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                            </svg>
-                          </button>
+                          {request.status !== "archived" && can("escalations:archive") && (
+                            <button
+                              onClick={() => handleArchiveEscalation(request.id)}
+                              className="rounded-lg p-2 text-gray-500 transition-colors hover:bg-red-50 hover:text-red-600"
+                              title="Archive"
+                            >
+                              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                <polyline points="21 8 21 21 3 21 3 8" />
+                                <rect x="1" y="3" width="22" height="5" />
+                                <line x1="10" y1="12" x2="14" y2="12" />
+                              </svg>
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -875,14 +1462,14 @@ export default function AdminPage() {
           </div>
 
           {/* Pagination - only show when there are items */}
-          {escalationTotal > 0 && (
+          {escalationRequests.length > 0 && (
             <div className="flex items-center justify-between border-t border-gray-200 px-6 py-4">
               <p className="text-sm text-gray-500">
                 Showing <span className="font-medium">{escalationPage * ITEMS_PER_PAGE + 1}</span> to{" "}
-                <span className="font-medium">{Math.min((escalationPage + 1) * ITEMS_PER_PAGE, escalationTotal)}</span> of{" "}
+                <span className="font-medium">{escalationPage * ITEMS_PER_PAGE + escalationRequests.length}</span> of{" "}
                 <span className="font-medium">{escalationTotal}</span> results
               </p>
-              {escalationTotal > ITEMS_PER_PAGE && (
+              {(escalationPage > 0 || escalationNextCursor) && (
                 <div className="flex items-center gap-2">
                   <button 
                     onClick={() => setEscalationPage(p => Math.max(0, p - 1))}
@@ -892,8 +1479,11 @@ export default function AdminPage() {
                     Previous
                   </button>
                   <button 
-                    onClick={() => setEscalationPage(p => p + 1)}
-                    disabled={(escalationPage + 1) * ITEMS_PER_PAGE >= escalationTotal}
+                    onClick={() => {
+                      setEscalationCursors(c => [...c.slice(0, escalationPage + 1), escalationNextCursor]);
+                      setEscalationPage(p => p + 1);
+                    }}
+                    disabled={!escalationNextCursor}
                     className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
                   >
                     Next
@@ -907,23 +1497,178 @@ export default function AdminPage() {
         {/* Conversation Feedback Table */}
         <div className="mt-8 rounded-xl border border-gray-200 bg-white shadow-sm">
           <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
-            <h2 className="text-lg font-semibold text-gray-900">Conversation Feedback</h2>
+            <h2 className="text-lg font-semibold text-gray-900">
+              {activeSearch ? "Conversation Search" : "Conversation Feedback"}
+            </h2>
             <div className="flex items-center gap-3">
               <select
                 value={feedbackFilter}
                 onChange={(e) => {
                   setFeedbackFilter(e.target.value);
+                  setFeedbackReasonFilter("all");
                   setFeedbackPage(0); // Reset to first page when filter changes
+                  setFeedbackCursors([null]);
                 }}
                 className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 outline-none focus:border-[#002d72] focus:ring-2 focus:ring-[#002d72]/20"
               >
                 <option value="all">All Feedback</option>
                 <option value="positive">Positive</option>
                 <option value="negative">Negative</option>
+                {activeSearch && <option value="none">No Feedback</option>}
               </select>
+              {feedbackFilter === "negative" && (
+                <select
+                  value={feedbackReasonFilter}
+                  onChange={(e) => {
+                    setFeedbackReasonFilter(e.target.value);
+                    setFeedbackPage(0);
+                    setFeedbackCursors([null]);
+                  }}
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 outline-none focus:border-[#002d72] focus:ring-2 focus:ring-[#002d72]/20"
+                >
+                  <option value="all">Any Reason</option>
+                  {Object.entries(FEEDBACK_REASON_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              )}
             </div>
           </div>
 
+          {/* Search - full text over questions and answers plus filters (searches all conversations) */}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const hasSearch = Object.values(searchDraft).some((value) => value.trim() !== "");
+              setActiveSearch(hasSearch ? { ...searchDraft } : null);
+              if (!hasSearch && feedbackFilter === "none") setFeedbackFilter("all");
+              setFeedbackPage(0);
+              setFeedbackCursors([null]);
+            }}
+            className="border-b border-gray-200 px-6 py-4"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="search"
+                value={searchDraft.q}
+                onChange={(e) => setSearchDraft({ ...searchDraft, q: e.target.value })}
+                maxLength={200}
+                placeholder="Search questions and answers..."
+                className="min-w-[200px] flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-800 outline-none focus:border-[#002d72] focus:ring-2 focus:ring-[#002d72]/20"
+              />
+              <button
+                type="button"
+                onClick={() => setShowSearchFilters((v) => !v)}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                {showSearchFilters ? "Hide Filters" : "Filters"}
+              </button>
+              <button
+                type="submit"
+                className="rounded-lg bg-[#002d72] px-4 py-2 text-sm font-medium text-white hover:bg-[#001f4d]"
+              >
+                Search
+              </button>
+              {activeSearch && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSearchDraft(EMPTY_SEARCH);
+                    setActiveSearch(null);
+                    if (feedbackFilter === "none") setFeedbackFilter("all");
+                    setFeedbackPage(0);
+                    setFeedbackCursors([null]);
+                  }}
+                  className="rounded-lg px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+
+            {showSearchFilters && (
+              <div className="mt-3 grid grid-cols-2 gap-3 text-sm md:grid-cols-4">
+                <label className="text-xs font-medium text-gray-600">
+                  From
+                  <input
+                    type="date"
+                    value={searchDraft.from}
+                    onChange={(e) => setSearchDraft({ ...searchDraft, from: e.target.value })}
+                    className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-800"
+                  />
+                </label>
+                <label className="text-xs font-medium text-gray-600">
+                  To
+                  <input
+                    type="date"
+                    value={searchDraft.to}
+                    onChange={(e) => setSearchDraft({ ...searchDraft, to: e.target.value })}
+                    className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-800"
+                  />
+                </label>
+                <label className="text-xs font-medium text-gray-600">
+                  Confidence (%)
+                  <div className="mt-1 flex items-center gap-1">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={searchDraft.minConfidence}
+                      onChange={(e) => setSearchDraft({ ...searchDraft, minConfidence: e.target.value })}
+                      placeholder="Min"
+                      className="w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-800"
+                    />
+                    <span className="text-gray-400">–</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={searchDraft.maxConfidence}
+                      onChange={(e) => setSearchDraft({ ...searchDraft, maxConfidence: e.target.value })}
+                      placeholder="Max"
+                      className="w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-800"
+                    />
+                  </div>
+                </label>
+                <label className="text-xs font-medium text-gray-600">
+                  Max response time (s)
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={searchDraft.maxResponseSeconds}
+                    onChange={(e) => setSearchDraft({ ...searchDraft, maxResponseSeconds: e.target.value })}
+                    className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-800"
+                  />
+                </label>
+                <label className="col-span-2 text-xs font-medium text-gray-600">
+                  Cited source domain
+                  <input
+                    type="text"
+                    value={searchDraft.domain}
+                    onChange={(e) => setSearchDraft({ ...searchDraft, domain: e.target.value })}
+                    placeholder="e.g. fsa.usda.gov"
+                    className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-800"
+                  />
+                </label>
+                <label className="col-span-2 text-xs font-medium text-gray-600">
+                  Outcome
+                  <select
+                    value={searchDraft.outcome}
+                    onChange={(e) => setSearchDraft({ ...searchDraft, outcome: e.target.value })}
+                    className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-800"
+                  >
+                    <option value="">Any</option>
+                    <option value="answered">Answered</option>
+                    <option value="low_confidence">Low confidence</option>
+                    <option value="blocked">Blocked</option>
+                    <option value="error">Error</option>
+                  </select>
+                </label>
+              </div>
+            )}
+          </form>
+
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead>
@@ -946,7 +1691,9 @@ export default function AdminPage() {
                 {feedbackConversations.length === 0 ? (
                   <tr>
                     <td colSpan={4} className="px-6 py-12 text-center">
-                      <p className="text-sm text-gray-500">No feedback received yet</p>
+                      <p className="text-sm text-gray-500">
+                        {activeSearch ? "No conversations match your search" : "No feedback received yet"}
+                      </p>
                     </td>
                   </tr>
                 ) : (
@@ -970,6 +1717,11 @@ export default function AdminPage() {
                           {feedbackIcons[conv.feedback || 'null']}
                           {conv.feedback ? conv.feedback.toUpperCase() : 'None'}
                         </span>
+                        {conv.feedbackReasons && conv.feedbackReasons.length > 0 && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            {conv.feedbackReasons.map((r) => FEEDBACK_REASON_LABELS[r] || r).join(", ")}
+                          </span>
+                        )}
                       </td>
                       <td className="whitespace-nowrap px-6 py-4">
                         <div className="flex items-center gap-2">
@@ -983,16 +1735,18 @@ export default function AdminPage() {
                               <circle cx="12" cy="12" r="3" />
                             </svg>
                           </button>
-                          <button
-                            onClick={() => handleDeleteConversation(conv.conversationId)}
-                            className="rounded-lg p-2 text-gray-500 transition-colors hover:bg-red-50 hover:text-red-600"
-                            title="Delete"
-                          >
-                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                              <polyline points="3 6 5 6 21 6" />
-                              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                            </svg>
-                          </button>
+                          {can("conversations:manage") && (
+                            <button
+                              onClick={() => handleDeleteConversation(conv.conversationId)}
+                              className="rounded-lg p-2 text-gray-500 transition-colors hover:bg-red-50 hover:text-red-600"
+                              title="Delete"
+                            >
+                              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                <polyline points="3 6 5 6 21 6" />
+                                <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                              </svg>
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -1003,14 +1757,14 @@ export default function AdminPage() {
           </div>
 
           {/* Pagination - only show when there are items */}
-          {feedbackTotal > 0 && (
+          {feedbackConversations.length > 0 && (
             <div className="flex items-center justify-between border-t border-gray-200 px-6 py-4">
               <p className="text-sm text-gray-500">
                 Showing <span className="font-medium">{feedbackPage * ITEMS_PER_PAGE + 1}</span> to{" "}
-                <span className="font-medium">{Math.min((feedbackPage + 1) * ITEMS_PER_PAGE, feedbackTotal)}</span> of{" "}
+                <span className="font-medium">{feedbackPage * ITEMS_PER_PAGE + feedbackConversations.length}</span> of{" "}
                 <span className="font-medium">{feedbackTotal}</span> conversations
               </p>
-              {feedbackTotal > ITEMS_PER_PAGE && (
+              {(feedbackPage > 0 || feedbackNextCursor) && (
                 <div className="flex items-center gap-2">
                   <button 
                     onClick={() => setFeedbackPage(p => Math.max(0, p - 1))}
@@ -1020,8 +1774,11 @@ export default function AdminPage() {
                     Previous
                   </button>
                   <button 
-                    onClick={() => setFeedbackPage(p => p + 1)}
-                    disabled={(feedbackPage + 1) * ITEMS_PER_PAGE >= feedbackTotal}
+                    onClick={() => {
+                      setFeedbackCursors(c => [...c.slice(0, feedbackPage + 1), feedbackNextCursor]);
+                      setFeedbackPage(p => p + 1);
+                    }}
+                    disabled={!feedbackNextCursor}
                     className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
                   >
                     Next
@@ -1067,6 +1824,24 @@ export default function AdminPage() {
             {/* Modal Body - Conversation */}
             <div className="flex-1 min-h-0 overflow-y-auto bg-gray-50 p-4">
               <div className="space-y-4">
+                {/* Thumbs-down reasons and comment */}
+                {selectedConversation.feedback === "neg" && ((selectedConversation.feedbackReasons?.length ?? 0) > 0 || selectedConversation.feedbackComment) && (
+                  <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+                    {selectedConversation.feedbackReasons && selectedConversation.feedbackReasons.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {selectedConversation.feedbackReasons.map((r) => (
+                          <span key={r} className="rounded-full bg-red-100 px-2.5 py-0.5 text-xs font-medium">
+                            {FEEDBACK_REASON_LABELS[r] || r}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {selectedConversation.feedbackComment && (
+                      <p className="mt-2 whitespace-pre-wrap">&ldquo;{selectedConversation.feedbackComment}&rdquo;</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Question */}
                 <div className="flex justify-end">
                   <div className="max-w-[85%] rounded-2xl bg-[#002d72] text-white px-4 py-3">
@@ -1074,6 +1849,27 @@ export default function AdminPage() {
                   </div>
                 </div>
 
+                {/* Rewritten retrieval query (only shown when it differs from the question) */}
+                {selectedConversation.retrievalQuery && selectedConversation.retrievalQuery !== selectedConversation.question && (
+                  <div className="flex justify-end">
+                    <p className="max-w-[85%] text-right text-xs text-gray-500">
+                      <span className="font-semibold">Searched as:</span> {selectedConversation.retrievalQuery}
+                    </p>
+                  </div>
+                )}
+
+                {/* Guardrail intervention */}
+                {selectedConversation.outcome === "blocked" && (
+                  <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-2 text-xs text-red-700">
+                    <span className="font-semibold">
+                      Blocked by {selectedConversation.guardrailSource === "OUTPUT" ? "output" : "input"} guardrail
+                    </span>
+                    {selectedConversation.guardrailReasons && selectedConversation.guardrailReasons.length > 0 && (
+                      <>: {selectedConversation.guardrailReasons.join(", ")}</>
+                    )}
+                  </div>
+                )}
+
                 {/* Answer */}
                 <div className="flex justify-start">
                   <div className="max-w-[85%] rounded-2xl bg-white text-gray-800 shadow-sm px-4 py-3">
@@ -1176,13 +1972,35 @@ export default function AdminPage() {
               <div className="flex items-center justify-between">
                 <p className="text-xs text-gray-500">
                   Conversation ID: {selectedConversation.conversationId}
+                  {selectedConversation.configVersion != null && (
+                    <> · Config v{selectedConversation.configVersion}</>
+                  )}
+                  {selectedConversation.redacted && <> · Redacted</>}
                 </p>
-                <button
-                  onClick={() => setSelectedConversation(null)}
-                  className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-200"
-                >
-                  Close
-                </button>
+                <div className="flex items-center gap-2">
+                  {can("conversations:manage") && !selectedConversation.redacted && (
+                    <button
+                      onClick={() => handleRedactConversation(selectedConversation.conversationId)}
+                      className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                    >
+                      Redact
+                    </button>
+                  )}
+                  {can("conversations:manage") && (
+                    <button
+                      onClick={() => handleDeleteConversation(selectedConversation.conversationId)}
+                      className="rounded-lg border border-red-200 bg-white px-4 py-2 text-sm font-medium text-red-600 transition-colors hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setSelectedConversation(null)}
+                    className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-200"
+                  >
+                    Close
+                  </button>
+                </div>
               </div>
             </div>
           </div>
@@ -1192,9 +2010,9 @@ export default function AdminPage() {
       {/* Escalation Request Viewer Modal */}
       {selectedEscalation && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
-          <div className="w-full max-w-md overflow-hidden rounded-2xl bg-white shadow-2xl">
+          <div className="flex max-h-[90vh] w-full max-w-lg flex-col overflow-hidden rounded-2xl bg-white shadow-2xl">
             {/* Modal Header */}
-            <div className="flex items-center justify-between border-b border-gray-200 bg-[#002d72] px-6 py-4">
+            <div className="flex flex-shrink-0 items-center justify-between border-b border-gray-200 bg-[#002d72] px-6 py-4">
               <div>
                 <h3 className="font-semibold text-white">Escalation Request</h3>
                 <p className="text-sm text-white/80">
@@ -1217,7 +2035,7 @@ export default function AdminPage() {
             </div>
 
             {/* Modal Body */}
-            <div className="p-6">
+            <div className="min-h-0 flex-1 overflow-y-auto p-6">
               {/* Contact Info */}
               <div className="mb-6 flex items-center gap-4">
                 <div className="flex h-12 w-12 items-center justify-center rounded-full bg-[#002d72] text-lg font-medium text-white">
@@ -1242,10 +2060,196 @@ export default function AdminPage() {
                   {selectedEscalation.question}
                 </p>
               </div>
+
+              {/* Chat Transcript - what the bot told the user before they asked for help */}
+              <div className="mt-6">
+                <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-500">
+                  Chat Transcript{escalationTranscript && escalationTranscript.length > 0 && ` (${escalationTranscript.length})`}
+                </p>
+                {!selectedEscalation.transcriptAttached ? (
+                  <p className="text-sm text-gray-500">No chat transcript attached.</p>
+                ) : escalationTranscript === null ? (
+                  <p className="text-sm text-gray-500">Loading transcript...</p>
+                ) : escalationTranscript.length === 0 ? (
+                  <p className="text-sm text-gray-500">The chat session is no longer available.</p>
+                ) : (
+                  <div className="max-h-80 space-y-3 overflow-y-auto rounded-xl bg-gray-50 p-3">
+                    {escalationTranscript.map((turn) => (
+                      <div key={turn.conversationId} className="space-y-2">
+                        <div className="flex justify-end">
+                          <div className="max-w-[85%] rounded-2xl bg-[#002d72] px-3 py-2 text-sm text-white">
+                            {turn.question}
+                          </div>
+                        </div>
+                        <div className="flex justify-start">
+                          <div className="max-w-[85%] rounded-2xl bg-white px-3 py-2 text-gray-800 shadow-sm">
+                            {turn.outcome === "blocked" && (
+                              <p className="mb-1 text-xs font-semibold text-red-700">
+                                Blocked by {turn.guardrailSource === "OUTPUT" ? "output" : "input"} guardrail
+                              </p>
+                            )}
+                            <div className="prose prose-sm max-w-none overflow-wrap-anywhere prose-gray text-sm prose-a:text-[#002d72]">
+                              <ReactMarkdown
+                                components={{
+                                  a: ({ href, children }) => (
+                                    <a href={href} target="_blank" rel="noopener noreferrer" className="text-[#002d72] underline hover:opacity-80">
+                                      {children}
+                                    </a>
+                                  ),
+                                }}
+                              >
+                                {turn.answer}
+                              </ReactMarkdown>
+                            </div>
+                            {turn.citations.length > 0 && (
+                              <div className="mt-2 space-y-1 border-t border-gray-200 pt-2">
+                                {turn.citations.slice(0, 3).map((citation) => (
+                                  <a
+                                    key={citation.id}
+                                    href={citation.source}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="block text-xs text-[#1a5fb4] hover:underline"
+                                    title={citation.source}
+                                  >
+                                    ↗ {generateSourceTitle(citation.source)}
+                                  </a>
+                                ))}
+                              </div>
+                            )}
+                            <p className="mt-2 text-xs text-gray-400">
+                              {new Date(turn.timestamp).toLocaleTimeString()}
+                              {turn.confidence != null && <> · Confidence {Math.round(turn.confidence * 100)}%</>}
+                              {turn.outcome === "low_confidence" && <> · Low confidence fallback</>}
+                              {turn.feedback && <> · Rated {turn.feedback === "pos" ? "helpful" : "not helpful"}</>}
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Workflow - status and assignee */}
+              <div className="mt-6">
+                <div className="mb-3 flex items-center justify-between">
+                  <p className="text-xs font-semibold uppercase tracking-wider text-gray-500">Status</p>
+                  <span className={`rounded-full px-2.5 py-1 text-xs font-medium ${ESCALATION_STATUS_STYLES[selectedEscalation.status].className}`}>
+                    {ESCALATION_STATUS_STYLES[selectedEscalation.status].label}
+                  </span>
+                </div>
+                {can("escalations:update") && ESCALATION_TRANSITIONS[selectedEscalation.status].length > 0 && (
+                  <div className="mb-4 flex flex-wrap gap-2">
+                    {ESCALATION_TRANSITIONS[selectedEscalation.status].map((status) => (
+                      <button
+                        key={status}
+                        onClick={() => handleUpdateEscalation(selectedEscalation.id, { status })}
+                        disabled={isUpdatingEscalation}
+                        className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        Mark {ESCALATION_STATUS_STYLES[status].label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {can("escalations:update") && selectedEscalation.status !== "archived" && selectedEscalation.status !== "closed" && (
+                  <>
+                    <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-500">Assignee</p>
+                    <div className="flex gap-2">
+                      <input
+                        type="email"
+                        value={assigneeDraft}
+                        onChange={(e) => setAssigneeDraft(e.target.value)}
+                        placeholder="Admin user email"
+                        className="min-w-0 flex-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 outline-none focus:border-[#002d72] focus:ring-2 focus:ring-[#002d72]/20"
+                      />
+                      <button
+                        onClick={() => handleUpdateEscalation(selectedEscalation.id, { assignee: assigneeDraft.trim() || null })}
+                        disabled={isUpdatingEscalation || assigneeDraft.trim() === (selectedEscalation.assignee || "")}
+                        className="rounded-lg bg-[#002d72] px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-[#001f4d] disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        {assigneeDraft.trim() ? "Assign" : "Unassign"}
+                      </button>
+                    </div>
+                    {user?.email && selectedEscalation.assignee !== user.email && (
+                      <button
+                        onClick={() => handleUpdateEscalation(selectedEscalation.id, { assignee: user.email })}
+                        disabled={isUpdatingEscalation}
+                        className="mt-1 text-xs text-[#002d72] hover:underline disabled:opacity-50"
+                      >
+                        Assign to me
+                      </button>
+                    )}
+                  </>
+                )}
+
+                {escalationActionError && (
+                  <p className="mt-3 rounded-lg bg-red-50 px-3 py-2 text-xs text-red-700">{escalationActionError}</p>
+                )}
+              </div>
+
+              {/* Internal notes */}
+              <div className="mt-6">
+                <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-500">
+                  Internal Notes ({selectedEscalation.notes.length})
+                </p>
+                {selectedEscalation.notes.length > 0 && (
+                  <div className="mb-3 space-y-2">
+                    {selectedEscalation.notes.map((note) => (
+                      <div key={note.noteId} className="rounded-lg border border-gray-200 p-3">
+                        <p className="whitespace-pre-wrap text-sm text-gray-800">{note.text}</p>
+                        <p className="mt-1 text-xs text-gray-400">
+                          {note.author} · {new Date(note.timestamp).toLocaleString()}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {can("escalations:update") && selectedEscalation.status !== "archived" && (
+                  <div className="flex flex-col gap-2">
+                    <textarea
+                      value={noteDraft}
+                      onChange={(e) => setNoteDraft(e.target.value)}
+                      placeholder="Add a note for the team (not visible to the requester)"
+                      rows={2}
+                      maxLength={2000}
+                      className="w-full resize-none rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 outline-none focus:border-[#002d72] focus:ring-2 focus:ring-[#002d72]/20"
+                    />
+                    <button
+                      onClick={() => handleUpdateEscalation(selectedEscalation.id, { note: noteDraft })}
+                      disabled={isUpdatingEscalation || !noteDraft.trim()}
+                      className="self-end rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Add Note
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* History */}
+              {selectedEscalation.history.length > 0 && (
+                <div className="mt-6">
+                  <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-500">History</p>
+                  <ul className="space-y-1 text-xs text-gray-500">
+                    {selectedEscalation.history.map((entry, index) => (
+                      <li key={`${entry.timestamp}-${index}`}>
+                        {new Date(entry.timestamp).toLocaleString()} · {entry.actor}{" "}
+                        {entry.action === "status"
+                          ? `changed status ${ESCALATION_STATUS_STYLES[entry.from as EscalationStatus]?.label || entry.from} → ${ESCALATION_STATUS_STYLES[entry.to as EscalationStatus]?.label || entry.to}`
+                          : entry.to
+                            ? `assigned to ${entry.to}`
+                            : "removed the assignee"}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
 
             {/* Modal Footer */}
-            <div className="border-t border-gray-200 bg-gray-50 px-6 py-4">
+            <div className="flex-shrink-0 border-t border-gray-200 bg-gray-50 px-6 py-4">
               <div className="flex items-center justify-end gap-3">
                 <button
                   onClick={() => setSelectedEscalation(null)}
@@ -0,0 +1,402 @@
+"use client";
+
+import { useState, useEffect, useCallback, FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { useAdminAuth, AdminRole, ROLE_LABELS } from "../context/AdminAuthContext";
+
+interface AdminUserRecord {
+  username: string;
+  email: string | null;
+  status: string; // Cognito UserStatus, e.g. FORCE_CHANGE_PASSWORD, CONFIRMED
+  enabled: boolean;
+  roles: AdminRole[];
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+const ADMIN_API_URL = process.env.NEXT_PUBLIC_ADMIN_API_URL || "";
+
+// Highest access first, matching the group precedence in the stack
+const ROLE_OPTIONS: AdminRole[] = ["administrator", "support_agent", "analyst", "viewer"];
+
+const STATUS_LABELS: Record<string, string> = {
+  FORCE_CHANGE_PASSWORD: "Invited",
+  CONFIRMED: "Active",
+  RESET_REQUIRED: "Password reset",
+};
+
+// Account status shown in the table (disabled wins over the Cognito status)
+function describeStatus(user: AdminUserRecord): { label: string; className: string } {
+  if (!user.enabled) return { label: "Disabled", className: "bg-gray-100 text-gray-600" };
+  if (user.status === "CONFIRMED") return { label: "Active", className: "bg-green-100 text-green-700" };
+  return { label: STATUS_LABELS[user.status] || user.status, className: "bg-yellow-100 text-yellow-700" };
+}
+
+// Administrators invite admin users, change their roles, disable them and reset their passwords
+export default function UsersPage() {
+  const router = useRouter();
+  const { user, can, isAuthenticated, isLoading: authLoading, authFetch } = useAdminAuth();
+
+  const [users, setUsers] = useState<AdminUserRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<AdminRole>("viewer");
+  const [isInviting, setIsInviting] = useState(false);
+  const [busyUsername, setBusyUsername] = useState<string | null>(null);
+
+  const canManage = can("users:manage");
+  const currentEmail = (user?.email || user?.username || "").toLowerCase();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push("/admin");
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  // Call a /users route; returns to sign-in on 401 (authFetch has already signed out) and throws
+  // the API's error message otherwise
+  const callApi = useCallback(async (path: string, init: RequestInit = {}) => {
+    const res = await authFetch(`${ADMIN_API_URL}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    if (res.status === 401) {
+      router.push("/admin");
+      throw new Error("Your session has expired");
+    }
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new Error(data.error || "Request failed");
+    }
+    return data;
+  }, [authFetch, router]);
+
+  const fetchUsers = useCallback(async () => {
+    if (!ADMIN_API_URL || !isAuthenticated || !canManage) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await callApi("/users");
+      setUsers(data.users || []);
+    } catch (err) {
+      console.error("Error fetching users:", err);
+      setError(err instanceof Error ? err.message : "Failed to load users");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [callApi, isAuthenticated, canManage]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  // Replace one user in the list with the API's updated record
+  const updateUser = (updated: AdminUserRecord) => {
+    setUsers((prev) => prev.map((u) => (u.username === updated.username ? updated : u)));
+  };
+
+  const handleInvite = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const created: AdminUserRecord = await callApi("/users", {
+        method: "POST",
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+      setUsers((prev) => [...prev, created].sort((a, b) => (a.email || a.username).localeCompare(b.email || b.username)));
+      setNotice(`Invitation sent to ${created.email}. They will receive a temporary password by email.`);
+      setInviteEmail("");
+    } catch (err) {
+      console.error("Error inviting user:", err);
+      setError(err instanceof Error ? err.message : "Failed to invite user");
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  // Run an action on one user, showing its result or error above the table
+  const runUserAction = async (target: AdminUserRecord, action: () => Promise<string>) => {
+    setBusyUsername(target.username);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await action());
+    } catch (err) {
+      console.error("Error updating user:", err);
+      setError(err instanceof Error ? err.message : "Failed to update user");
+    } finally {
+      setBusyUsername(null);
+    }
+  };
+
+  const handleRoleChange = (target: AdminUserRecord, role: AdminRole) =>
+    runUserAction(target, async () => {
+      const updated = await callApi(`/users/${encodeURIComponent(target.username)}/role`, {
+        method: "PUT",
+        body: JSON.stringify({ role }),
+      });
+      updateUser(updated);
+      return `${target.email} is now ${ROLE_LABELS[role]}. This applies the next time they sign in or their session renews.`;
+    });
+
+  const handleToggleEnabled = (target: AdminUserRecord) => {
+    if (target.enabled && !window.confirm(`Disable ${target.email}? They will be signed out and unable to sign in.`)) return;
+    runUserAction(target, async () => {
+      const action = target.enabled ? "disable" : "enable";
+      const updated = await callApi(`/users/${encodeURIComponent(target.username)}/${action}`, { method: "POST" });
+      updateUser(updated);
+      return `${target.email} has been ${target.enabled ? "disabled" : "re-enabled"}.`;
+    });
+  };
+
+  const handleResetPassword = (target: AdminUserRecord) => {
+    if (!window.confirm(`Reset the password of ${target.email}? They will be signed out and emailed a new temporary password.`)) return;
+    runUserAction(target, async () => {
+      await callApi(`/users/${encodeURIComponent(target.username)}/reset-password`, { method: "POST" });
+      return `A new temporary password has been emailed to ${target.email}.`;
+    });
+  };
+
+  const handleResetMfa = (target: AdminUserRecord) => {
+    if (!window.confirm(`Reset MFA for ${target.email}? Their authenticator app will stop working and they will be signed out. They keep their password and role and will set up a new app at their next sign-in.`)) return;
+    runUserAction(target, async () => {
+      await callApi(`/users/${encodeURIComponent(target.username)}/reset-mfa`, { method: "POST" });
+      return `MFA has been reset for ${target.email}. They have been emailed a temporary password and will set up a new authenticator app at their next sign-in.`;
+    });
+  };
+
+  // Show loading while checking auth
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="flex items-center gap-3">
+          <div className="h-6 w-6 animate-spin rounded-full border-2 border-[#002d72] border-t-transparent" />
+          <span className="text-gray-600">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  // Don't render if not authenticated (will redirect)
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const selectClass = "rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-700 disabled:opacity-50";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white">
+        <div className="mx-auto flex max-w-7xl items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-white p-1">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src="/usda-symbol.svg"
+                alt="USDA"
+                className="h-full w-full"
+              />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">AskUSDA</h1>
+              <p className="text-sm text-gray-500">Admin Users</p>
+            </div>
+          </div>
+          <button
+            onClick={() => router.push("/dashboard")}
+            className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <line x1="19" y1="12" x2="5" y2="12" />
+              <polyline points="12 19 5 12 12 5" />
+            </svg>
+            Dashboard
+          </button>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-6 py-8">
+        {!canManage ? (
+          <div className="rounded-xl border border-gray-200 bg-white p-8 text-center shadow-sm">
+            <p className="font-medium text-gray-900">Only administrators can manage users</p>
+            <p className="mt-1 text-sm text-gray-500">Ask an administrator to change your role if you need access.</p>
+          </div>
+        ) : (
+          <>
+            {/* Invite */}
+            <div className="mb-8 rounded-xl border border-gray-200 bg-white shadow-sm">
+              <div className="border-b border-gray-200 px-6 py-4">
+                <h2 className="text-lg font-semibold text-gray-900">Invite a User</h2>
+                <p className="text-sm text-gray-500">Cognito emails them a temporary password; they choose their own password at first sign-in.</p>
+              </div>
+              <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-3 px-6 py-4">
+                <label className="flex-1 text-xs font-medium text-gray-600">
+                  Email
+                  <input
+                    type="email"
+                    required
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="name@usda.gov"
+                    className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-800"
+                  />
+                </label>
+                <label className="text-xs font-medium text-gray-600">
+                  Role
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as AdminRole)}
+                    className={`mt-1 block ${selectClass}`}
+                  >
+                    {ROLE_OPTIONS.map((role) => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  type="submit"
+                  disabled={isInviting}
+                  className="rounded-lg bg-[#002d72] px-4 py-2 text-sm font-medium text-white hover:bg-[#001f4d] disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {isInviting ? "Inviting..." : "Send Invite"}
+                </button>
+              </form>
+            </div>
+
+            {error && (
+              <div className="mb-6 rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-700">{error}</div>
+            )}
+            {notice && (
+              <div className="mb-6 rounded-xl border border-green-200 bg-green-50 p-4 text-sm text-green-700">{notice}</div>
+            )}
+
+            {/* Users */}
+            <div className="rounded-xl border border-gray-200 bg-white shadow-sm">
+              <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                <h2 className="text-lg font-semibold text-gray-900">Users</h2>
+                <p className="text-sm text-gray-500">{users.length} total</p>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 bg-gray-50">
+                      <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                        Email
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                        Role
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                        Added
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {isLoading ? (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-12 text-center text-sm text-gray-500">Loading users...</td>
+                      </tr>
+                    ) : users.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-12 text-center text-sm text-gray-500">No users</td>
+                      </tr>
+                    ) : (
+                      users.map((u) => {
+                        const isSelf = !!u.email && u.email.toLowerCase() === currentEmail;
+                        const isBusy = busyUsername === u.username;
+                        const status = describeStatus(u);
+                        return (
+                          <tr key={u.username} className="transition-colors hover:bg-gray-50">
+                            <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">
+                              {u.email || u.username}
+                              {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4">
+                              {/* Your own role can't be changed here, so an administrator can't lock everyone out */}
+                              <select
+                                value={u.roles[u.roles.length - 1] || ""}
+                                onChange={(e) => handleRoleChange(u, e.target.value as AdminRole)}
+                                disabled={isSelf || isBusy}
+                                className={selectClass}
+                              >
+                                {u.roles.length === 0 && <option value="">No role</option>}
+                                {ROLE_OPTIONS.map((role) => (
+                                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                                ))}
+                              </select>
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4">
+                              <span className={`inline-flex rounded-full px-3 py-1 text-xs font-medium ${status.className}`}>
+                                {status.label}
+                              </span>
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-600">
+                              {u.createdAt ? new Date(u.createdAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }) : "—"}
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4">
+                              <div className="flex items-center gap-2">
+                                <button
+                                  onClick={() => handleResetPassword(u)}
+                                  disabled={isBusy || !u.enabled}
+                                  className="rounded-lg border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                                >
+                                  {u.status === "FORCE_CHANGE_PASSWORD" ? "Resend Invite" : "Reset Password"}
+                                </button>
+                                {u.status !== "FORCE_CHANGE_PASSWORD" && (
+                                  <button
+                                    onClick={() => handleResetMfa(u)}
+                                    disabled={isBusy}
+                                    className="rounded-lg border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                                  >
+                                    Reset MFA
+                                  </button>
+                                )}
+                                {!isSelf && (
+                                  <button
+                                    onClick={() => handleToggleEnabled(u)}
+                                    disabled={isBusy}
+                                    className={`rounded-lg border px-3 py-1 text-xs font-medium disabled:cursor-not-allowed disabled:opacity-50 ${
+                                      u.enabled ? "border-red-200 text-red-700 hover:bg-red-50" : "border-green-200 text-green-700 hover:bg-green-50"
+                                    }`}
+                                  >
+                                    {u.enabled ? "Disable" : "Enable"}
+                                  </button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}